@@ -0,0 +1,141 @@
+// D1 schema migrations API - reports and applies schema versions
+// GET returns the current and pending versions; POST { dryRun? } applies pending migrations or plans them.
+// Talks to the database directly, since creating a storage manager would already migrate it.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { getEnvironment, isD1Available } from '@/lib/storage/env-helper';
+import { getSchemaStatus, runMigrations } from '@/lib/storage/d1-migrations';
+
+// The D1 database and table prefix the D1 and hybrid providers use, or null without a binding
+function getDatabase(): { database: D1Database; tablePrefix: string } | null {
+  const env = getEnvironment(getCloudflareContext());
+  if (!isD1Available(env)) {
+    return null;
+  }
+  return { database: env.WEBHOOK_DB!, tablePrefix: env.STORAGE_TABLE_PREFIX || 'webhook' };
+}
+
+export async function GET() {
+  try {
+    const target = getDatabase();
+    if (!target) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'D1 database binding WEBHOOK_DB is not configured'
+        },
+        { status: 409 }
+      );
+    }
+
+    const status = await getSchemaStatus(target.database, target.tablePrefix);
+
+    return NextResponse.json(
+      {
+        success: true,
+        tablePrefix: target.tablePrefix,
+        ...status
+      },
+      {
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        }
+      }
+    );
+  } catch (error) {
+    console.error('Error reading schema status:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to read schema status',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  // The body is optional; an empty one applies pending migrations
+  let dryRun = false;
+  try {
+    const text = await request.text();
+    const body = text ? JSON.parse(text) : {};
+    if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'dryRun must be a boolean'
+        },
+        { status: 400 }
+      );
+    }
+    dryRun = Boolean(body.dryRun);
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid JSON body'
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const target = getDatabase();
+    if (!target) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'D1 database binding WEBHOOK_DB is not configured'
+        },
+        { status: 409 }
+      );
+    }
+
+    const result = await runMigrations(target.database, target.tablePrefix, { dryRun });
+
+    if (!dryRun && result.applied.length > 0) {
+      console.log(`Applied D1 migrations ${result.applied.map(m => m.version).join(', ')}; schema is at version ${result.currentVersion}`);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        tablePrefix: target.tablePrefix,
+        ...result
+      },
+      {
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    );
+  } catch (error) {
+    console.error('Error running migrations:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to run migrations',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle preflight requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -1,12 +1,83 @@
 // Polling API to get webhook requests from storage manager only
+// Without `since` it returns a page of the latest requests; with the `nextSince` of a previous response it returns
+// only what changed after it, and 304 when an If-None-Match header carries the ETag of an identical change set.
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getStorageManager } from '@/lib/storage/storage-manager';
 import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { isDeliveryDue, processDueDeliveries, runInBackground } from '@/lib/deliveries';
+import { parseRequestFilter, hasRequestFilter, matchesRequestFilter } from '@/lib/request-filter';
+import { decodeRequestCursor, getNextCursor } from '@/lib/request-cursor';
+import { SINCE_OVERLAP_MS, getChangesETag, parseSince } from '@/lib/request-changes';
+import { checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import type { WebhookRequest, RequestFilter } from '@/types/webhook';
 
-// Rate limiting: minimum 1 second interval per webhook
-const lastPollTime = new Map<string, number>();
-const MIN_POLL_INTERVAL = 1000; // 1 second in milliseconds
+// Requests per page; older pages are fetched with the `nextCursor` of the previous one
+const POLL_PAGE_SIZE = 100;
+
+// Answer an incremental poll: what changed after `since`, or 304 when it matches the client's ETag
+async function pollChanges(
+  request: NextRequest,
+  webhookId: string,
+  since: Date,
+  filter: RequestFilter | undefined
+): Promise<NextResponse> {
+  const now = Date.now();
+  const headers = {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Expose-Headers': 'ETag',
+    'Cache-Control': 'no-cache, no-store, must-revalidate',
+  };
+
+  try {
+    const cloudflareContext = getCloudflareContext();
+    const storageManager = await getStorageManager(cloudflareContext);
+
+    const changes = await storageManager.getRequestChanges(webhookId, new Date(since.getTime() - SINCE_OVERLAP_MS));
+    if (hasRequestFilter(filter)) {
+      changes.requests = changes.requests.filter(item => matchesRequestFilter(item, filter));
+    }
+
+    const etag = getChangesETag(changes);
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: { ...headers, ETag: etag } });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        webhookId,
+        count: changes.requests.length,
+        ...changes,
+        nextSince: String(now),
+        timestamp: new Date().toISOString(),
+        rateLimited: false,
+      },
+      {
+        status: 200,
+        headers: { ...headers, ETag: etag }
+      }
+    );
+  } catch (error) {
+    console.error(`Error fetching changes of webhook ${webhookId}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch webhook request changes',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        webhookId,
+        requests: [],
+        timestamp: new Date().toISOString(),
+      },
+      {
+        status: 500,
+        headers
+      }
+    );
+  }
+}
 
 export async function GET(
   request: NextRequest,
@@ -26,82 +97,78 @@ export async function GET(
     );
   }
 
-  // Rate limiting check
-  const now = Date.now();
-  const lastPoll = lastPollTime.get(webhookId) || 0;
-  const timeSinceLastPoll = now - lastPoll;
+  // Optional filter: method, from, to, q (header/body search), contentType, userAgent, ip, path (sub-path prefix)
+  const filterValidation = parseRequestFilter(request.nextUrl.searchParams);
+  if (!filterValidation.isValid) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid request filter',
+        errors: filterValidation.errors,
+        requests: []
+      },
+      { status: 400 }
+    );
+  }
+  const filter = filterValidation.value;
 
-  if (timeSinceLastPoll < MIN_POLL_INTERVAL) {
-    // For rate limiting, get cached result from storage manager
-    let requests: any[] = [];
-    try {
-      const cloudflareContext = getCloudflareContext();
-      const storageManager = await getStorageManager(cloudflareContext);
-      requests = await storageManager.getRequests(webhookId, 100);
-    } catch (error) {
-      console.warn('Storage failed during rate limiting:', error);
-      
-      // If it's a D1 configuration error during rate limiting, still return early failure
-      if (error instanceof Error && 'provider' in error && (error as any).provider === 'd1') {
-        const d1Error = error as any;
-        return NextResponse.json(
-          {
-            success: false,
-            error: 'D1 Database Configuration Error',
-            webhookId,
-            requests: [],
-            timestamp: new Date().toISOString(),
-            message: d1Error.message,
-            storageError: {
-              provider: 'd1',
-              type: d1Error.details?.isBindingError ? 'binding_error' : 'initialization_error',
-              details: d1Error.details?.configurationHelp || null
-            }
-          },
-          { 
-            status: 200,
-            headers: {
-              'Content-Type': 'application/json',
-              'Access-Control-Allow-Origin': '*',
-            }
-          }
-        );
-      }
-      
-      requests = []; // Return empty array if storage fails
-    }
-    
-    const headers = {
-      'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET',
-      'Access-Control-Allow-Headers': 'Content-Type',
-      'Cache-Control': 'no-cache, no-store, must-revalidate',
-      'X-RateLimit-Limit': '1',
-      'X-RateLimit-Remaining': '0',
-      'X-RateLimit-Reset': String(Math.ceil((MIN_POLL_INTERVAL - timeSinceLastPoll) / 1000)),
-    };
+  // Optional cursor from a previous response's nextCursor, to page back through older requests
+  const cursorParam = request.nextUrl.searchParams.get('cursor');
+  const cursor = cursorParam ? decodeRequestCursor(cursorParam) : undefined;
+  if (cursor === null) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid cursor',
+        requests: []
+      },
+      { status: 400 }
+    );
+  }
 
+  // Optional since from a previous response's nextSince, to fetch only what changed after it
+  const sinceParam = request.nextUrl.searchParams.get('since');
+  const since = sinceParam ? parseSince(sinceParam) : undefined;
+  if (since === null || (since && cursor)) {
     return NextResponse.json(
       {
-        success: true,
+        success: false,
+        error: since === null ? 'Invalid since' : 'since cannot be combined with cursor',
+        requests: []
+      },
+      { status: 400 }
+    );
+  }
+  // Full and incremental polls draw from the webhook's shared poll bucket before reading storage
+  const rateLimit = await checkRateLimit(getCloudflareContext().env, [{ scope: 'poll', key: webhookId }]);
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Rate limit exceeded',
         webhookId,
-        count: requests.length,
-        requests,
+        requests: [],
         timestamp: new Date().toISOString(),
         rateLimited: true,
-        retryAfter: Math.ceil((MIN_POLL_INTERVAL - timeSinceLastPoll) / 1000),
+        retryAfter: rateLimit.retryAfter,
       },
-      { 
-        status: 200,
-        headers 
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          ...getRateLimitHeaders(rateLimit),
+        }
       }
     );
   }
 
-  // Update last poll time
-  lastPollTime.set(webhookId, now);
+  if (since) {
+    return pollChanges(request, webhookId, since, filter);
+  }
 
+  const now = Date.now();
   try {
     // Get requests from storage manager only
     let requests: any[] = [];
@@ -116,9 +183,17 @@ export async function GET(
       console.log(`Poll ${webhookId}: Using storage provider: ${providerInfo.name} (${providerInfo.type})`);
       
       // Get requests from storage (works with all provider types)
-      requests = await storageManager.getRequests(webhookId, 100);
+      requests = await storageManager.getRequests(webhookId, POLL_PAGE_SIZE, cursor, filter);
       console.log(`Poll ${webhookId}: Retrieved ${requests.length} requests from ${providerInfo.name}`);
       
+      // Send forwarding retries that came due since the last poll
+      if (requests.some((item: WebhookRequest) => item.deliveries?.some(delivery => isDeliveryDue(delivery, now)))) {
+        const webhookConfig = await storageManager.getWebhookConfig(webhookId);
+        if (webhookConfig?.forwarding) {
+          runInBackground(cloudflareContext, processDueDeliveries(storageManager, webhookId, webhookConfig.forwarding));
+        }
+      }
+      
     } catch (storageError) {
       console.error(`Failed to fetch from storage:`, storageError);
       
@@ -156,7 +231,7 @@ export async function GET(
     // Sort by timestamp (newest first)
     requests = requests
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-      .slice(0, 100); // Limit to 100 most recent requests
+      .slice(0, POLL_PAGE_SIZE); // Limit to one page of the most recent requests
     
     // Add CORS headers for cross-origin requests
     const headers = {
@@ -165,9 +240,7 @@ export async function GET(
       'Access-Control-Allow-Methods': 'GET',
       'Access-Control-Allow-Headers': 'Content-Type',
       'Cache-Control': 'no-cache, no-store, must-revalidate',
-      'X-RateLimit-Limit': '1',
-      'X-RateLimit-Remaining': String(Math.floor((MIN_POLL_INTERVAL - (Date.now() - now)) / MIN_POLL_INTERVAL)),
-      'X-RateLimit-Reset': String(Math.ceil(MIN_POLL_INTERVAL / 1000)),
+      ...getRateLimitHeaders(rateLimit),
     };
 
     return NextResponse.json(
@@ -176,6 +249,8 @@ export async function GET(
         webhookId,
         count: requests.length,
         requests,
+        nextCursor: getNextCursor(requests, POLL_PAGE_SIZE),
+        nextSince: String(now),
         timestamp: new Date().toISOString(),
         rateLimited: false,
       },
@@ -214,7 +289,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, If-None-Match',
       'Access-Control-Max-Age': '86400',
     },
   });
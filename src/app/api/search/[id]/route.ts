@@ -0,0 +1,98 @@
+// Search API - ranks a webhook's stored requests against a full-text query
+// GET ?q=<terms>&limit=<n> returns the best matches first, each with a highlighted snippet of the body or headers.
+// D1 and hybrid storage use the FTS5 index; other providers rank substring matches among the latest requests.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { getStorageManager } from '@/lib/storage/storage-manager';
+import { DEFAULT_SEARCH_RESULTS, MAX_SEARCH_RESULTS, validateSearchQuery } from '@/lib/request-search';
+import { isValidWebhookId } from '@/lib/utils';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id: webhookId } = await context.params;
+
+  // Validate webhook ID format
+  if (!isValidWebhookId(webhookId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid webhook ID format',
+        results: []
+      },
+      { status: 400 }
+    );
+  }
+
+  const params = request.nextUrl.searchParams;
+  const queryValidation = validateSearchQuery(params.get('q'));
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_SEARCH_RESULTS;
+  const errors = [...queryValidation.errors];
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_RESULTS) {
+    errors.push(`limit must be an integer between 1 and ${MAX_SEARCH_RESULTS}`);
+  }
+
+  if (errors.length > 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid search query',
+        errors,
+        results: []
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cloudflareContext = getCloudflareContext();
+    const storageManager = await getStorageManager(cloudflareContext);
+
+    const results = await storageManager.searchRequests(webhookId, queryValidation.value!, limit);
+
+    return NextResponse.json(
+      {
+        success: true,
+        webhookId,
+        query: queryValidation.value,
+        count: results.length,
+        results,
+        timestamp: new Date().toISOString(),
+      },
+      {
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        }
+      }
+    );
+  } catch (error) {
+    console.error(`Error searching requests of webhook ${webhookId}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to search requests',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        webhookId,
+        results: []
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
@@ -3,6 +3,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getStorageManager } from '@/lib/storage/storage-manager';
 import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { config } from '@/lib/config';
+import { getRateLimitSettings, getRateLimitStats, isRateLimiterAvailable } from '@/lib/rate-limit';
 
 export async function GET(request: NextRequest) {
   try {
@@ -24,13 +26,17 @@ export async function GET(request: NextRequest) {
         console.warn('Failed to get storage distribution stats:', statsError);
       }
       
+      // Last scheduled retention cleanup, null until the cron trigger first runs
+      const lastCleanup = await storageManager.getLastCleanupRun();
+      
       storageStats = {
         provider: providerInfo.type,
         name: providerInfo.name,
         instance: providerInfo.instance,
         health: isHealthy ? 'healthy' : 'unhealthy',
         details: providerInfo.details || {},
-        distribution: distributionStats
+        distribution: distributionStats,
+        lastCleanup
       };
     } catch (error) {
       console.error('Failed to get storage stats:', error);
@@ -49,11 +55,28 @@ export async function GET(request: NextRequest) {
       }
     }
     
+    // Shared rate limiter settings and how many requests it has refused
+    let rateLimitStats = null;
+    try {
+      const env = getCloudflareContext().env;
+      const settings = getRateLimitSettings();
+      rateLimitStats = {
+        enabled: config.rateLimitEnabled,
+        available: isRateLimiterAvailable(env),
+        requests: settings.requests,
+        windowMs: settings.windowMs,
+        rejections: await getRateLimitStats(env)
+      };
+    } catch (error) {
+      console.warn('Failed to get rate limit stats:', error);
+    }
+    
     const stats = {
       success: true,
       timestamp: new Date().toISOString(),
       storage: storageStats,
       storageError,
+      rateLimit: rateLimitStats,
       server: {
         uptime: process.uptime ? process.uptime() : 'unknown',
         nodeVersion: process.version || 'unknown',
@@ -0,0 +1,193 @@
+// Server-Sent Events stream of a webhook's request changes
+// Sends RealtimeEvents as `new_request`, `request_updated` and `requests_removed` events. Storage is checked for
+// changes every few seconds, and right away when this isolate saves one. Event IDs are the time of the check,
+// so a reconnecting EventSource resumes from its Last-Event-ID without missing anything. Opening the stream and
+// every check draw from the webhook's shared poll bucket, the same as polls.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { getStorageManager, type StorageManager } from '@/lib/storage/storage-manager';
+import { parseRequestFilter, hasRequestFilter, matchesRequestFilter } from '@/lib/request-filter';
+import { SINCE_OVERLAP_MS, parseSince } from '@/lib/request-changes';
+import { createRealtimeCursor, getRealtimeEvents, subscribeToWebhook } from '@/lib/realtime';
+import { checkRateLimit, getRateLimitHeaders, type RateLimitKey } from '@/lib/rate-limit';
+import { isValidWebhookId } from '@/lib/utils';
+
+// How often storage is checked for changes made by other isolates
+const STREAM_CHECK_INTERVAL = 2000;
+
+// Comment lines keep proxies from closing an idle stream
+const STREAM_HEARTBEAT_INTERVAL = 15000;
+
+// Streams end after this long and the browser reconnects, so no request runs indefinitely
+const STREAM_MAX_DURATION = 5 * 60 * 1000;
+
+// Reconnection delay suggested to EventSource
+const STREAM_RETRY_MS = 3000;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id: webhookId } = await context.params;
+
+  // Validate webhook ID format
+  if (!isValidWebhookId(webhookId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid webhook ID format'
+      },
+      { status: 400 }
+    );
+  }
+
+  // Same filters as the poll API; they only narrow which captured or updated requests are sent
+  const filterValidation = parseRequestFilter(request.nextUrl.searchParams);
+  if (!filterValidation.isValid) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid request filter',
+        errors: filterValidation.errors
+      },
+      { status: 400 }
+    );
+  }
+  const filter = filterValidation.value;
+
+  // Resume after the last event the browser received, or start now
+  const resumeFrom = request.headers.get('last-event-id') || request.nextUrl.searchParams.get('since');
+  let since = (resumeFrom && parseSince(resumeFrom)) || new Date();
+
+  const { env } = getCloudflareContext();
+  const rateLimitKeys: RateLimitKey[] = [{ scope: 'poll', key: webhookId }];
+  const rateLimit = await checkRateLimit(env, rateLimitKeys);
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Rate limit exceeded',
+        webhookId,
+        retryAfter: rateLimit.retryAfter
+      },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  let storageManager: StorageManager;
+  try {
+    storageManager = await getStorageManager(getCloudflareContext());
+  } catch (error) {
+    console.error(`Error opening stream for webhook ${webhookId}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to open event stream',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        webhookId
+      },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const realtimeCursor = createRealtimeCursor();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let checking = false;
+      let checkAgain = false;
+
+      const send = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+
+      // Changes are read with some overlap; the cursor drops what was already sent
+      const check = async (): Promise<void> => {
+        if (checking) {
+          checkAgain = true;
+          return;
+        }
+        checking = true;
+
+        try {
+          // A refused check leaves `since` alone, so the next one picks up what it skipped
+          if (!(await checkRateLimit(env, rateLimitKeys)).allowed) return;
+
+          const checkedAt = Date.now();
+          const changes = await storageManager.getRequestChanges(webhookId, new Date(since.getTime() - SINCE_OVERLAP_MS));
+          if (hasRequestFilter(filter)) {
+            changes.requests = changes.requests.filter(item => matchesRequestFilter(item, filter));
+          }
+
+          for (const event of getRealtimeEvents(changes, realtimeCursor)) {
+            send(`id: ${checkedAt}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+          }
+          since = new Date(checkedAt);
+        } catch (error) {
+          console.error(`Stream ${webhookId}: failed to read changes:`, error);
+        } finally {
+          checking = false;
+          if (checkAgain && !closed) {
+            checkAgain = false;
+            void check();
+          }
+        }
+      };
+
+      const checkTimer = setInterval(check, STREAM_CHECK_INTERVAL);
+      // An ID-only message moves Last-Event-ID forward without dispatching an event
+      const heartbeatTimer = setInterval(() => send(`: heartbeat\nid: ${since.getTime()}\n\n`), STREAM_HEARTBEAT_INTERVAL);
+      const endTimer = setTimeout(() => stop(), STREAM_MAX_DURATION);
+      const unsubscribe = subscribeToWebhook(webhookId, () => void check());
+
+      stop = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(checkTimer);
+        clearInterval(heartbeatTimer);
+        clearTimeout(endTimer);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', () => stop());
+
+      send(`retry: ${STREAM_RETRY_MS}\n\n`);
+      void check();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Last-Event-ID',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
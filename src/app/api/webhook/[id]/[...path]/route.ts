@@ -0,0 +1,43 @@
+// Webhook receiver catch-all route - captures deliveries to sub-paths such as /api/webhook/[id]/events/v2
+
+import { NextRequest } from 'next/server';
+import { handleRequest, handlePreflight } from '@/lib/webhook-receiver';
+
+type RouteContext = { params: Promise<{ id: string; path: string[] }> };
+
+// Export handlers for all HTTP methods
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { id: webhookId } = await context.params;
+  return handleRequest(request, webhookId);
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { id: webhookId } = await context.params;
+  return handleRequest(request, webhookId);
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const { id: webhookId } = await context.params;
+  return handleRequest(request, webhookId);
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { id: webhookId } = await context.params;
+  return handleRequest(request, webhookId);
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { id: webhookId } = await context.params;
+  return handleRequest(request, webhookId);
+}
+
+export async function HEAD(request: NextRequest, context: RouteContext) {
+  const { id: webhookId } = await context.params;
+  return handleRequest(request, webhookId);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export async function OPTIONS(_request: NextRequest, _context: RouteContext) {
+  // Handle CORS preflight
+  return handlePreflight();
+}
@@ -0,0 +1,212 @@
+// API endpoint for reading and updating server-side webhook configuration
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { getStorageManager } from '@/lib/storage/storage-manager';
+import { isValidWebhookId, generateWebhookUrl } from '@/lib/utils';
+import { validateMockResponse } from '@/lib/mock-response';
+import { validateResponseRules } from '@/lib/response-rules';
+import { validateChaosConfig, stampChaosConfig } from '@/lib/chaos';
+import { validateVerificationConfig } from '@/lib/signature-verification';
+import { validateForwardingConfig } from '@/lib/forwarding';
+import { validateRetentionConfig } from '@/lib/retention';
+import type { WebhookConfig } from '@/types/webhook';
+
+// Build a default configuration for webhooks that have not been saved server-side yet
+function createDefaultConfig(webhookId: string, request: NextRequest): WebhookConfig {
+  return {
+    id: webhookId,
+    name: `webhook@${webhookId}`,
+    url: generateWebhookUrl(new URL(request.url).origin, webhookId),
+    createdAt: new Date(),
+    requestCount: 0,
+    isActive: true,
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id: webhookId } = await context.params;
+
+  if (!isValidWebhookId(webhookId)) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid webhook ID format' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cloudflareContext = getCloudflareContext();
+    const storageManager = await getStorageManager(cloudflareContext);
+
+    const config = await storageManager.getWebhookConfig(webhookId);
+
+    return NextResponse.json({
+      success: true,
+      webhookId,
+      exists: config !== null,
+      config: config || createDefaultConfig(webhookId, request),
+    });
+  } catch (error) {
+    console.error(`Error loading config for webhook ${webhookId}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load webhook configuration',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        webhookId,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id: webhookId } = await context.params;
+
+  if (!isValidWebhookId(webhookId)) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid webhook ID format' },
+      { status: 400 }
+    );
+  }
+
+  let updates: Partial<WebhookConfig>;
+  try {
+    updates = await request.json() as Partial<WebhookConfig>;
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const errors: string[] = [];
+  const validatedUpdates: Partial<WebhookConfig> = {};
+
+  if (updates.name !== undefined) {
+    if (typeof updates.name !== 'string' || updates.name.trim() === '') {
+      errors.push('name must be a non-empty string');
+    } else {
+      validatedUpdates.name = updates.name.trim();
+    }
+  }
+
+  if (updates.response !== undefined) {
+    const validation = validateMockResponse(updates.response);
+    if (validation.isValid) {
+      validatedUpdates.response = validation.value;
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+
+  if (updates.rules !== undefined) {
+    const validation = validateResponseRules(updates.rules);
+    if (validation.isValid) {
+      validatedUpdates.rules = validation.value;
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+
+  if (updates.chaos !== undefined) {
+    const validation = validateChaosConfig(updates.chaos);
+    if (validation.isValid) {
+      validatedUpdates.chaos = validation.value;
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+
+  if (updates.verification !== undefined) {
+    const validation = validateVerificationConfig(updates.verification);
+    if (validation.isValid) {
+      validatedUpdates.verification = validation.value;
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+
+  if (updates.forwarding !== undefined) {
+    const validation = validateForwardingConfig(updates.forwarding);
+    if (validation.isValid) {
+      validatedUpdates.forwarding = validation.value;
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+
+  if (updates.retention !== undefined) {
+    const validation = validateRetentionConfig(updates.retention);
+    if (validation.isValid) {
+      validatedUpdates.retention = validation.value;
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+
+  if (errors.length > 0) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid webhook configuration', errors, webhookId },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cloudflareContext = getCloudflareContext();
+    const storageManager = await getStorageManager(cloudflareContext);
+
+    const existing = await storageManager.getWebhookConfig(webhookId);
+    if (validatedUpdates.chaos) {
+      validatedUpdates.chaos = stampChaosConfig(validatedUpdates.chaos, existing?.chaos);
+    }
+
+    const config: WebhookConfig = {
+      ...(existing || createDefaultConfig(webhookId, request)),
+      ...validatedUpdates,
+      id: webhookId,
+    };
+
+    await storageManager.saveWebhookConfig(config);
+
+    console.log(`Updated config for webhook ${webhookId}`);
+
+    return NextResponse.json({
+      success: true,
+      webhookId,
+      exists: true,
+      config,
+    });
+  } catch (error) {
+    console.error(`Error saving config for webhook ${webhookId}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save webhook configuration',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        webhookId,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle preflight requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
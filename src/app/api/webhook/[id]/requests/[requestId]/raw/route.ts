@@ -0,0 +1,99 @@
+// API endpoint for downloading the original body bytes of large webhook requests
+// Supports ?offset=&length= to fetch a byte range, e.g. a single multipart part
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { getStorageManager } from '@/lib/storage/storage-manager';
+import { isValidWebhookId } from '@/lib/utils';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; requestId: string }> }
+) {
+  const { id: webhookId, requestId } = await context.params;
+
+  // Validate webhook ID format
+  if (!isValidWebhookId(webhookId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid webhook ID format'
+      },
+      { status: 400 }
+    );
+  }
+
+  // Optional byte range
+  const searchParams = new URL(request.url).searchParams;
+  const offset = searchParams.get('offset');
+  const length = searchParams.get('length');
+  let range: { offset: number; length: number } | undefined;
+
+  if (offset !== null || length !== null) {
+    range = { offset: Number(offset), length: Number(length) };
+    if (!Number.isInteger(range.offset) || range.offset < 0 || !Number.isInteger(range.length) || range.length < 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'offset and length must be non-negative integers'
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  try {
+    const cloudflareContext = getCloudflareContext();
+    const storageManager = await getStorageManager(cloudflareContext);
+
+    // Only bodies above the inline limit are stored as objects; smaller ones travel with the request data
+    const object = await storageManager.getRawBody(webhookId, requestId, range);
+
+    if (!object) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Raw body not found',
+          message: 'Bodies below the inline size limit are included in the request data instead',
+          webhookId,
+          requestId
+        },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(object.body, {
+      status: 200,
+      headers: {
+        'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="request-${requestId.split('-')[0]}.bin"`,
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  } catch (error) {
+    console.error(`Error loading raw body for request ${requestId} of webhook ${webhookId}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load raw body',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        webhookId,
+        requestId
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle preflight requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
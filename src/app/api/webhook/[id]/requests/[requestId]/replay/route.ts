@@ -0,0 +1,117 @@
+// API endpoint for replaying a captured request to any URL
+// POST { url, method?, headers?, body? }; omitted fields keep the captured values. The response is stored with the request.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { getStorageManager } from '@/lib/storage/storage-manager';
+import { loadRequestBytes } from '@/lib/deliveries';
+import { addReplay, replayRequest, validateReplayInput } from '@/lib/replay';
+import { isValidWebhookId } from '@/lib/utils';
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; requestId: string }> }
+) {
+  const { id: webhookId, requestId } = await context.params;
+
+  // Validate webhook ID format
+  if (!isValidWebhookId(webhookId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid webhook ID format'
+      },
+      { status: 400 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid JSON body'
+      },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateReplayInput(body);
+  if (!validation.isValid || !validation.value) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid replay',
+        errors: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cloudflareContext = getCloudflareContext();
+    const storageManager = await getStorageManager(cloudflareContext);
+
+    const webhookRequest = await storageManager.getRequest(webhookId, requestId);
+    if (!webhookRequest) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Request not found',
+          webhookId,
+          requestId
+        },
+        { status: 404 }
+      );
+    }
+
+    const rawBytes = await loadRequestBytes(storageManager, webhookRequest);
+    const replay = await replayRequest(webhookRequest, rawBytes, validation.value);
+    const updated = addReplay(webhookRequest, replay);
+    await storageManager.updateRequest(webhookId, updated);
+
+    console.log(`Replayed request ${requestId} from webhook ${webhookId} to ${replay.url}: ${replay.status ?? replay.error}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        webhookId,
+        requestId,
+        replay,
+        request: updated
+      },
+      {
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    );
+  } catch (error) {
+    console.error(`Error replaying request ${requestId} from webhook ${webhookId}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to replay request',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        webhookId,
+        requestId
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle preflight requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
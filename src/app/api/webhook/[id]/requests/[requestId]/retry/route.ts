@@ -0,0 +1,141 @@
+// API endpoint for manually retrying the forwarding deliveries of a captured request
+// POST with an optional { targetId } body to retry one target; otherwise every unsucceeded delivery is retried
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { getStorageManager } from '@/lib/storage/storage-manager';
+import { retryDeliveries } from '@/lib/deliveries';
+import { isValidWebhookId } from '@/lib/utils';
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; requestId: string }> }
+) {
+  const { id: webhookId, requestId } = await context.params;
+
+  // Validate webhook ID format
+  if (!isValidWebhookId(webhookId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid webhook ID format'
+      },
+      { status: 400 }
+    );
+  }
+
+  // The body is optional; an empty one retries every target
+  let targetId: string | undefined;
+  try {
+    const text = await request.text();
+    const body = text ? JSON.parse(text) : {};
+    if (body.targetId !== undefined && typeof body.targetId !== 'string') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'targetId must be a string'
+        },
+        { status: 400 }
+      );
+    }
+    targetId = body.targetId;
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid JSON body'
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cloudflareContext = getCloudflareContext();
+    const storageManager = await getStorageManager(cloudflareContext);
+
+    const webhookRequest = await storageManager.getRequest(webhookId, requestId);
+    if (!webhookRequest) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Request not found',
+          webhookId,
+          requestId
+        },
+        { status: 404 }
+      );
+    }
+
+    const webhookConfig = await storageManager.getWebhookConfig(webhookId);
+    if (!webhookConfig?.forwarding || webhookConfig.forwarding.targets.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No forwarding targets are configured',
+          webhookId,
+          requestId
+        },
+        { status: 409 }
+      );
+    }
+
+    if (targetId && !webhookConfig.forwarding.targets.some(target => target.id === targetId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Forwarding target not found',
+          webhookId,
+          requestId,
+          targetId
+        },
+        { status: 404 }
+      );
+    }
+
+    const updated = await retryDeliveries(storageManager, webhookRequest, webhookConfig.forwarding, {
+      trigger: 'manual',
+      targetId,
+    });
+
+    console.log(`Retried deliveries of request ${requestId} from webhook ${webhookId}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        webhookId,
+        requestId,
+        request: updated
+      },
+      {
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    );
+  } catch (error) {
+    console.error(`Error retrying deliveries of request ${requestId} from webhook ${webhookId}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to retry deliveries',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        webhookId,
+        requestId
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle preflight requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,331 @@
+// Modal for replaying captured requests to any URL, one edited request or a batch as captured
+
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Button } from './Layout';
+import { generateId, handleError, isValidUrl } from '@/lib/utils';
+import { getInlineRawBytes, decodeUtf8 } from '@/lib/raw-body';
+import { REPLAY_METHODS, MAX_BATCH_REPLAY, buildReplayUrl, getReplayableHeaders } from '@/lib/replay';
+import type { ReplayResult, WebhookRequest } from '@/types/webhook';
+
+interface ReplayModalProps {
+  isOpen: boolean;
+  requests: WebhookRequest[]; // A single request can be edited; several are replayed as a batch
+  defaultUrl: string;
+  onReplayed: (request: WebhookRequest) => void; // Called with each request once its replay is stored
+  onUrlChange?: (url: string) => void; // Remembers the batch base URL for the next replay
+  onClose: () => void;
+}
+
+interface BatchItem {
+  requestId: string;
+  label: string;
+  state: 'pending' | 'sending' | 'done' | 'error';
+  summary?: string;
+}
+
+const inputClassName = 'w-full px-2.5 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded shadow-sm placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const BATCH_STATE_COLORS: Record<BatchItem['state'], string> = {
+  pending: 'text-gray-500 dark:text-gray-400',
+  sending: 'text-blue-600 dark:text-blue-400',
+  done: 'text-green-600 dark:text-green-400',
+  error: 'text-red-600 dark:text-red-400',
+};
+
+// Headers as editable "Name: value" lines
+function headersToText(headers: Record<string, string>): string {
+  return Object.entries(headers).map(([key, value]) => `${key}: ${value}`).join('\n');
+}
+
+function textToHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    const name = line.slice(0, separator).trim();
+    if (name) {
+      headers[name] = line.slice(separator + 1).trim();
+    }
+  });
+  return headers;
+}
+
+// One-line result of a replay for progress lists
+function summarizeReplay(replay: ReplayResult): string {
+  return replay.error ? replay.error : `${replay.status} ${replay.statusText || ''} in ${replay.latencyMs}ms`.trim();
+}
+
+// Send one replay through the server and return the stored request
+async function postReplay(request: WebhookRequest, body: Record<string, unknown>): Promise<{ request: WebhookRequest; replay: ReplayResult }> {
+  const response = await fetch(`/api/webhook/${request.webhookId}/requests/${request.id}/replay`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json() as {
+    success: boolean;
+    request?: WebhookRequest;
+    replay?: ReplayResult;
+    error?: string;
+    errors?: string[];
+    message?: string;
+  };
+
+  if (!data.success || !data.request || !data.replay) {
+    throw new Error(data.errors?.join(', ') || data.message || data.error || 'Replay failed');
+  }
+  return { request: data.request, replay: data.replay };
+}
+
+export default function ReplayModal({ isOpen, requests, defaultUrl, onReplayed, onUrlChange, onClose }: ReplayModalProps) {
+  const isBatch = requests.length > 1;
+  const single = requests.length === 1 ? requests[0] : null;
+
+  const [url, setUrl] = useState('');
+  const [appendPath, setAppendPath] = useState(true);
+  const [method, setMethod] = useState('POST');
+  const [headersText, setHeadersText] = useState('');
+  const [body, setBody] = useState('');
+  const [originalBody, setOriginalBody] = useState<string | null>(null); // null when the body cannot be edited as text
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<string | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const stopRef = useRef(false);
+
+  // Reset the form whenever the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    setLastResult(null);
+    setSending(false);
+    setBatchItems([]);
+    stopRef.current = false;
+
+    if (single) {
+      const bytes = getInlineRawBytes(single);
+      const text = bytes ? decodeUtf8(bytes) : null;
+      setUrl(single.replays?.at(-1)?.url ?? defaultUrl);
+      setMethod(single.method);
+      setHeadersText(headersToText(getReplayableHeaders(single)));
+      setOriginalBody(text);
+      setBody(text ?? '');
+    } else {
+      setUrl(defaultUrl);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !sending) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, sending, onClose]);
+
+  const handleSingleReplay = async () => {
+    if (!single) return;
+
+    setSending(true);
+    setError(null);
+    try {
+      const result = await postReplay(single, {
+        url: url.trim(),
+        method,
+        headers: textToHeaders(headersText),
+        // The captured bytes are sent unless the text was changed
+        ...(originalBody !== null && body !== originalBody ? { body } : {}),
+      });
+      setLastResult(summarizeReplay(result.replay));
+      onReplayed(result.request);
+    } catch (err) {
+      setError(handleError(err));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Replay oldest first so the target sees the requests in their original order
+  const handleBatchReplay = async () => {
+    const ordered = [...requests].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const batchId = generateId();
+
+    setSending(true);
+    setError(null);
+    stopRef.current = false;
+    setBatchItems(ordered.map(request => ({
+      requestId: request.id,
+      label: `${request.method} #${request.id.split('-')[0]}`,
+      state: 'pending',
+    })));
+
+    const updateItem = (requestId: string, updates: Partial<BatchItem>) => {
+      setBatchItems(prev => prev.map(item => (item.requestId === requestId ? { ...item, ...updates } : item)));
+    };
+
+    for (const request of ordered) {
+      if (stopRef.current) break;
+      updateItem(request.id, { state: 'sending' });
+      try {
+        const target = appendPath ? buildReplayUrl(url.trim(), request) : url.trim();
+        const result = await postReplay(request, { url: target, batchId });
+        updateItem(request.id, { state: 'done', summary: summarizeReplay(result.replay) });
+        onReplayed(result.request);
+      } catch (err) {
+        updateItem(request.id, { state: 'error', summary: handleError(err) });
+      }
+    }
+
+    onUrlChange?.(url.trim());
+    setSending(false);
+  };
+
+  if (!isOpen || requests.length === 0) return null;
+
+  const tooMany = isBatch && requests.length > MAX_BATCH_REPLAY;
+  const canSend = isValidUrl(url.trim()) && !tooMany && !sending;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-gray-500 bg-opacity-75 dark:bg-gray-900 dark:bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-full overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+            {isBatch ? `Replay ${requests.length} Requests` : 'Replay Request'}
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={sending}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors disabled:opacity-30"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto max-h-[70vh] space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-sm text-red-700 dark:text-red-400">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {!isBatch && (
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value)}
+                className={`${inputClassName} w-28`}
+              >
+                {REPLAY_METHODS.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            )}
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="http://localhost:4000/webhooks"
+              className={`${inputClassName} font-mono flex-1`}
+            />
+          </div>
+
+          {isBatch ? (
+            <>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={appendPath}
+                  onChange={(e) => setAppendPath(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Append each request&apos;s sub-path and query string</span>
+              </label>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Requests are sent one at a time, oldest first, with their captured method, headers and body.
+                Each response is stored with its request.
+              </p>
+              {tooMany && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  At most {MAX_BATCH_REPLAY} requests can be replayed at once - narrow the filters first.
+                </p>
+              )}
+              {batchItems.length > 0 && (
+                <ul className="border border-gray-200 dark:border-gray-700 rounded-md divide-y divide-gray-200 dark:divide-gray-700 max-h-64 overflow-y-auto">
+                  {batchItems.map(item => (
+                    <li key={item.requestId} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                      <span className="font-mono text-gray-700 dark:text-gray-300">{item.label}</span>
+                      <span className={`text-xs ${BATCH_STATE_COLORS[item.state]}`}>{item.summary || item.state}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          ) : (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Headers (one &quot;Name: value&quot; per line)</label>
+                <textarea
+                  value={headersText}
+                  onChange={(e) => setHeadersText(e.target.value)}
+                  rows={6}
+                  className={`${inputClassName} font-mono text-xs`}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Body</label>
+                {originalBody === null ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    The body is binary or stored separately, so the captured bytes are sent unchanged.
+                  </p>
+                ) : (
+                  <textarea
+                    value={body}
+                    onChange={(e) => setBody(e.target.value)}
+                    rows={8}
+                    className={`${inputClassName} font-mono text-xs`}
+                  />
+                )}
+              </div>
+              {lastResult && (
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  Last replay: <span className="font-mono">{lastResult}</span> - see the Replays tab for details.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-2 px-6 py-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700">
+          {isBatch && sending ? (
+            <Button variant="outline" onClick={() => { stopRef.current = true; }}>
+              Stop
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          )}
+          <Button onClick={isBatch ? handleBatchReplay : handleSingleReplay} loading={sending} disabled={!canSend}>
+            {isBatch ? 'Replay All' : 'Send'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
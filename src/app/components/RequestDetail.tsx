@@ -2,29 +2,169 @@
 
 'use client';
 
-import { useState, useMemo } from 'react';
-import { formatDateTime, formatBytes, getContentTypeName, copyToClipboard, prettifyJson } from '@/lib/utils';
+import { useState, useMemo, useEffect } from 'react';
+import { formatDateTime, formatBytes, getContentTypeName, copyToClipboard, prettifyJson, getWebhookSubPath, handleError } from '@/lib/utils';
 import { Button } from './Layout';
 import { useRequestNotes } from '@/hooks/useRequestNotes';
 import NoteEditModal from './NoteEditModal';
-import type { WebhookRequest } from '@/types/webhook';
+import { isChaosFailure, describeChaosOutcome } from '@/lib/chaos';
+import { getInlineRawBytes, decodeUtf8, downloadRawBody } from '@/lib/raw-body';
+import { downloadMultipartPart } from '@/lib/multipart';
+import { SIGNATURE_PRESETS, VERIFICATION_STATUS_LABELS } from '@/lib/signature-verification';
+import { isForwardSuccess } from '@/lib/forwarding';
+import { DELIVERY_STATUS_LABELS } from '@/lib/deliveries';
+import type { UpstreamResult, WebhookRequest } from '@/types/webhook';
 
 interface RequestDetailProps {
   request: WebhookRequest;
   onClose: () => void;
   isInline?: boolean;
   onNoteChange?: () => void; // Callback when note is saved/deleted
+  onRequestUpdate?: (request: WebhookRequest) => void; // Callback when a retry adds delivery attempts
+  onReplay?: () => void; // Opens the replay editor for this request
 }
 
-export default function RequestDetail({ request, onClose, isInline = false, onNoteChange }: RequestDetailProps) {
-  const [activeTab, setActiveTab] = useState<'overview' | 'headers' | 'body' | 'raw'>('overview');
+// Badge colors for signature verification results
+const VERIFICATION_STATUS_COLORS: Record<string, string> = {
+  valid: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  invalid: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+  missing: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  expired: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  error: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+};
+
+// Badge colors for forwarding delivery states
+const DELIVERY_STATUS_COLORS: Record<string, string> = {
+  succeeded: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  retrying: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  failed: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+};
+
+type DetailTab = 'overview' | 'headers' | 'body' | 'parts' | 'deliveries' | 'replays' | 'raw';
+
+// Upstream body as stored, pretty-printed when it is JSON
+function formatUpstreamBody(result: UpstreamResult): string {
+  if (!result.body) return 'No body content';
+  if (result.bodyEncoding === 'base64') {
+    return `Binary body (${formatBytes(result.bodySize || 0)}, base64):\n${result.body}`;
+  }
+  return prettifyJson(result.body);
+}
+
+interface UpstreamResultDetailsProps {
+  result: UpstreamResult;
+  copyKey: string;
+  copySuccess: string | null;
+  onCopy: (text: string, label: string) => void;
+  sentHeaders?: Record<string, string>;
+}
+
+// URL, error, headers and body of a forwarded or replayed request's upstream answer
+function UpstreamResultDetails({ result, copyKey, copySuccess, onCopy, sentHeaders }: UpstreamResultDetailsProps) {
+  return (
+    <div className="mt-3 space-y-3">
+      <div className="bg-gray-50 dark:bg-gray-700 rounded-md p-3">
+        <dl className="space-y-1">
+          <div className="flex">
+            <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 mr-4 w-20 flex-shrink-0">URL:</dt>
+            <dd className="text-sm text-gray-900 dark:text-white font-mono break-all">{result.method} {result.url}</dd>
+          </div>
+          {result.error && (
+            <div className="flex">
+              <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 mr-4 w-20 flex-shrink-0">Error:</dt>
+              <dd className="text-sm text-red-600 dark:text-red-400">{result.error}</dd>
+            </div>
+          )}
+          {result.headers && Object.entries(result.headers).map(([key, value]) => (
+            <div key={key} className="flex">
+              <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 mr-4 min-w-0 flex-shrink-0">{key}:</dt>
+              <dd className="text-sm text-gray-900 dark:text-white font-mono break-all">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      {sentHeaders && (
+        <details>
+          <summary className="text-xs font-medium text-gray-700 dark:text-gray-300 cursor-pointer">
+            Sent Headers ({Object.keys(sentHeaders).length})
+          </summary>
+          <dl className="mt-2 space-y-1 bg-gray-50 dark:bg-gray-700 rounded-md p-3">
+            {Object.entries(sentHeaders).map(([key, value]) => (
+              <div key={key} className="flex">
+                <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 mr-4 min-w-0 flex-shrink-0">{key}:</dt>
+                <dd className="text-sm text-gray-900 dark:text-white font-mono break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </details>
+      )}
+
+      {!result.error && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-xs font-medium text-gray-700 dark:text-gray-300">
+              Response Body
+              {result.bodyTruncated && (
+                <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+                  (truncated, {formatBytes(result.bodySize || 0)} total)
+                </span>
+              )}
+            </h4>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onCopy(result.body || '', copyKey)}
+              disabled={!result.body}
+            >
+              {copySuccess === copyKey ? 'Copied!' : 'Copy Body'}
+            </Button>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-md p-3 max-h-64 overflow-auto">
+            <pre className="text-sm text-gray-900 dark:text-white whitespace-pre-wrap break-all">
+              {formatUpstreamBody(result)}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function RequestDetail({ request, onClose, isInline = false, onNoteChange, onRequestUpdate, onReplay }: RequestDetailProps) {
+  const [activeTab, setActiveTab] = useState<DetailTab>('overview');
   const [copySuccess, setCopySuccess] = useState<string | null>(null);
+  const [bodyView, setBodyView] = useState<'pretty' | 'original'>('pretty');
   const [isNoteModalOpen, setIsNoteModalOpen] = useState(false);
+  const [expandedAttempt, setExpandedAttempt] = useState<string | null>(null);
+  const [retryingTarget, setRetryingTarget] = useState<string | null>(null);
+  const [retryError, setRetryError] = useState<string | null>(null);
   const { saveNote, deleteNote, getNote } = useRequestNotes(request.webhookId);
   
   // Memoize the stable request ID and webhook ID to prevent unnecessary effects
   const stableRequestId = useMemo(() => request.id, [request.id]);
   const stableWebhookId = useMemo(() => request.webhookId, [request.webhookId]);
+  const parts = request.parts || [];
+
+  const deliveries = request.deliveries || [];
+  const replays = request.replays || [];
+
+  // Leave the Parts, Deliveries and Replays tabs when switching to a request without them
+  useEffect(() => {
+    if (
+      (parts.length === 0 && activeTab === 'parts') ||
+      (deliveries.length === 0 && activeTab === 'deliveries') ||
+      (replays.length === 0 && activeTab === 'replays')
+    ) {
+      setActiveTab('overview');
+    }
+  }, [parts.length, deliveries.length, replays.length, activeTab]);
+
+  // Retry state belongs to the request being shown
+  useEffect(() => {
+    setExpandedAttempt(null);
+    setRetryError(null);
+  }, [stableRequestId]);
   
   // Get current note
   const currentNoteData = getNote(stableRequestId);
@@ -85,12 +225,49 @@ export default function RequestDetail({ request, onClose, isInline = false, onNo
     return request.body;
   };
 
-  const tabs = [
+  // Original body text as received, or a note when it cannot be shown as text
+  const formatOriginalBody = () => {
+    const bytes = getInlineRawBytes(request);
+    if (!bytes) return 'Body is stored separately - download it to view the original bytes';
+    if (bytes.length === 0) return 'No body content';
+
+    const text = decodeUtf8(bytes);
+    return text === null ? `Binary body (${formatBytes(bytes.length)}) - download it to view the original bytes` : text;
+  };
+
+  // Resend to one target, or to every target that has not succeeded
+  const handleRetry = async (targetId?: string) => {
+    setRetryingTarget(targetId ?? 'all');
+    setRetryError(null);
+
+    try {
+      const response = await fetch(`/api/webhook/${stableWebhookId}/requests/${stableRequestId}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(targetId ? { targetId } : {}),
+      });
+      const data = await response.json() as { success: boolean; request?: WebhookRequest; error?: string; message?: string };
+
+      if (!data.success || !data.request) {
+        throw new Error(data.message || data.error || 'Retry failed');
+      }
+      onRequestUpdate?.(data.request);
+    } catch (error) {
+      setRetryError(handleError(error));
+    } finally {
+      setRetryingTarget(null);
+    }
+  };
+
+  const tabs: { id: DetailTab; label: string }[] = [
     { id: 'overview', label: 'Overview' },
     { id: 'headers', label: 'Headers' },
     { id: 'body', label: 'Body' },
+    ...(parts.length > 0 ? [{ id: 'parts' as const, label: `Parts (${parts.length})` }] : []),
+    ...(deliveries.length > 0 ? [{ id: 'deliveries' as const, label: `Deliveries (${deliveries.length})` }] : []),
+    ...(replays.length > 0 ? [{ id: 'replays' as const, label: `Replays (${replays.length})` }] : []),
     { id: 'raw', label: 'Raw' },
-  ] as const;
+  ];
 
   // Content component that can be used in both modes
   const ContentComponent = () => (
@@ -132,7 +309,17 @@ export default function RequestDetail({ request, onClose, isInline = false, onNo
           <div className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
-                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Request Information</h3>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Request Information</h3>
+                  {onReplay && (
+                    <button
+                      onClick={onReplay}
+                      className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                    >
+                      Replay
+                    </button>
+                  )}
+                </div>
                 <dl className="space-y-3">
                   <div>
                     <dt className="text-xs font-medium text-gray-500 dark:text-gray-400">Timestamp</dt>
@@ -145,6 +332,13 @@ export default function RequestDetail({ request, onClose, isInline = false, onNo
                       <span className="text-xs text-gray-400 dark:text-gray-500 ml-2">({request.id})</span>
                     </dd>
                   </div>
+                  <div>
+                    <dt className="text-xs font-medium text-gray-500 dark:text-gray-400">Sub-path</dt>
+                    <dd className="text-sm text-gray-900 dark:text-white font-mono break-all">
+                      {getWebhookSubPath(request.path, request.webhookId)}
+                      <span className="text-xs text-gray-400 dark:text-gray-500 ml-2">({request.path})</span>
+                    </dd>
+                  </div>
                   <div>
                     <dt className="text-xs font-medium text-gray-500 dark:text-gray-400">Content Type</dt>
                     <dd className="text-sm text-gray-900 dark:text-white">{getContentTypeName(request.contentType || 'unknown')}</dd>
@@ -153,6 +347,28 @@ export default function RequestDetail({ request, onClose, isInline = false, onNo
                     <dt className="text-xs font-medium text-gray-500 dark:text-gray-400">Body Size</dt>
                     <dd className="text-sm text-gray-900 dark:text-white">{formatBytes(request.bodySize)}</dd>
                   </div>
+                  {request.matchedRule && (
+                    <div>
+                      <dt className="text-xs font-medium text-gray-500 dark:text-gray-400">Matched Rule</dt>
+                      <dd className="text-sm text-gray-900 dark:text-white">
+                        {request.matchedRule.name}
+                        <span className="ml-2 px-1.5 py-0.5 text-xs font-mono rounded bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                          {request.matchedRule.statusCode}
+                        </span>
+                      </dd>
+                    </div>
+                  )}
+                  {request.chaos && (
+                    <div>
+                      <dt className="text-xs font-medium text-gray-500 dark:text-gray-400">Injected Behaviour</dt>
+                      <dd className={`text-sm ${isChaosFailure(request.chaos) ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                        {describeChaosOutcome(request.chaos)}
+                        {request.chaos.delayMs > 0 && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">after {request.chaos.delayMs} ms delay</span>
+                        )}
+                      </dd>
+                    </div>
+                  )}
                 </dl>
               </div>
               
@@ -171,6 +387,72 @@ export default function RequestDetail({ request, onClose, isInline = false, onNo
               </div>
             </div>
 
+            {/* Signature Verification */}
+            {request.verification && (
+              <div>
+                <div className="flex items-center space-x-2 mb-3">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Signature Verification</h3>
+                  <span className={`px-1.5 py-0.5 text-xs font-medium rounded ${VERIFICATION_STATUS_COLORS[request.verification.status]}`}>
+                    {VERIFICATION_STATUS_LABELS[request.verification.status]}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {SIGNATURE_PRESETS[request.verification.scheme]?.label || request.verification.scheme}
+                  </span>
+                </div>
+                <div className="bg-gray-50 dark:bg-gray-700 rounded-md p-4">
+                  <dl className="space-y-2">
+                    {request.verification.message && (
+                      <div className="flex">
+                        <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 mr-4 w-24 flex-shrink-0">Details:</dt>
+                        <dd className="text-sm text-gray-900 dark:text-white">{request.verification.message}</dd>
+                      </div>
+                    )}
+                    {request.verification.header && (
+                      <div className="flex">
+                        <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 mr-4 w-24 flex-shrink-0">Header:</dt>
+                        <dd className="text-sm text-gray-900 dark:text-white font-mono">{request.verification.header}</dd>
+                      </div>
+                    )}
+                    {request.verification.received && (
+                      <div className="flex">
+                        <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 mr-4 w-24 flex-shrink-0">Received:</dt>
+                        <dd className="text-sm text-gray-900 dark:text-white font-mono break-all">{request.verification.received}</dd>
+                      </div>
+                    )}
+                    {request.verification.computed && (
+                      <div className="flex">
+                        <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 mr-4 w-24 flex-shrink-0">Computed:</dt>
+                        <dd className="text-sm text-gray-900 dark:text-white font-mono break-all">{request.verification.computed}</dd>
+                      </div>
+                    )}
+                    {request.verification.algorithm && (
+                      <div className="flex">
+                        <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 mr-4 w-24 flex-shrink-0">Algorithm:</dt>
+                        <dd className="text-sm text-gray-900 dark:text-white font-mono">
+                          {request.verification.algorithm}
+                          {request.verification.keyId && ` (kid ${request.verification.keyId})`}
+                        </dd>
+                      </div>
+                    )}
+                    {request.verification.signedAt !== undefined && (
+                      <div className="flex">
+                        <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 mr-4 w-24 flex-shrink-0">Signed at:</dt>
+                        <dd className="text-sm text-gray-900 dark:text-white">{formatDateTime(new Date(request.verification.signedAt * 1000))}</dd>
+                      </div>
+                    )}
+                  </dl>
+                  {request.verification.claims && (
+                    <div className="mt-3">
+                      <div className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Claims:</div>
+                      <pre className="text-xs font-mono text-gray-900 dark:text-white bg-white dark:bg-gray-800 rounded p-2 overflow-x-auto">
+                        {JSON.stringify(request.verification.claims, null, 2)}
+                      </pre>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Query Parameters */}
             {Object.keys(request.queryParams).length > 0 && (
               <div>
@@ -278,21 +560,269 @@ export default function RequestDetail({ request, onClose, isInline = false, onNo
         {activeTab === 'body' && (
           <div>
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Request Body</h3>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleCopy(request.body, 'body')}
-                disabled={!request.body}
-              >
-                {copySuccess === 'body' ? 'Copied!' : 'Copy Body'}
-              </Button>
+              <div className="flex items-center space-x-3">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Request Body</h3>
+                <div className="flex rounded border border-gray-300 dark:border-gray-600 overflow-hidden">
+                  {(['pretty', 'original'] as const).map(view => (
+                    <button
+                      key={view}
+                      onClick={() => setBodyView(view)}
+                      className={`px-2 py-0.5 text-xs capitalize transition-colors ${
+                        bodyView === view
+                          ? 'bg-blue-500 text-white'
+                          : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {view}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => downloadRawBody(request)}
+                  disabled={request.bodySize === 0}
+                >
+                  Download Original
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCopy(request.body, 'body')}
+                  disabled={!request.body}
+                >
+                  {copySuccess === 'body' ? 'Copied!' : 'Copy Body'}
+                </Button>
+              </div>
             </div>
             <div className={`bg-gray-50 dark:bg-gray-700 rounded-md p-4 ${isInline ? 'max-h-full' : 'max-h-64'} overflow-auto`}>
               <pre className="text-sm text-gray-900 dark:text-white whitespace-pre-wrap break-all">
-                {formatBody()}
+                {bodyView === 'pretty' ? formatBody() : formatOriginalBody()}
               </pre>
             </div>
+            {request.rawBody && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 font-mono break-all">
+                SHA-256: {request.rawBody.sha256}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Parts Tab */}
+        {activeTab === 'parts' && parts.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-4">Multipart Parts</h3>
+            <div className="space-y-3">
+              {parts.map(part => (
+                <div key={part.index} className="border border-gray-200 dark:border-gray-700 rounded-md">
+                  <div className="flex items-center justify-between px-4 py-2 bg-gray-50 dark:bg-gray-700 rounded-t-md">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <span className="text-sm font-mono font-medium text-gray-900 dark:text-white truncate">{part.name || '(unnamed)'}</span>
+                      {part.filename !== undefined && (
+                        <span className="px-1.5 py-0.5 text-xs rounded bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 truncate">
+                          {part.filename || 'file'}
+                        </span>
+                      )}
+                      <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        {part.contentType || 'text/plain'} • {formatBytes(part.size)}
+                      </span>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadMultipartPart(request, part)}
+                    >
+                      Download
+                    </Button>
+                  </div>
+                  <div className="px-4 py-3 space-y-2">
+                    {part.value !== undefined ? (
+                      <pre className="text-sm text-gray-900 dark:text-white whitespace-pre-wrap break-all max-h-40 overflow-auto">
+                        {part.value || '(empty)'}
+                      </pre>
+                    ) : (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Binary or file content - download to inspect.</p>
+                    )}
+                    <details>
+                      <summary className="text-xs text-gray-500 dark:text-gray-400 cursor-pointer">
+                        Part headers ({Object.keys(part.headers).length})
+                      </summary>
+                      <dl className="mt-2 space-y-1">
+                        {Object.entries(part.headers).map(([key, value]) => (
+                          <div key={key} className="flex">
+                            <dt className="text-xs font-medium text-gray-500 dark:text-gray-400 mr-2">{key}:</dt>
+                            <dd className="text-xs text-gray-900 dark:text-white font-mono break-all">{value}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    </details>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Deliveries Tab */}
+        {activeTab === 'deliveries' && deliveries.length > 0 && (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Forwarding Deliveries</h3>
+              {deliveries.some(delivery => delivery.status !== 'succeeded') && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRetry()}
+                  loading={retryingTarget === 'all'}
+                  disabled={retryingTarget !== null}
+                >
+                  Retry Failed
+                </Button>
+              )}
+            </div>
+
+            {retryError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{retryError}</p>
+            )}
+
+            {deliveries.map((delivery) => (
+              <div key={delivery.targetId} className="border border-gray-200 dark:border-gray-600 rounded-md">
+                <div className="flex items-center justify-between px-4 py-3 bg-gray-50 dark:bg-gray-700 rounded-t-md">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{delivery.targetName}</span>
+                    <span className={`px-1.5 py-0.5 text-xs font-medium rounded ${DELIVERY_STATUS_COLORS[delivery.status]}`}>
+                      {DELIVERY_STATUS_LABELS[delivery.status]}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {delivery.attempts.length} attempt{delivery.attempts.length === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRetry(delivery.targetId)}
+                    loading={retryingTarget === delivery.targetId}
+                    disabled={retryingTarget !== null}
+                  >
+                    Retry
+                  </Button>
+                </div>
+
+                {delivery.status === 'retrying' && delivery.nextAttemptAt && (
+                  <p className="px-4 pt-3 text-xs text-gray-500 dark:text-gray-400">
+                    Next attempt at {formatDateTime(new Date(delivery.nextAttemptAt))}
+                  </p>
+                )}
+
+                <ul className="divide-y divide-gray-200 dark:divide-gray-600">
+                  {delivery.attempts.map((attempt, index) => {
+                    const attemptKey = `${delivery.targetId}:${index}`;
+                    const isExpanded = expandedAttempt === attemptKey;
+                    return (
+                      <li key={attemptKey} className="px-4 py-2">
+                        <button
+                          onClick={() => setExpandedAttempt(isExpanded ? null : attemptKey)}
+                          className="w-full flex items-center justify-between text-left"
+                        >
+                          <span className="flex items-center space-x-2 text-sm">
+                            <span className="font-mono text-gray-500 dark:text-gray-400">#{attempt.attempt}</span>
+                            <span className={`px-1.5 py-0.5 text-xs font-medium rounded ${
+                              isForwardSuccess(attempt)
+                                ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                                : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                            }`}>
+                              {attempt.error ? 'Failed' : `${attempt.status} ${attempt.statusText || ''}`.trim()}
+                            </span>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">{attempt.trigger}</span>
+                          </span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatDateTime(new Date(attempt.startedAt))} · {attempt.latencyMs}ms
+                          </span>
+                        </button>
+
+                        {isExpanded && (
+                          <UpstreamResultDetails
+                            result={attempt}
+                            copyKey={attemptKey}
+                            copySuccess={copySuccess}
+                            onCopy={handleCopy}
+                          />
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Replays Tab */}
+        {activeTab === 'replays' && replays.length > 0 && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Replays</h3>
+              {onReplay && (
+                <Button variant="outline" size="sm" onClick={onReplay}>
+                  Replay Again
+                </Button>
+              )}
+            </div>
+
+            <ul className="border border-gray-200 dark:border-gray-600 rounded-md divide-y divide-gray-200 dark:divide-gray-600">
+              {[...replays].reverse().map((replay, index, newestFirst) => {
+                const replayKey = `replay:${replay.id}`;
+                const isExpanded = expandedAttempt === replayKey;
+                // Compare with the replay sent just before this one
+                const previous = newestFirst[index + 1];
+                const changed = previous && !previous.error && !replay.error &&
+                  (previous.status !== replay.status || previous.body !== replay.body);
+                return (
+                  <li key={replay.id} className="px-4 py-2">
+                    <button
+                      onClick={() => setExpandedAttempt(isExpanded ? null : replayKey)}
+                      className="w-full flex items-center justify-between text-left"
+                    >
+                      <span className="flex items-center space-x-2 text-sm min-w-0">
+                        <span className={`px-1.5 py-0.5 text-xs font-medium rounded ${
+                          isForwardSuccess(replay)
+                            ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                            : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                        }`}>
+                          {replay.error ? 'Failed' : replay.status}
+                        </span>
+                        <span className="font-mono text-xs text-gray-700 dark:text-gray-300 truncate">{replay.method} {replay.url}</span>
+                        {replay.edited && (
+                          <span className="text-xs text-purple-600 dark:text-purple-400">edited</span>
+                        )}
+                        {replay.batchId && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400" title={`Batch ${replay.batchId}`}>batch</span>
+                        )}
+                        {changed && (
+                          <span className="text-xs text-orange-600 dark:text-orange-400" title="Status or body differs from the previous replay">changed</span>
+                        )}
+                      </span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0 ml-2">
+                        {formatDateTime(new Date(replay.startedAt))} · {replay.latencyMs}ms
+                        {replay.bodySize !== undefined && ` · ${formatBytes(replay.bodySize)}`}
+                      </span>
+                    </button>
+
+                    {isExpanded && (
+                      <UpstreamResultDetails
+                        result={replay}
+                        copyKey={replayKey}
+                        copySuccess={copySuccess}
+                        onCopy={handleCopy}
+                        sentHeaders={replay.requestHeaders}
+                      />
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
           </div>
         )}
 
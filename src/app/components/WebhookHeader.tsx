@@ -16,14 +16,26 @@ import {
   copyToClipboard
 } from '@/lib/utils';
 
+import { MAX_RETENTION_HOURS, MAX_REQUESTS_OVERRIDE, hasRetentionOverrides } from '@/lib/retention';
+
 import { ThemeToggle } from './ThemeProvider';
 import type { WebhookConfig, ExportData, WebhookRequest } from '@/types/webhook';
 
 interface WebhookHeaderProps {
   currentWebhookId?: string;
+  serverConfig?: WebhookConfig | null; // Server-side config of the current webhook, enables retention settings
+  savingConfig?: boolean;
+  configError?: string | null;
+  onSaveConfig?: (updates: Partial<WebhookConfig>) => Promise<boolean>;
 }
 
-export default function WebhookHeader({ currentWebhookId }: WebhookHeaderProps) {
+export default function WebhookHeader({
+  currentWebhookId,
+  serverConfig,
+  savingConfig = false,
+  configError,
+  onSaveConfig,
+}: WebhookHeaderProps) {
   const router = useRouter();
   const { webhooks, createWebhook, deleteWebhook, updateWebhook } = useWebhooks();
   const { 
@@ -42,6 +54,9 @@ export default function WebhookHeader({ currentWebhookId }: WebhookHeaderProps)
   const [importStatus, setImportStatus] = useState<string>('');
   const [editingWebhookId, setEditingWebhookId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState<string>('');
+  const [showRetentionSettings, setShowRetentionSettings] = useState(false);
+  const [retentionHours, setRetentionHours] = useState<string>('');
+  const [maxRequests, setMaxRequests] = useState<string>('');
   
   const webhookMenuRef = useRef<HTMLDivElement>(null);
   const dataMenuRef = useRef<HTMLDivElement>(null);
@@ -68,6 +83,7 @@ export default function WebhookHeader({ currentWebhookId }: WebhookHeaderProps)
           setEditingWebhookId(null);
           setEditingName('');
         }
+        setShowRetentionSettings(false);
       }
       if (dataMenuRef.current && !dataMenuRef.current.contains(event.target as Node)) {
         setShowDataMenu(false);
@@ -156,6 +172,40 @@ export default function WebhookHeader({ currentWebhookId }: WebhookHeaderProps)
     }
   };
 
+  // Open retention settings with the current overrides, empty fields use the server defaults
+  const handleOpenRetention = () => {
+    setRetentionHours(serverConfig?.retention?.retentionHours?.toString() ?? '');
+    setMaxRequests(serverConfig?.retention?.maxRequests?.toString() ?? '');
+    setShowRetentionSettings(true);
+  };
+
+  // Save retention overrides to the server
+  const handleSaveRetention = async () => {
+    if (!onSaveConfig) return;
+
+    const success = await onSaveConfig({
+      retention: {
+        retentionHours: retentionHours.trim() === '' ? undefined : Number(retentionHours),
+        maxRequests: maxRequests.trim() === '' ? undefined : Number(maxRequests),
+      },
+    });
+    if (success) {
+      setShowRetentionSettings(false);
+    }
+  };
+
+  // Short summary of the current overrides for the menu item
+  const describeRetention = (): string => {
+    const retention = serverConfig?.retention;
+    if (!retention || !hasRetentionOverrides(retention)) {
+      return 'Server defaults';
+    }
+    return [
+      retention.retentionHours !== undefined ? `${retention.retentionHours}h` : null,
+      retention.maxRequests !== undefined ? `${retention.maxRequests} max` : null,
+    ].filter(Boolean).join(' · ');
+  };
+
   // Delete webhook
   const handleDeleteWebhook = async (webhookId: string, webhookName: string, event: React.MouseEvent) => {
     event.preventDefault();
@@ -440,6 +490,74 @@ export default function WebhookHeader({ currentWebhookId }: WebhookHeaderProps)
                         </span>
                       </div>
                     </button>
+
+                    {/* Retention and capacity overrides for the current webhook */}
+                    {currentWebhookId && onSaveConfig && (
+                      showRetentionSettings ? (
+                        <div className="px-3 py-2.5 bg-blue-50 dark:bg-blue-900/20 border-l-2 border-blue-500">
+                          <div className="space-y-2.5">
+                            <p className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                              Retention &amp; Capacity
+                            </p>
+                            <label className="block text-xs text-gray-600 dark:text-gray-400">
+                              Keep requests for (hours)
+                              <input
+                                type="number"
+                                min={1}
+                                max={MAX_RETENTION_HOURS}
+                                value={retentionHours}
+                                onChange={(e) => setRetentionHours(e.target.value)}
+                                className="mt-1 w-full px-2.5 py-1.5 text-sm border border-blue-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                                placeholder="Server default"
+                              />
+                            </label>
+                            <label className="block text-xs text-gray-600 dark:text-gray-400">
+                              Maximum stored requests
+                              <input
+                                type="number"
+                                min={1}
+                                max={MAX_REQUESTS_OVERRIDE}
+                                value={maxRequests}
+                                onChange={(e) => setMaxRequests(e.target.value)}
+                                className="mt-1 w-full px-2.5 py-1.5 text-sm border border-blue-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                                placeholder="Server default"
+                              />
+                            </label>
+                            {configError && (
+                              <p className="text-xs text-red-600 dark:text-red-400">{configError}</p>
+                            )}
+                            <div className="flex justify-end space-x-1.5">
+                              <button
+                                onClick={() => setShowRetentionSettings(false)}
+                                className="px-2.5 py-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={handleSaveRetention}
+                                disabled={savingConfig}
+                                className="px-2.5 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                {savingConfig ? 'Saving...' : 'Save'}
+                              </button>
+                            </div>
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={handleOpenRetention}
+                          className="w-full flex items-center justify-between px-3 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors border-l-2 border-transparent hover:border-gray-200 dark:hover:border-gray-600"
+                        >
+                          <div className="flex items-center space-x-2.5">
+                            <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                            <span>Retention &amp; Capacity</span>
+                          </div>
+                          <span className="text-xs text-gray-400 dark:text-gray-500">{describeRetention()}</span>
+                        </button>
+                      )
+                    )}
                     
                     {webhooks.length > 0 && (
                       <>
@@ -0,0 +1,1151 @@
+// Modal for editing server-side webhook settings such as the mock response
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from './Layout';
+import { generateId } from '@/lib/utils';
+import { RULE_CONDITION_FIELDS, RULE_CONDITION_OPERATORS } from '@/lib/response-rules';
+import { MAX_CHAOS_DELAY_MS } from '@/lib/chaos';
+import {
+  MAX_FORWARD_TIMEOUT_MS,
+  MAX_FORWARD_TARGETS,
+  MAX_RETRY_ATTEMPTS,
+  FORWARDED_REQUEST_ID_HEADER,
+  createForwardTarget,
+} from '@/lib/forwarding';
+import {
+  SIGNATURE_PRESETS,
+  SIGNATURE_SCHEMES,
+  HMAC_ALGORITHMS,
+  HMAC_ENCODINGS,
+  HMAC_PAYLOADS,
+  getSignatureHeader,
+  usesSignedTimestamp,
+} from '@/lib/signature-verification';
+import {
+  DEFAULT_MOCK_RESPONSE,
+  DEFAULT_CHAOS_CONFIG,
+  DEFAULT_VERIFICATION_CONFIG,
+  DEFAULT_HMAC_VERIFIER_CONFIG,
+  DEFAULT_JWT_VERIFIER_CONFIG,
+  DEFAULT_FORWARDING_CONFIG,
+} from '@/types/webhook';
+import type {
+  WebhookConfig,
+  MockResponseConfig,
+  ChaosConfig,
+  ChaosDelayMode,
+  ForwardingConfig,
+  ForwardTarget,
+  RetryPolicy,
+  HmacAlgorithm,
+  HmacEncoding,
+  HmacPayload,
+  HmacVerifierConfig,
+  JwtVerifierConfig,
+  SignatureScheme,
+  SignatureVerificationConfig,
+  ResponseRule,
+  RuleCondition,
+  RuleConditionField,
+  RuleConditionOperator,
+} from '@/types/webhook';
+
+interface WebhookSettingsModalProps {
+  isOpen: boolean;
+  config: WebhookConfig | null;
+  saving?: boolean;
+  error?: string | null;
+  onSave: (updates: Partial<WebhookConfig>) => Promise<boolean>;
+  onClose: () => void;
+}
+
+interface HeaderRow {
+  name: string;
+  value: string;
+}
+
+const COMMON_CONTENT_TYPES = [
+  'application/json',
+  'text/plain',
+  'text/html',
+  'application/xml',
+  'application/x-www-form-urlencoded',
+];
+
+const TEMPLATE_PLACEHOLDERS = [
+  '{{request.id}}',
+  '{{request.method}}',
+  '{{request.path}}',
+  '{{request.timestamp}}',
+  '{{query.name}}',
+  '{{headers.name}}',
+  '{{body.field}}',
+  '{{now}}',
+];
+
+const FIELD_LABELS: Record<RuleConditionField, string> = {
+  method: 'Method',
+  path: 'Path',
+  header: 'Header',
+  query: 'Query param',
+  body: 'Body',
+  jsonPath: 'Body JSON path',
+};
+
+const OPERATOR_LABELS: Record<RuleConditionOperator, string> = {
+  equals: 'equals',
+  notEquals: 'does not equal',
+  contains: 'contains',
+  startsWith: 'starts with',
+  regex: 'matches regex',
+  exists: 'exists',
+};
+
+const KEY_PLACEHOLDERS: Partial<Record<RuleConditionField, string>> = {
+  header: 'x-github-event',
+  query: 'name',
+  jsonPath: '$.type',
+};
+
+const inputClassName = 'w-full px-2.5 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded shadow-sm placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const smallButtonClassName = 'p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
+// Convert a header map into editable rows
+function headersToRows(headers: Record<string, string>): HeaderRow[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+// Convert editable rows back into a header map, skipping empty names
+function rowsToHeaders(rows: HeaderRow[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  rows.forEach(row => {
+    if (row.name.trim()) {
+      headers[row.name.trim()] = row.value;
+    }
+  });
+  return headers;
+}
+
+// Create an empty rule with a single condition
+function createRule(index: number): ResponseRule {
+  return {
+    id: generateId(),
+    name: `Rule ${index + 1}`,
+    enabled: true,
+    conditions: [{ field: 'method', operator: 'equals', value: 'POST' }],
+    response: { ...DEFAULT_MOCK_RESPONSE, enabled: true },
+  };
+}
+
+interface MockResponseEditorProps {
+  value: MockResponseConfig;
+  onChange: (value: MockResponseConfig) => void;
+  idPrefix: string;
+}
+
+// Editor for status code, content type, headers and body template
+function MockResponseEditor({ value, onChange, idPrefix }: MockResponseEditorProps) {
+  const [headerRows, setHeaderRows] = useState<HeaderRow[]>(() => headersToRows(value.headers));
+
+  const updateHeaderRows = (rows: HeaderRow[]) => {
+    setHeaderRows(rows);
+    onChange({ ...value, headers: rowsToHeaders(rows) });
+  };
+
+  const updateHeaderRow = (index: number, updates: Partial<HeaderRow>) => {
+    updateHeaderRows(headerRows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Status Code</label>
+          <input
+            type="number"
+            min={200}
+            max={599}
+            value={value.statusCode}
+            onChange={(e) => onChange({ ...value, statusCode: Number(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Content Type</label>
+          <input
+            type="text"
+            list={`${idPrefix}-content-types`}
+            value={value.contentType}
+            onChange={(e) => onChange({ ...value, contentType: e.target.value })}
+            className={inputClassName}
+          />
+          <datalist id={`${idPrefix}-content-types`}>
+            {COMMON_CONTENT_TYPES.map(type => (
+              <option key={type} value={type} />
+            ))}
+          </datalist>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400">Headers</label>
+          <button
+            onClick={() => updateHeaderRows([...headerRows, { name: '', value: '' }])}
+            className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+          >
+            Add Header
+          </button>
+        </div>
+        {headerRows.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">No custom headers.</p>
+        ) : (
+          <div className="space-y-2">
+            {headerRows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  placeholder="Header name"
+                  value={row.name}
+                  onChange={(e) => updateHeaderRow(index, { name: e.target.value })}
+                  className={`${inputClassName} font-mono`}
+                />
+                <input
+                  type="text"
+                  placeholder="Value"
+                  value={row.value}
+                  onChange={(e) => updateHeaderRow(index, { value: e.target.value })}
+                  className={`${inputClassName} font-mono`}
+                />
+                <button
+                  onClick={() => updateHeaderRows(headerRows.filter((_, i) => i !== index))}
+                  className="p-1 rounded text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                  title="Remove header"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Body Template</label>
+        <textarea
+          value={value.body}
+          onChange={(e) => onChange({ ...value, body: e.target.value })}
+          rows={6}
+          className={`${inputClassName} font-mono`}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface RuleEditorProps {
+  rule: ResponseRule;
+  index: number;
+  total: number;
+  onChange: (rule: ResponseRule) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+// Editor for a single conditional rule
+function RuleEditor({ rule, index, total, onChange, onMove, onRemove }: RuleEditorProps) {
+  const updateCondition = (conditionIndex: number, updates: Partial<RuleCondition>) => {
+    onChange({
+      ...rule,
+      conditions: rule.conditions.map((condition, i) => (i === conditionIndex ? { ...condition, ...updates } : condition)),
+    });
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-md">
+      {/* Rule header */}
+      <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <span className="text-xs font-medium text-gray-500 dark:text-gray-400 w-5">{index + 1}.</span>
+        <input
+          type="checkbox"
+          checked={rule.enabled}
+          onChange={(e) => onChange({ ...rule, enabled: e.target.checked })}
+          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          title="Enable rule"
+        />
+        <input
+          type="text"
+          value={rule.name}
+          onChange={(e) => onChange({ ...rule, name: e.target.value })}
+          className={`${inputClassName} flex-1`}
+          placeholder="Rule name"
+        />
+        <button onClick={() => onMove(-1)} disabled={index === 0} className={smallButtonClassName} title="Move up">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+          </svg>
+        </button>
+        <button onClick={() => onMove(1)} disabled={index === total - 1} className={smallButtonClassName} title="Move down">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        <button
+          onClick={onRemove}
+          className="p-1 rounded text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+          title="Delete rule"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+        </button>
+      </div>
+
+      <div className={`p-3 space-y-4 ${rule.enabled ? '' : 'opacity-50'}`}>
+        {/* Conditions */}
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400">When all conditions match</label>
+            <button
+              onClick={() => onChange({ ...rule, conditions: [...rule.conditions, { field: 'header', key: '', operator: 'equals', value: '' }] })}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+            >
+              Add Condition
+            </button>
+          </div>
+          {rule.conditions.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No conditions - this rule matches every request.</p>
+          ) : (
+            <div className="space-y-2">
+              {rule.conditions.map((condition, conditionIndex) => (
+                <div key={conditionIndex} className="flex flex-wrap sm:flex-nowrap items-center gap-2">
+                  <select
+                    value={condition.field}
+                    onChange={(e) => updateCondition(conditionIndex, { field: e.target.value as RuleConditionField })}
+                    className={`${inputClassName} sm:w-36`}
+                  >
+                    {RULE_CONDITION_FIELDS.map(field => (
+                      <option key={field} value={field}>{FIELD_LABELS[field]}</option>
+                    ))}
+                  </select>
+                  {KEY_PLACEHOLDERS[condition.field] && (
+                    <input
+                      type="text"
+                      value={condition.key || ''}
+                      onChange={(e) => updateCondition(conditionIndex, { key: e.target.value })}
+                      placeholder={KEY_PLACEHOLDERS[condition.field]}
+                      className={`${inputClassName} font-mono sm:w-36`}
+                    />
+                  )}
+                  <select
+                    value={condition.operator}
+                    onChange={(e) => updateCondition(conditionIndex, { operator: e.target.value as RuleConditionOperator })}
+                    className={`${inputClassName} sm:w-36`}
+                  >
+                    {RULE_CONDITION_OPERATORS.map(operator => (
+                      <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>
+                    ))}
+                  </select>
+                  {condition.operator !== 'exists' && (
+                    <input
+                      type="text"
+                      value={condition.value || ''}
+                      onChange={(e) => updateCondition(conditionIndex, { value: e.target.value })}
+                      placeholder="Value"
+                      className={`${inputClassName} font-mono flex-1`}
+                    />
+                  )}
+                  <button
+                    onClick={() => onChange({ ...rule, conditions: rule.conditions.filter((_, i) => i !== conditionIndex) })}
+                    className="p-1 rounded text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                    title="Remove condition"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Response */}
+        <div>
+          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">Respond with</label>
+          <MockResponseEditor
+            value={rule.response}
+            onChange={(response) => onChange({ ...rule, response })}
+            idPrefix={`rule-${rule.id}`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ForwardTargetEditorProps {
+  target: ForwardTarget;
+  index: number;
+  onChange: (target: ForwardTarget) => void;
+  onRemove: () => void;
+}
+
+// Editor for a single forwarding target and its retry policy
+function ForwardTargetEditor({ target, index, onChange, onRemove }: ForwardTargetEditorProps) {
+  const updateRetry = (updates: Partial<RetryPolicy>) => {
+    onChange({ ...target, retry: { ...target.retry, ...updates } });
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-md">
+      {/* Target header */}
+      <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <span className="text-xs font-medium text-gray-500 dark:text-gray-400 w-5">{index + 1}.</span>
+        <input
+          type="checkbox"
+          checked={target.enabled}
+          onChange={(e) => onChange({ ...target, enabled: e.target.checked })}
+          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          title="Enable target"
+        />
+        <input
+          type="text"
+          value={target.name}
+          onChange={(e) => onChange({ ...target, name: e.target.value })}
+          className={`${inputClassName} flex-1`}
+          placeholder="Target name"
+        />
+        <button
+          onClick={onRemove}
+          className="p-1 rounded text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+          title="Delete target"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+        </button>
+      </div>
+
+      <div className={`p-3 space-y-4 ${target.enabled ? '' : 'opacity-50'}`}>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="sm:col-span-2">
+            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Target URL</label>
+            <input
+              type="url"
+              value={target.url}
+              onChange={(e) => onChange({ ...target, url: e.target.value })}
+              placeholder="http://localhost:4000/webhooks"
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Timeout (ms)</label>
+            <input
+              type="number"
+              min={100}
+              max={MAX_FORWARD_TIMEOUT_MS}
+              step={100}
+              value={target.timeoutMs}
+              onChange={(e) => onChange({ ...target, timeoutMs: Number(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Max attempts</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_RETRY_ATTEMPTS}
+              value={target.retry.maxAttempts}
+              onChange={(e) => updateRetry({ maxAttempts: Number(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">First retry after (ms)</label>
+            <input
+              type="number"
+              min={0}
+              step={500}
+              value={target.retry.initialDelayMs}
+              onChange={(e) => updateRetry({ initialDelayMs: Number(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Backoff multiplier</label>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              step={0.5}
+              value={target.retry.backoffMultiplier}
+              onChange={(e) => updateRetry({ backoffMultiplier: Number(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Max delay (ms)</label>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={target.retry.maxDelayMs}
+              onChange={(e) => updateRetry({ maxDelayMs: Number(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function WebhookSettingsModal({ isOpen, config, saving = false, error, onSave, onClose }: WebhookSettingsModalProps) {
+  const [activeTab, setActiveTab] = useState<'response' | 'rules' | 'chaos' | 'signature' | 'forwarding'>('response');
+  const [response, setResponse] = useState<MockResponseConfig>(DEFAULT_MOCK_RESPONSE);
+  const [rules, setRules] = useState<ResponseRule[]>([]);
+  const [chaos, setChaos] = useState<ChaosConfig>(DEFAULT_CHAOS_CONFIG);
+  const [verification, setVerification] = useState<SignatureVerificationConfig>(DEFAULT_VERIFICATION_CONFIG);
+  const [forwarding, setForwarding] = useState<ForwardingConfig>(DEFAULT_FORWARDING_CONFIG);
+  const [showSecret, setShowSecret] = useState(false);
+  const [draftVersion, setDraftVersion] = useState(0); // Remounts editors when the draft is reset
+
+  // Reset the draft whenever the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setResponse(config?.response || DEFAULT_MOCK_RESPONSE);
+      setRules(config?.rules || []);
+      setChaos(config?.chaos || DEFAULT_CHAOS_CONFIG);
+      setVerification(config?.verification || DEFAULT_VERIFICATION_CONFIG);
+      setForwarding(config?.forwarding || DEFAULT_FORWARDING_CONFIG);
+      setShowSecret(false);
+      setDraftVersion(prev => prev + 1);
+    }
+  }, [isOpen, config]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const updateChaos = (updates: Partial<ChaosConfig>) => {
+    setChaos(prev => ({ ...prev, ...updates }));
+  };
+
+  const updateVerification = (updates: Partial<SignatureVerificationConfig>) => {
+    setVerification(prev => ({ ...prev, ...updates }));
+  };
+
+  const updateHmac = (updates: Partial<HmacVerifierConfig>) => {
+    setVerification(prev => ({ ...prev, hmac: { ...(prev.hmac ?? DEFAULT_HMAC_VERIFIER_CONFIG), ...updates } }));
+  };
+
+  const updateJwt = (updates: Partial<JwtVerifierConfig>) => {
+    setVerification(prev => ({ ...prev, jwt: { ...(prev.jwt ?? DEFAULT_JWT_VERIFIER_CONFIG), ...updates } }));
+  };
+
+  const updateForwarding = (updates: Partial<ForwardingConfig>) => {
+    setForwarding(prev => ({ ...prev, ...updates }));
+  };
+
+  const updateTarget = (index: number, target: ForwardTarget) => {
+    setForwarding(prev => ({ ...prev, targets: prev.targets.map((existing, i) => (i === index ? target : existing)) }));
+  };
+
+  const hmac = verification.hmac ?? DEFAULT_HMAC_VERIFIER_CONFIG;
+  const jwt = verification.jwt ?? DEFAULT_JWT_VERIFIER_CONFIG;
+
+  const updateRule = (index: number, rule: ResponseRule) => {
+    setRules(prev => prev.map((existing, i) => (i === index ? rule : existing)));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    setRules(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const success = await onSave({ response, rules, chaos, verification, forwarding });
+    if (success) {
+      onClose();
+    }
+  };
+
+  const tabs = [
+    { id: 'response', label: 'Response' },
+    { id: 'rules', label: `Rules${rules.length > 0 ? ` (${rules.length})` : ''}` },
+    { id: 'chaos', label: 'Chaos' },
+    { id: 'signature', label: 'Signature' },
+    { id: 'forwarding', label: 'Forwarding' },
+  ] as const;
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-gray-500 bg-opacity-75 dark:bg-gray-900 dark:bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full max-h-full overflow-hidden flex flex-col">
+        {/* Tabs */}
+        <div className="border-b border-gray-200 dark:border-gray-700 relative">
+          <button
+            onClick={onClose}
+            className="absolute top-3 right-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors z-10"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+          <nav className="flex">
+            {tabs.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                  activeTab === tab.id
+                    ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto max-h-[70vh] space-y-5">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-sm text-red-700 dark:text-red-400">
+              {error}
+            </div>
+          )}
+
+          {/* Response Tab */}
+          {activeTab === 'response' && (
+            <>
+              <label className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={response.enabled}
+                  onChange={(e) => setResponse(prev => ({ ...prev, enabled: e.target.checked }))}
+                  className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white">Return custom response</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    Used when no rule matches. When disabled, the receiver answers with the default JSON debug envelope.
+                  </span>
+                </span>
+              </label>
+
+              <div className={response.enabled ? '' : 'opacity-50 pointer-events-none'}>
+                <MockResponseEditor
+                  key={`response-${draftVersion}`}
+                  value={response}
+                  onChange={setResponse}
+                  idPrefix="mock-response"
+                />
+              </div>
+            </>
+          )}
+
+          {/* Rules Tab */}
+          {activeTab === 'rules' && (
+            <>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Rules are evaluated top to bottom; the first enabled rule whose conditions all match answers the request.
+              </p>
+
+              {rules.length === 0 ? (
+                <div className="bg-gray-50 dark:bg-gray-700 rounded-md p-4">
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No rules defined.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {rules.map((rule, index) => (
+                    <RuleEditor
+                      key={`${rule.id}-${draftVersion}`}
+                      rule={rule}
+                      index={index}
+                      total={rules.length}
+                      onChange={(updated) => updateRule(index, updated)}
+                      onMove={(direction) => moveRule(index, direction)}
+                      onRemove={() => setRules(prev => prev.filter((_, i) => i !== index))}
+                    />
+                  ))}
+                </div>
+              )}
+
+              <Button variant="outline" size="sm" onClick={() => setRules(prev => [...prev, createRule(prev.length)])}>
+                Add Rule
+              </Button>
+            </>
+          )}
+
+          {/* Chaos Tab */}
+          {activeTab === 'chaos' && (
+            <>
+              <label className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={chaos.enabled}
+                  onChange={(e) => updateChaos({ enabled: e.target.checked })}
+                  className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white">Inject latency and failures</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    Requests are still captured; the injected behaviour is recorded on each request.
+                  </span>
+                </span>
+              </label>
+
+              <div className={`space-y-5 ${chaos.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                {/* Delay */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Delay</label>
+                    <select
+                      value={chaos.delayMode}
+                      onChange={(e) => updateChaos({ delayMode: e.target.value as ChaosDelayMode })}
+                      className={inputClassName}
+                    >
+                      <option value="none">No delay</option>
+                      <option value="fixed">Fixed</option>
+                      <option value="random">Random range</option>
+                    </select>
+                  </div>
+                  {chaos.delayMode === 'fixed' && (
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Delay (ms)</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={MAX_CHAOS_DELAY_MS}
+                        value={chaos.delayMs}
+                        onChange={(e) => updateChaos({ delayMs: Number(e.target.value) })}
+                        className={inputClassName}
+                      />
+                    </div>
+                  )}
+                  {chaos.delayMode === 'random' && (
+                    <>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Min (ms)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={MAX_CHAOS_DELAY_MS}
+                          value={chaos.delayMinMs}
+                          onChange={(e) => updateChaos({ delayMinMs: Number(e.target.value) })}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Max (ms)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={MAX_CHAOS_DELAY_MS}
+                          value={chaos.delayMaxMs}
+                          onChange={(e) => updateChaos({ delayMaxMs: Number(e.target.value) })}
+                          className={inputClassName}
+                        />
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                {/* Random failures */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">5xx responses (%)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={chaos.errorRate}
+                      onChange={(e) => updateChaos({ errorRate: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Failure status code</label>
+                    <input
+                      type="number"
+                      min={500}
+                      max={599}
+                      value={chaos.errorStatusCode}
+                      onChange={(e) => updateChaos({ errorStatusCode: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Dropped connections (%)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={chaos.dropRate}
+                      onChange={(e) => updateChaos({ dropRate: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                {/* Fail first N attempts */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Fail first N attempts</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={chaos.failFirstN}
+                      onChange={(e) => updateChaos({ failFirstN: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="sm:col-span-2">
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Attempt key header (optional)</label>
+                    <input
+                      type="text"
+                      value={chaos.attemptKeyHeader || ''}
+                      onChange={(e) => updateChaos({ attemptKeyHeader: e.target.value })}
+                      placeholder="x-github-delivery"
+                      className={`${inputClassName} font-mono`}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Attempts are grouped by the attempt key header so each delivery fails N times before succeeding.
+                  Without a header, the first N requests after saving fail. Saving changed settings restarts the count.
+                </p>
+              </div>
+            </>
+          )}
+
+          {/* Signature Tab */}
+          {activeTab === 'signature' && (
+            <>
+              <label className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={verification.enabled}
+                  onChange={(e) => updateVerification({ enabled: e.target.checked })}
+                  className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white">Verify request signatures</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    The signature is recomputed from the raw body and the result is stored with each request.
+                  </span>
+                </span>
+              </label>
+
+              <div className={`space-y-4 ${verification.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Provider</label>
+                    <select
+                      value={verification.scheme}
+                      onChange={(e) => updateVerification({ scheme: e.target.value as SignatureScheme })}
+                      className={inputClassName}
+                    >
+                      {SIGNATURE_SCHEMES.map(scheme => (
+                        <option key={scheme} value={scheme}>{SIGNATURE_PRESETS[scheme].label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="sm:col-span-2">
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                      {SIGNATURE_PRESETS[verification.scheme].secretLabel}
+                    </label>
+                    <div className="flex items-center gap-2">
+                      {verification.scheme === 'jwt' ? (
+                        <textarea
+                          value={verification.secret}
+                          onChange={(e) => updateVerification({ secret: e.target.value })}
+                          rows={4}
+                          spellCheck={false}
+                          placeholder={'-----BEGIN PUBLIC KEY-----\n...\n-----END PUBLIC KEY-----'}
+                          className={`${inputClassName} font-mono text-xs`}
+                        />
+                      ) : (
+                        <>
+                          <input
+                            type={showSecret ? 'text' : 'password'}
+                            value={verification.secret}
+                            onChange={(e) => updateVerification({ secret: e.target.value })}
+                            autoComplete="off"
+                            className={`${inputClassName} font-mono`}
+                          />
+                          <button
+                            onClick={() => setShowSecret(prev => !prev)}
+                            className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 whitespace-nowrap"
+                          >
+                            {showSecret ? 'Hide' : 'Show'}
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                {verification.scheme === 'hmac' && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Signature header</label>
+                      <input
+                        type="text"
+                        value={hmac.header}
+                        onChange={(e) => updateHmac({ header: e.target.value })}
+                        className={`${inputClassName} font-mono`}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Algorithm</label>
+                      <select
+                        value={hmac.algorithm}
+                        onChange={(e) => updateHmac({ algorithm: e.target.value as HmacAlgorithm })}
+                        className={inputClassName}
+                      >
+                        {HMAC_ALGORITHMS.map(algorithm => (
+                          <option key={algorithm} value={algorithm}>{algorithm.toUpperCase()}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Encoding</label>
+                      <select
+                        value={hmac.encoding}
+                        onChange={(e) => updateHmac({ encoding: e.target.value as HmacEncoding })}
+                        className={inputClassName}
+                      >
+                        {HMAC_ENCODINGS.map(encoding => (
+                          <option key={encoding} value={encoding}>{encoding}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Signed payload</label>
+                      <select
+                        value={hmac.payload}
+                        onChange={(e) => updateHmac({ payload: e.target.value as HmacPayload })}
+                        className={inputClassName}
+                      >
+                        {HMAC_PAYLOADS.map(payload => (
+                          <option key={payload.value} value={payload.value}>{payload.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Signature prefix</label>
+                      <input
+                        type="text"
+                        value={hmac.prefix}
+                        onChange={(e) => updateHmac({ prefix: e.target.value })}
+                        placeholder="e.g. sha256="
+                        className={`${inputClassName} font-mono`}
+                      />
+                    </div>
+                    {hmac.payload !== 'body' && (
+                      <div>
+                        <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Separator</label>
+                        <input
+                          type="text"
+                          value={hmac.separator}
+                          onChange={(e) => updateHmac({ separator: e.target.value })}
+                          className={`${inputClassName} font-mono`}
+                        />
+                      </div>
+                    )}
+                    {hmac.payload === 'timestamp-body' && (
+                      <div>
+                        <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Timestamp header</label>
+                        <input
+                          type="text"
+                          value={hmac.timestampHeader}
+                          onChange={(e) => updateHmac({ timestampHeader: e.target.value })}
+                          className={`${inputClassName} font-mono`}
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {verification.scheme === 'jwt' && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Token header</label>
+                      <input
+                        type="text"
+                        value={jwt.header}
+                        onChange={(e) => updateJwt({ header: e.target.value })}
+                        className={`${inputClassName} font-mono`}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Expected issuer</label>
+                      <input
+                        type="text"
+                        value={jwt.issuer}
+                        onChange={(e) => updateJwt({ issuer: e.target.value })}
+                        placeholder="Any"
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Expected audience</label>
+                      <input
+                        type="text"
+                        value={jwt.audience}
+                        onChange={(e) => updateJwt({ audience: e.target.value })}
+                        placeholder="Any"
+                        className={inputClassName}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {usesSignedTimestamp(verification) && (
+                  <div className="sm:w-1/3">
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                      {verification.scheme === 'jwt' ? 'Clock skew for exp/nbf (seconds)' : 'Timestamp tolerance (seconds)'}
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={verification.toleranceSeconds}
+                      onChange={(e) => updateVerification({ toleranceSeconds: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                )}
+
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Signature header: <code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">{getSignatureHeader(verification) || '-'}</code>
+                  {verification.scheme === 'twilio' && ' - Twilio signs the full webhook URL, so configure Twilio with this exact URL.'}
+                  {verification.scheme === 'hmac' && hmac.payload === 'url-body' && ' - The URL is the full webhook URL including the query string.'}
+                  {verification.scheme === 'jwt' && ' - A "Bearer " prefix is stripped. JWKS keys are matched by the token\'s kid.'}
+                </p>
+              </div>
+            </>
+          )}
+
+          {/* Forwarding Tab */}
+          {activeTab === 'forwarding' && (
+            <>
+              <label className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={forwarding.enabled}
+                  onChange={(e) => updateForwarding({ enabled: e.target.checked })}
+                  className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white">Forward requests to upstream targets</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    Each captured request is relayed to every enabled target with the same method, headers, raw body, sub-path and query string.
+                    Every attempt is stored with the request; failed deliveries are retried with exponential backoff.
+                  </span>
+                </span>
+              </label>
+
+              <div className={`space-y-4 ${forwarding.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                {forwarding.targets.length === 0 ? (
+                  <div className="bg-gray-50 dark:bg-gray-700 rounded-md p-4">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No targets defined.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {forwarding.targets.map((target, index) => (
+                      <ForwardTargetEditor
+                        key={`${target.id}-${draftVersion}`}
+                        target={target}
+                        index={index}
+                        onChange={(updated) => updateTarget(index, updated)}
+                        onRemove={() => updateForwarding({ targets: forwarding.targets.filter((_, i) => i !== index) })}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateForwarding({ targets: [...forwarding.targets, createForwardTarget(forwarding.targets.length)] })}
+                  disabled={forwarding.targets.length >= MAX_FORWARD_TARGETS}
+                >
+                  Add Target
+                </Button>
+
+                <label className="flex items-start space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={forwarding.returnResponse}
+                    onChange={(e) => updateForwarding({ returnResponse: e.target.checked })}
+                    className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="block text-sm text-gray-900 dark:text-white">Return the first enabled target&apos;s response to the sender</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      Replaces the mock response. Matching rules and injected chaos still take precedence; unreachable upstreams answer 502.
+                    </span>
+                  </span>
+                </label>
+
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Requests that fail through chaos testing are not forwarded. Forwarded requests carry
+                  {' '}<code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">{FORWARDED_REQUEST_ID_HEADER}</code> and
+                  {' '}<code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">x-forwarded-*</code> headers.
+                </p>
+              </div>
+            </>
+          )}
+
+          {(activeTab === 'response' || activeTab === 'rules') && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Body template placeholders: {TEMPLATE_PLACEHOLDERS.map(placeholder => (
+                <code key={placeholder} className="mr-1.5 bg-gray-100 dark:bg-gray-700 px-1 rounded">{placeholder}</code>
+              ))}
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-2 px-6 py-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={saving}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
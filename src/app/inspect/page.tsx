@@ -320,7 +320,20 @@ const getServerCacheMetrics = async (): Promise<MetricGroup[]> => {
             totalOperations: number;
             uptime: number;
           };
+          capacity?: {
+            maxRequestsPerWebhook: number;
+            policy: 'evict' | 'reject';
+            evictedRequests: number;
+          };
         };
+        lastCleanup?: {
+          startedAt: string;
+          durationMs: number;
+          deletedCount: number;
+          retentionHours: number;
+          cron?: string;
+          error?: string;
+        } | null;
       };
       storageError?: string;
       server?: {
@@ -393,6 +406,22 @@ const getServerCacheMetrics = async (): Promise<MetricGroup[]> => {
           });
         });
       }
+      
+      // Scheduled retention cleanup
+      const lastCleanup = data.storage.lastCleanup;
+      storageMetrics.push(
+        { key: 'Last Cleanup', value: lastCleanup ? new Date(lastCleanup.startedAt).toLocaleString() : 'Never' }
+      );
+      if (lastCleanup) {
+        storageMetrics.push(
+          {
+            key: 'Last Cleanup Result',
+            value: lastCleanup.error
+              ? `❌ ${lastCleanup.error}`
+              : `Removed ${lastCleanup.deletedCount} requests older than ${lastCleanup.retentionHours}h in ${lastCleanup.durationMs}ms`
+          }
+        );
+      }
     } else if (data.storageError) {
       storageMetrics.push({
         key: 'Storage Error',
@@ -431,7 +460,11 @@ const getServerCacheMetrics = async (): Promise<MetricGroup[]> => {
           { key: 'Average Request Size', value: formatBytes(dist.storageUsage.averageRequestSize) },
           { key: 'Largest Request Size', value: formatBytes(dist.storageUsage.largestRequestSize) },
           { key: 'Total Operations', value: dist.performance.totalOperations.toString() },
-          { key: 'Provider Uptime', value: `${Math.floor(dist.performance.uptime / 1000)}s` }
+          { key: 'Provider Uptime', value: `${Math.floor(dist.performance.uptime / 1000)}s` },
+          ...(dist.capacity ? [
+            { key: 'Max Requests per Webhook', value: `${dist.capacity.maxRequestsPerWebhook} (${dist.capacity.policy})` },
+            { key: 'Evicted Requests', value: dist.capacity.evictedRequests.toString() }
+          ] : [])
         ]
       });
 
@@ -2,20 +2,29 @@
 
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
 import { useParams } from 'next/navigation';
 import { useWebhooks } from '@/hooks/useLocalStorage';
-import { usePolling } from '@/hooks/usePolling';
+import { useRealtime, CONNECTION_TYPE_LABELS } from '@/hooks/useRealtime';
 import { useRequestNotes } from '@/hooks/useRequestNotes';
+import { useWebhookConfig } from '@/hooks/useWebhookConfig';
+import { useRequestSearch } from '@/hooks/useRequestSearch';
 import { PageContainer, Card } from '@/app/components/Layout';
 import WebhookHeader from '@/app/components/WebhookHeader';
 import Footer from '@/app/components/Footer';
 import RequestDetail from '@/app/components/RequestDetail';
 import D1ErrorAlert from '@/app/components/D1ErrorAlert';
-import { formatRelativeTime, getMethodColor, formatBytes, isValidWebhookId, generateWebhookUrl, getBaseUrl } from '@/lib/utils';
+import WebhookSettingsModal from '@/app/components/WebhookSettingsModal';
+import ReplayModal from '@/app/components/ReplayModal';
+import { isChaosFailure, describeChaosOutcome } from '@/lib/chaos';
+import { VERIFICATION_STATUS_LABELS } from '@/lib/signature-verification';
+import { DELIVERY_STATUS_LABELS, getOverallDeliveryStatus } from '@/lib/deliveries';
+import { formatRelativeTime, getMethodColor, formatBytes, isValidWebhookId, generateWebhookUrl, getBaseUrl, getWebhookSubPath } from '@/lib/utils';
+import { matchesRequestFilter } from '@/lib/request-filter';
 import { StorageError } from '@/types/storage';
 import { getWebhookStorage } from '@/lib/browser-storage';
-import type { WebhookRequest, WebhookConfig } from '@/types/webhook';
+import type { WebhookRequest, WebhookConfig, VerificationStatus, RequestFilter, HttpMethod } from '@/types/webhook';
+import { HTTP_METHODS } from '@/types/webhook';
 
 export default function WebhookMonitorPage() {
   const params = useParams();
@@ -30,9 +39,20 @@ export default function WebhookMonitorPage() {
   const [selectedRequest, setSelectedRequest] = useState<WebhookRequest | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [methodFilter, setMethodFilter] = useState<string>('');
+  const [pathFilter, setPathFilter] = useState<string>('');
+  const [verificationFilter, setVerificationFilter] = useState<string>('');
   const [pollingInterval, setPollingInterval] = useState(10000); // Default to 10 seconds
   const [localRequests, setLocalRequests] = useState<WebhookRequest[]>([]);
   const [noteUpdateTrigger, setNoteUpdateTrigger] = useState(0); // Trigger to force re-render when notes change
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [replayRequests, setReplayRequests] = useState<WebhookRequest[]>([]); // Requests shown in the replay modal
+  const [lastReplayUrl, setLastReplayUrl] = useState('');
+  const {
+    config: serverConfig,
+    saving: isSavingConfig,
+    error: configError,
+    saveConfig,
+  } = useWebhookConfig(webhookId);
 
   // Delete request handler
   const handleDeleteRequest = useCallback(async (requestId: string, event?: React.MouseEvent) => {
@@ -140,7 +160,7 @@ export default function WebhookMonitorPage() {
     setIsCreatingWebhook(false);
   }, [webhookId, getWebhook, createWebhook]);
 
-  // Memoize callback functions to prevent usePolling re-initialization
+  // Memoize callback functions to prevent useRealtime re-initialization
   const handleNewRequest = useCallback((request: WebhookRequest) => {
     // Show notification for new requests
     setLastNotification(new Date());
@@ -163,12 +183,27 @@ export default function WebhookMonitorPage() {
     console.error('Polling error:', error);
   }, []);
 
-  // Polling for new requests with configurable interval
+  // The method and path filters go to the server, so older matching requests are polled too
+  const serverFilter = useMemo<RequestFilter | undefined>(() => {
+    if (!methodFilter && !pathFilter) return undefined;
+    return {
+      ...(methodFilter ? { method: [methodFilter as HttpMethod] } : {}),
+      ...(pathFilter ? { pathPrefix: pathFilter } : {}),
+    };
+  }, [methodFilter, pathFilter]);
+
+  // Full-text search over every stored request, not only the polled ones
+  const { results: searchResults, searching, error: searchError } = useRequestSearch(webhookId, searchTerm);
+
+  // Live updates over Server-Sent Events, falling back to polling with configurable interval
   const {
     requests,
     loading,
     error,
     isConnected,
+    connectionType,
+    lastPing,
+    reconnectAttempts,
     requestCount,
     pausePolling,
     resumePolling,
@@ -177,13 +212,25 @@ export default function WebhookMonitorPage() {
     currentInterval,
     countdown,
     refreshNow,
+    loadOlder,
+    hasOlder,
+    loadingOlder,
     storageError,
-  } = usePolling(webhookId, {
+  } = useRealtime(webhookId, {
     interval: pollingInterval,
     onNewRequest: handleNewRequest,
     onError: handlePollingError,
+    filter: serverFilter,
   });
 
+  // Fetch older matching requests as soon as the server-side filter changes
+  useEffect(() => {
+    if (serverFilter) {
+      refreshNow();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [serverFilter]);
+
   // Sync polling requests with local state
   useEffect(() => {
     setLocalRequests(requests);
@@ -203,6 +250,26 @@ export default function WebhookMonitorPage() {
     }
   }, [localRequests, selectedRequest]);
 
+  // Keep the open request in sync when polling brings new delivery attempts or replays
+  useEffect(() => {
+    if (!selectedRequest) return;
+    const latest = localRequests.find(request => request.id === selectedRequest.id);
+    if (latest && (
+      JSON.stringify(latest.deliveries ?? null) !== JSON.stringify(selectedRequest.deliveries ?? null) ||
+      JSON.stringify(latest.replays ?? null) !== JSON.stringify(selectedRequest.replays ?? null)
+    )) {
+      setSelectedRequest(latest);
+    }
+  }, [localRequests, selectedRequest]);
+
+  // Store a request updated by a manual delivery retry or a replay
+  const handleRequestUpdate = useCallback((updated: WebhookRequest) => {
+    const storage = getWebhookStorage();
+    storage.updateRequest(updated);
+    setLocalRequests(prev => prev.map(request => request.id === updated.id ? updated : request));
+    setSelectedRequest(prev => (prev?.id === updated.id ? updated : prev));
+  }, []);
+
   // Handle interval change
   const handleIntervalChange = (newInterval: number) => {
     setPollingInterval(newInterval);
@@ -214,21 +281,37 @@ export default function WebhookMonitorPage() {
     setNoteUpdateTrigger(prev => prev + 1);
   }, []);
 
-  // Filter requests based on search and method
-  const filteredRequests = localRequests.filter((request: WebhookRequest) => {
-    const matchesSearch = searchTerm === '' || 
-      request.body.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      request.path.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      request.ip?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      request.userAgent?.toLowerCase().includes(searchTerm.toLowerCase());
+  // While searching, the list shows the server's ranked matches instead of the polled requests
+  const isSearchActive = searchTerm.trim() !== '';
+  const listedRequests = isSearchActive ? searchResults.map(result => result.request) : localRequests;
+  const searchSnippets = new Map(searchResults.map(result => [result.request.id, result.snippet]));
+
+  // Search results and requests kept in the browser from before the filter changed are checked against the same
+  // filter the server applies; signature status is only filtered here
+  const filteredRequests = listedRequests.filter((request: WebhookRequest) => {
+    const matchesServerFilter = !serverFilter || matchesRequestFilter(request, serverFilter);
     
-    const matchesMethod = methodFilter === '' || request.method === methodFilter;
+    const matchesVerification = verificationFilter === '' ||
+      (verificationFilter === 'unverified' ? !request.verification : request.verification?.status === verificationFilter);
     
-    return matchesSearch && matchesMethod;
+    return matchesServerFilter && matchesVerification;
   });
 
-  // Get unique methods for filter
-  const uniqueMethods = [...new Set(localRequests.map((r: WebhookRequest) => r.method))];
+  // Infinite scroll: fetch older requests when the list is scrolled near its end
+  const handleListScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const list = event.currentTarget;
+    if (!isSearchActive && hasOlder && !loadingOlder && list.scrollHeight - list.scrollTop - list.clientHeight < 200) {
+      loadOlder();
+    }
+  };
+
+  // Get verification statuses present, for filter
+  const uniqueVerificationStatuses = [...new Set(localRequests.map((r: WebhookRequest) => r.verification?.status).filter(Boolean))] as VerificationStatus[];
+
+  // Get unique sub-paths for the prefix filter; `/` would match every request, the same as "All paths"
+  const uniqueSubPaths = [...new Set(localRequests.map((r: WebhookRequest) => getWebhookSubPath(r.path, webhookId)))]
+    .filter(subPath => subPath !== '/')
+    .sort();
 
   // Show error for invalid webhook ID
   if (webhookIdError) {
@@ -335,6 +418,10 @@ export default function WebhookMonitorPage() {
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col transition-colors duration-200">
       <WebhookHeader 
         currentWebhookId={webhookId} 
+        serverConfig={serverConfig}
+        savingConfig={isSavingConfig}
+        configError={configError}
+        onSaveConfig={saveConfig}
       />
       
       <main className="flex-1">
@@ -379,10 +466,49 @@ export default function WebhookMonitorPage() {
                     }`}>
                       {isConnected ? 'Live' : 'Offline'}
                     </span>
+                    {isConnected && (
+                      <span
+                        className="text-xs text-gray-500 dark:text-gray-400"
+                        title={lastPing ? `Last heartbeat ${lastPing.toLocaleTimeString()}` : 'Active transport'}
+                      >
+                        {CONNECTION_TYPE_LABELS[connectionType]}
+                      </span>
+                    )}
+                    {reconnectAttempts > 0 && (
+                      <span className="text-xs text-yellow-600 dark:text-yellow-400">
+                        Reconnecting ({reconnectAttempts})
+                      </span>
+                    )}
                     <span className="text-xs text-gray-500 dark:text-gray-400">
                       ({requestCount})
                     </span>
                   </div>
+                  {/* Server-side settings */}
+                  <button
+                    onClick={() => setIsSettingsOpen(true)}
+                    className="flex items-center space-x-1 p-1 rounded text-gray-400 dark:text-gray-500 hover:text-blue-500 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+                    title="Webhook settings"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                    </svg>
+                    {serverConfig?.response?.enabled && (
+                      <span className="text-xs font-medium text-purple-600 dark:text-purple-400" title="Custom response enabled">
+                        {serverConfig.response.statusCode}
+                      </span>
+                    )}
+                    {serverConfig?.chaos?.enabled && (
+                      <span className="text-xs font-medium text-red-600 dark:text-red-400" title="Chaos testing enabled">
+                        chaos
+                      </span>
+                    )}
+                    {serverConfig?.forwarding?.enabled && (
+                      <span className="text-xs font-medium text-blue-600 dark:text-blue-400" title={`Forwarding to ${serverConfig.forwarding.targets.filter(target => target.enabled).map(target => target.url).join(', ')}`}>
+                        relay
+                      </span>
+                    )}
+                  </button>
                 </div>
 
                 {/* Auto-refresh controls - unified height across devices */}
@@ -471,7 +597,7 @@ export default function WebhookMonitorPage() {
               <div className="flex gap-2">
                 <input
                   type="text"
-                  placeholder="Search..."
+                  placeholder="Search bodies and headers..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="flex-1 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded shadow-sm placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
@@ -483,22 +609,65 @@ export default function WebhookMonitorPage() {
                   className="w-20 px-1.5 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                 >
                   <option value="">All</option>
-                  {uniqueMethods.map((method: string) => (
+                  {HTTP_METHODS.map((method: string) => (
                     <option key={method} value={method}>{method}</option>
                   ))}
                 </select>
                 
+                {(uniqueSubPaths.length > 0 || pathFilter) && (
+                  <select
+                    value={pathFilter}
+                    onChange={(e) => setPathFilter(e.target.value)}
+                    className="w-28 px-1.5 py-1 text-xs font-mono border border-gray-300 dark:border-gray-600 rounded shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    title="Filter by sub-path prefix"
+                  >
+                    <option value="">All paths</option>
+                    {uniqueSubPaths.map((subPath: string) => (
+                      <option key={subPath} value={subPath}>{subPath}</option>
+                    ))}
+                  </select>
+                )}
+                
+                {uniqueVerificationStatuses.length > 0 && (
+                  <select
+                    value={verificationFilter}
+                    onChange={(e) => setVerificationFilter(e.target.value)}
+                    className="w-24 px-1.5 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    title="Filter by signature verification"
+                  >
+                    <option value="">Any sig.</option>
+                    {uniqueVerificationStatuses.map((status: VerificationStatus) => (
+                      <option key={status} value={status}>{VERIFICATION_STATUS_LABELS[status]}</option>
+                    ))}
+                    <option value="unverified">Not checked</option>
+                  </select>
+                )}
+                
                 {/* Show filtered count inline */}
-                {(searchTerm || methodFilter) && (
+                {isSearchActive ? (
+                  <span className="text-xs text-gray-500 dark:text-gray-400 self-center whitespace-nowrap">
+                    {searching ? 'Searching…' : `${filteredRequests.length} found`}
+                  </span>
+                ) : (methodFilter || pathFilter || verificationFilter) && (
                   <span className="text-xs text-gray-500 dark:text-gray-400 self-center whitespace-nowrap">
                     {filteredRequests.length}/{localRequests.length}
                   </span>
                 )}
+                
+                {filteredRequests.length > 1 && (
+                  <button
+                    onClick={() => setReplayRequests(filteredRequests)}
+                    className="px-1.5 py-1 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 whitespace-nowrap"
+                    title="Replay every request in the list"
+                  >
+                    Replay {filteredRequests.length}
+                  </button>
+                )}
               </div>
             </div>
 
             {/* Request List */}
-            <div className="flex-1 overflow-y-auto">
+            <div className="flex-1 overflow-y-auto" onScroll={handleListScroll}>
               {loading && localRequests.length === 0 ? (
                 <div className="p-4 text-center">
                   <div className="animate-pulse">
@@ -513,12 +682,14 @@ export default function WebhookMonitorPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
                   </svg>
                   <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-1">
-                    {localRequests.length === 0 ? 'No requests yet' : 'No matching requests'}
+                    {localRequests.length === 0 && !isSearchActive ? 'No requests yet' : 'No matching requests'}
                   </h3>
                   <p className="text-xs text-gray-500 dark:text-gray-400">
-                    {localRequests.length === 0 
-                      ? `Send HTTP requests to your webhook URL to see them here.`
-                      : 'Try adjusting your search or filter criteria.'
+                    {isSearchActive && searchError
+                      ? searchError
+                      : localRequests.length === 0 && !isSearchActive
+                        ? `Send HTTP requests to your webhook URL to see them here.`
+                        : 'Try adjusting your search or filter criteria.'
                     }
                   </p>
                 </div>
@@ -546,6 +717,46 @@ export default function WebhookMonitorPage() {
                           <span className="text-xs font-mono text-gray-600 dark:text-gray-400 truncate">
                             #{request.id.split('-')[0]}
                           </span>
+                          {isChaosFailure(request.chaos) && (
+                            <span
+                              className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+                              title={describeChaosOutcome(request.chaos!)}
+                            >
+                              {request.chaos!.action === 'drop' ? 'drop' : request.chaos!.statusCode}
+                            </span>
+                          )}
+                          {request.verification && (
+                            <span
+                              className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium ${
+                                request.verification.status === 'valid'
+                                  ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                                  : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                              }`}
+                              title={`Signature ${VERIFICATION_STATUS_LABELS[request.verification.status].toLowerCase()}`}
+                            >
+                              {request.verification.status === 'valid' ? 'sig ✓' : 'sig ✗'}
+                            </span>
+                          )}
+                          {request.deliveries && request.deliveries.length > 0 && (() => {
+                            const deliveryStatus = getOverallDeliveryStatus(request.deliveries);
+                            const delivered = request.deliveries.filter(delivery => delivery.status === 'succeeded').length;
+                            return (
+                              <span
+                                className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium ${
+                                  deliveryStatus === 'succeeded'
+                                    ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                                    : deliveryStatus === 'retrying'
+                                      ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300'
+                                      : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                                }`}
+                                title={request.deliveries
+                                  .map(delivery => `${delivery.targetName}: ${DELIVERY_STATUS_LABELS[delivery.status]} after ${delivery.attempts.length} attempt(s)`)
+                                  .join('\n')}
+                              >
+                                → {delivered}/{request.deliveries.length}
+                              </span>
+                            );
+                          })()}
                           {(() => {
                             // Force re-evaluation by reading directly from localStorage
                             let currentNote = '';
@@ -598,13 +809,47 @@ export default function WebhookMonitorPage() {
                           </span>
                           <span>•</span>
                           <span>{formatBytes(request.bodySize)}</span>
+                          {getWebhookSubPath(request.path, webhookId) !== '/' && (
+                            <>
+                              <span>•</span>
+                              <span className="font-mono truncate" title={request.path}>
+                                {getWebhookSubPath(request.path, webhookId)}
+                              </span>
+                            </>
+                          )}
                         </div>
                         <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">
                           {formatRelativeTime(request.timestamp)}
                         </span>
                       </div>
+
+                      {/* Search snippet with the matched terms highlighted */}
+                      {searchSnippets.has(request.id) && (
+                        <p className="mt-1 text-xs font-mono text-gray-600 dark:text-gray-400 line-clamp-2 break-all">
+                          {searchSnippets.get(request.id)!.map((part, partIndex) => part.match ? (
+                            <mark key={partIndex} className="bg-yellow-200 dark:bg-yellow-700/60 text-gray-900 dark:text-white rounded-sm">
+                              {part.text}
+                            </mark>
+                          ) : (
+                            <span key={partIndex}>{part.text}</span>
+                          ))}
+                        </p>
+                      )}
                     </div>
                   ))}
+
+                  {/* Older pages load on scroll; the button covers lists too short to scroll */}
+                  {!isSearchActive && (hasOlder || loadingOlder) && (
+                    <div className="px-3 py-2 text-center">
+                      <button
+                        onClick={loadOlder}
+                        disabled={loadingOlder}
+                        className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 disabled:opacity-50"
+                      >
+                        {loadingOlder ? 'Loading older requests…' : 'Load older'}
+                      </button>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -618,6 +863,8 @@ export default function WebhookMonitorPage() {
                 onClose={() => setSelectedRequest(null)}
                 isInline={true}
                 onNoteChange={handleNoteChange}
+                onRequestUpdate={handleRequestUpdate}
+                onReplay={() => setReplayRequests([selectedRequest])}
               />
             ) : (
               <div className="flex-1 flex items-center justify-center p-8">
@@ -639,6 +886,24 @@ export default function WebhookMonitorPage() {
       </PageContainer>
     </main>
     <Footer />
+
+    <WebhookSettingsModal
+      isOpen={isSettingsOpen}
+      config={serverConfig}
+      saving={isSavingConfig}
+      error={configError}
+      onSave={saveConfig}
+      onClose={() => setIsSettingsOpen(false)}
+    />
+
+    <ReplayModal
+      isOpen={replayRequests.length > 0}
+      requests={replayRequests}
+      defaultUrl={lastReplayUrl || serverConfig?.forwarding?.targets.find(target => target.enabled)?.url || ''}
+      onReplayed={handleRequestUpdate}
+      onUrlChange={setLastReplayUrl}
+      onClose={() => setReplayRequests([])}
+    />
     </div>
   );
 } 
\ No newline at end of file
@@ -2,18 +2,23 @@
 
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { getWebhookStorage } from '@/lib/browser-storage';
-import type { WebhookRequest } from '@/types/webhook';
+import { buildRequestFilterQuery } from '@/lib/request-filter';
+import { isOlderThan } from '@/lib/request-changes';
+import type { RequestCursor } from '@/lib/request-cursor';
+import type { WebhookRequest, RequestFilter, RequestRemoval } from '@/types/webhook';
 
-interface PollingOptions {
+export interface PollingOptions {
   interval?: number; // Polling interval in milliseconds
   onNewRequest?: (request: WebhookRequest) => void;
   onError?: (error: string) => void;
   enabled?: boolean;
+  filter?: RequestFilter; // Sent to the server so older matching requests are fetched too
+  suspended?: boolean; // Another transport delivers changes; automatic polls stop but refreshNow still works
 }
 
-interface PollingState {
+export interface PollingState {
   requests: WebhookRequest[];
   loading: boolean;
   error: string | null;
@@ -21,6 +26,10 @@ interface PollingState {
   isConnected: boolean;
   requestCount: number;
   refreshNow: () => void;
+  loadOlder: () => void; // Append the next page of older requests
+  hasOlder: boolean;
+  loadingOlder: boolean;
+  applyChanges: (changes: RequestChangeSet) => void; // Merge changes delivered by another transport
   pausePolling: () => void;
   resumePolling: () => void;
   isPaused: boolean;
@@ -39,6 +48,11 @@ interface PollingResponse {
   webhookId: string;
   count: number;
   requests: WebhookRequest[];
+  nextCursor?: string | null;
+  nextSince?: string; // Pass back as `since` to receive only later changes
+  deletedIds?: string[]; // Changes responses only, like `oldest` and `truncated`
+  oldest?: RequestCursor | null;
+  truncated?: boolean;
   timestamp: string;
   error?: string;
   rateLimited?: boolean;
@@ -51,6 +65,61 @@ interface PollingResponse {
   };
 }
 
+// Part of a changes response: requests captured or updated, and the ones removed
+export type RequestChangeSet = { requests?: WebhookRequest[] } & Partial<RequestRemoval>;
+
+// Stored requests only change after capture when delivery retries or replays are added
+function hasServerChanges(existing: WebhookRequest, request: WebhookRequest): boolean {
+  return JSON.stringify(existing.deliveries ?? null) !== JSON.stringify(request.deliveries ?? null) ||
+    JSON.stringify(existing.replays ?? null) !== JSON.stringify(request.replays ?? null);
+}
+
+// Save new server requests and updated deliveries and replays to localStorage, returning the new ones
+function saveServerRequests(webhookId: string, serverRequests: WebhookRequest[]): WebhookRequest[] {
+  const storage = getWebhookStorage();
+  const localRequests = storage.getRequests(webhookId);
+  const added: WebhookRequest[] = [];
+
+  try {
+    serverRequests.forEach(request => {
+      const existing = localRequests.find(local => local.id === request.id);
+      if (!existing) {
+        storage.saveRequest(request);
+        added.push(request);
+      } else if (hasServerChanges(existing, request)) {
+        storage.updateRequest({ ...existing, deliveries: request.deliveries, replays: request.replays });
+      }
+    });
+  } catch (error) {
+    console.error('Failed to save requests to localStorage:', error);
+  }
+
+  return added;
+}
+
+// Whether a request is gone from the server according to a change set; without `oldest` only deletions count
+function isRemoved(request: WebhookRequest, changes: RequestChangeSet): boolean {
+  return Boolean(changes.deletedIds?.includes(request.id)) ||
+    (changes.oldest !== undefined && isOlderThan(request, changes.oldest));
+}
+
+// Merge a change set into localStorage, returning the requests it added
+function mergeChanges(webhookId: string, changes: RequestChangeSet): WebhookRequest[] {
+  const added = saveServerRequests(webhookId, changes.requests || []);
+  const storage = getWebhookStorage();
+  storage.getRequests(webhookId)
+    .filter(request => isRemoved(request, changes))
+    .forEach(request => storage.deleteRequest(webhookId, request.id));
+  return added;
+}
+
+function getPollUrl(webhookId: string, filterQuery: string, since: string | null): string {
+  if (!since) {
+    return `/api/poll/${webhookId}${filterQuery}`;
+  }
+  return `/api/poll/${webhookId}${filterQuery}${filterQuery ? '&' : '?'}since=${encodeURIComponent(since)}`;
+}
+
 export function usePolling(
   webhookId: string,
   options: PollingOptions = {}
@@ -60,6 +129,8 @@ export function usePolling(
     onNewRequest,
     onError,
     enabled = true,
+    filter,
+    suspended = false,
   } = options;
 
   const [requests, setRequests] = useState<WebhookRequest[]>([]);
@@ -76,6 +147,17 @@ export function usePolling(
     details: any;
   } | undefined>(undefined);
   
+  // Pages older than the polled one live only in memory, since browser storage keeps just the latest requests.
+  // The next older page starts at the last loaded page's cursor, or at the latest poll's before any were loaded.
+  const [olderRequests, setOlderRequests] = useState<WebhookRequest[]>([]);
+  const [olderCursor, setOlderCursor] = useState<string | null | undefined>(undefined);
+  const [latestNextCursor, setLatestNextCursor] = useState<string | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  
+  // After the first full poll, polls ask only for changes since the previous response, with its ETag
+  const sinceRef = useRef<string | null>(null);
+  const etagRef = useRef<string | null>(null);
+  
   // Refs to manage polling state
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const countdownRef = useRef<NodeJS.Timeout | null>(null);
@@ -87,6 +169,19 @@ export function usePolling(
   const onNewRequestRef = useRef(onNewRequest);
   const onErrorRef = useRef(onError);
   
+  // The filter is read when each poll starts, so changing it does not restart polling
+  const filterQuery = filter ? buildRequestFilterQuery(filter) : '';
+  const filterQueryRef = useRef('');
+  filterQueryRef.current = filterQuery;
+
+  // Older pages and change tracking belong to the previous webhook or filter
+  useEffect(() => {
+    setOlderRequests([]);
+    setOlderCursor(undefined);
+    sinceRef.current = null;
+    etagRef.current = null;
+  }, [webhookId, filterQuery]);
+  
   // Update refs when callbacks change
   useEffect(() => {
     onNewRequestRef.current = onNewRequest;
@@ -121,9 +216,14 @@ export function usePolling(
     setLoading(true);
     
     try {
-      const response = await fetch(`/api/poll/${webhookId}`);
+      const response = await fetch(`/api/poll/${webhookId}${filterQueryRef.current}`);
       const data = await response.json() as PollingResponse;
       
+      if (data.rateLimited) {
+        console.log(`[Polling] Manual refresh rate limited, retry after ${data.retryAfter}s`);
+        return;
+      }
+      
       if (data.success) {
         const serverRequests = data.requests || [];
         
@@ -135,16 +235,18 @@ export function usePolling(
         const storage = getWebhookStorage();
         const localRequests = storage.getRequests(webhookId);
         
-        // Save only new server requests to localStorage
+        // Save new server requests and updated deliveries and replays to localStorage
         if (serverRequests.length > 0) {
           try {
             serverRequests.forEach(request => {
-              const exists = localRequests.some(existing => existing.id === request.id);
-              if (!exists) {
+              const existing = localRequests.find(local => local.id === request.id);
+              if (!existing) {
                 storage.saveRequest(request);
+              } else if (hasServerChanges(existing, request)) {
+                storage.updateRequest({ ...existing, deliveries: request.deliveries, replays: request.replays });
               }
             });
-            console.log(`Manual refresh: Processed ${serverRequests.length} server requests, saved new ones to localStorage`);
+            console.log(`Manual refresh: Processed ${serverRequests.length} server requests, saved new and updated ones to localStorage`);
           } catch (error) {
             console.error('Failed to save requests to localStorage:', error);
           }
@@ -154,15 +256,14 @@ export function usePolling(
         const updatedLocalRequests = storage.getRequests(webhookId);
         
         setRequests(updatedLocalRequests);
+        setLatestNextCursor(data.nextCursor ?? null);
+        sinceRef.current = data.nextSince ?? null;
+        etagRef.current = null;
         setLastUpdate(new Date());
         setIsConnected(true);
         
-        if (data.rateLimited) {
-          console.log(`[Polling] Manual refresh rate limited, retry after ${data.retryAfter}s`);
-        }
-        
         // Restart the countdown cycle if not paused
-        if (!isPaused) {
+        if (!isPaused && !suspended) {
           // Clear existing timers
           if (timeoutRef.current) {
             clearTimeout(timeoutRef.current);
@@ -219,7 +320,50 @@ export function usePolling(
     } finally {
       setLoading(false);
     }
-  }, [webhookId, loading, enabled, isPaused, currentInterval]);
+  }, [webhookId, loading, enabled, suspended, isPaused, currentInterval]);
+
+  // Fetch the page after the oldest loaded request
+  const nextOlderCursor = olderCursor !== undefined ? olderCursor : latestNextCursor;
+  const loadOlder = useCallback(async () => {
+    if (!nextOlderCursor || loadingOlder) return;
+
+    setLoadingOlder(true);
+    try {
+      const separator = filterQueryRef.current ? '&' : '?';
+      const response = await fetch(`/api/poll/${webhookId}${filterQueryRef.current}${separator}cursor=${encodeURIComponent(nextOlderCursor)}`);
+      const data = await response.json() as PollingResponse;
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load older requests');
+      }
+
+      setOlderRequests(prev => [...prev, ...(data.requests || [])]);
+      setOlderCursor(data.nextCursor ?? null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMessage);
+      if (onErrorRef.current) onErrorRef.current(errorMessage);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [webhookId, nextOlderCursor, loadingOlder]);
+
+  const applyChanges = useCallback((changes: RequestChangeSet) => {
+    const addedRequests = mergeChanges(webhookId, changes);
+    setOlderRequests(prev => prev.filter(request => !isRemoved(request, changes)));
+    if (onNewRequestRef.current) {
+      addedRequests.forEach(onNewRequestRef.current);
+    }
+    setRequests(getWebhookStorage().getRequests(webhookId));
+    setLastUpdate(new Date());
+  }, [webhookId]);
+
+  // Polled requests first, then older pages without the ones polling has since picked up
+  const allRequests = useMemo(() => {
+    if (olderRequests.length === 0) return requests;
+    const polledIds = new Set(requests.map(request => request.id));
+    return [...requests, ...olderRequests.filter(request => !polledIds.has(request.id))];
+  }, [requests, olderRequests]);
 
   // Pause polling
   const pausePolling = useCallback(() => {
@@ -278,7 +422,7 @@ export function usePolling(
   // Main polling effect
   useEffect(() => {
     // Early return if conditions not met
-    if (!enabled || isPaused || isPollingActiveRef.current) {
+    if (!enabled || suspended || isPaused || isPollingActiveRef.current) {
       return;
     }
 
@@ -299,10 +443,28 @@ export function usePolling(
         const controller = new AbortController();
         abortControllerRef.current = controller;
 
-        const response = await fetch(`/api/poll/${webhookId}`, {
+        const since = sinceRef.current;
+        const response = await fetch(getPollUrl(webhookId, filterQueryRef.current, since), {
           signal: controller.signal,
+          headers: since && etagRef.current ? { 'If-None-Match': etagRef.current } : undefined,
         });
 
+        // Nothing changed since the last incremental poll
+        if (response.status === 304) {
+          setLastUpdate(new Date());
+          setIsConnected(true);
+          setError(null);
+          scheduleNextPoll();
+          return;
+        }
+
+        // The shared limiter refused the poll; keep what is shown and try again next interval
+        if (response.status === 429) {
+          console.log(`[Polling] Rate limited for ${webhookId}, will retry normally after interval`);
+          scheduleNextPoll();
+          return;
+        }
+
         if (!response.ok) {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
@@ -310,48 +472,32 @@ export function usePolling(
         const data = await response.json() as PollingResponse;
 
         if (data.success) {
-          const serverRequests = data.requests || [];
-          
           // Clear any previous storage errors
           setStorageError(undefined);
           
-          // Get current requests from localStorage to merge with server data
+          // Changes responses also report deleted, evicted, expired and cleared requests
+          const addedRequests = since ? mergeChanges(webhookId, data) : saveServerRequests(webhookId, data.requests || []);
           const storage = getWebhookStorage();
-          const localRequests = storage.getRequests(webhookId);
-          
-          // Save only new server requests to localStorage
-          if (serverRequests.length > 0) {
-            try {
-              serverRequests.forEach(request => {
-                const exists = localRequests.some(existing => existing.id === request.id);
-                if (!exists) {
-                  storage.saveRequest(request);
-                }
-              });
-              console.log(`Processed ${serverRequests.length} server requests, saved new ones to localStorage`);
-            } catch (error) {
-              console.error('Failed to save requests to localStorage:', error);
-            }
+
+          if (since) {
+            setOlderRequests(prev => prev.filter(request => !isRemoved(request, data)));
+          } else {
+            setLatestNextCursor(data.nextCursor ?? null);
           }
           
-          // Get the updated local requests after saving
-          const updatedLocalRequests = storage.getRequests(webhookId);
+          // Too much changed to describe, so the next poll starts over with a full page
+          sinceRef.current = data.truncated ? null : data.nextSince ?? null;
+          etagRef.current = response.headers.get('ETag');
           
-          // Check for new requests for notifications
-          if (onNewRequestRef.current && serverRequests.length > 0) {
-            const currentIds = new Set(requests.map(r => r.id));
-            const newServerRequests = serverRequests.filter(r => !currentIds.has(r.id));
-            newServerRequests.forEach(onNewRequestRef.current);
+          // Notify about requests this browser has not seen before
+          if (onNewRequestRef.current) {
+            addedRequests.forEach(onNewRequestRef.current);
           }
 
-          setRequests(updatedLocalRequests);
+          setRequests(storage.getRequests(webhookId));
           setLastUpdate(new Date());
           setIsConnected(true);
           setError(null);
-
-          if (data.rateLimited) {
-            console.log(`[Polling] Rate limited for ${webhookId}, will retry normally after interval`);
-          }
         } else {
           // Check if this is a D1 storage error
           if (data.storageError && data.storageError.provider === 'd1') {
@@ -379,7 +525,11 @@ export function usePolling(
         }
       }
 
-      // Schedule next poll only if still active
+      scheduleNextPoll();
+    };
+
+    // Schedule next poll only if still active
+    const scheduleNextPoll = (): void => {
       if (isPollingActiveRef.current && !isPaused) {
         // Start countdown
         setCountdown(Math.floor(currentInterval / 1000));
@@ -428,8 +578,7 @@ export function usePolling(
         abortControllerRef.current = null;
       }
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [webhookId, currentInterval, enabled, isPaused]);
+  }, [webhookId, currentInterval, enabled, suspended, isPaused]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -448,13 +597,17 @@ export function usePolling(
   }, []);
 
   return {
-    requests,
+    requests: allRequests,
     loading,
     error,
     lastUpdate,
     isConnected,
-    requestCount: requests.length,
+    requestCount: allRequests.length,
     refreshNow,
+    loadOlder,
+    hasOlder: Boolean(nextOlderCursor),
+    loadingOlder,
+    applyChanges,
     pausePolling,
     resumePolling,
     isPaused,
@@ -0,0 +1,227 @@
+// Hook for live request updates: a WebSocket when the hub is enabled, otherwise Server-Sent Events when the browser
+// and network allow, and polling as the last resort
+
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { usePolling, type PollingOptions, type PollingState, type RequestChangeSet } from './usePolling';
+import { buildRequestFilterQuery } from '@/lib/request-filter';
+import { HUB_PING, HUB_PONG } from '@/lib/webhook-hub';
+import type { ConnectionStatus, RealtimeEvent, RequestRemoval, WebhookRequest } from '@/types/webhook';
+
+// 'reconnecting' is a connection that was open and is being re-established
+type StreamState = 'connecting' | 'open' | 'reconnecting' | 'unavailable';
+
+// Consecutive errors without a successful open before falling back to polling, e.g. behind a buffering proxy
+const MAX_STREAM_FAILURES = 3;
+
+// Reconnects after a WebSocket drops before giving up on it, and the backoff between them
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+// How often the socket is pinged, and how long a pong may take before the connection counts as dead
+const HEARTBEAT_INTERVAL = 25000;
+const HEARTBEAT_TIMEOUT = 10000;
+
+// Header labels for the active transport
+export const CONNECTION_TYPE_LABELS: Record<ConnectionStatus['connectionType'], string> = {
+  websocket: 'WebSocket',
+  sse: 'SSE',
+  polling: 'Polling',
+  disconnected: 'Offline',
+};
+
+export interface RealtimeState extends PollingState, ConnectionStatus {}
+
+// Exponential backoff with jitter, so dashboards do not all reconnect at once after a deploy
+function getReconnectDelay(attempt: number): number {
+  const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt);
+  return delay / 2 + Math.random() * delay / 2;
+}
+
+// Hand a live event to the request list
+function applyEvent(event: RealtimeEvent, applyChanges: (changes: RequestChangeSet) => void): void {
+  if (event.type === 'new_request' || event.type === 'request_updated') {
+    applyChanges({ requests: [event.data as WebhookRequest] });
+  } else if (event.type === 'requests_removed') {
+    applyChanges(event.data as RequestRemoval);
+  }
+}
+
+export function useRealtime(webhookId: string, options: PollingOptions = {}): RealtimeState {
+  const { enabled = true, filter } = options;
+  const [socketState, setSocketState] = useState<StreamState>('connecting');
+  const [streamState, setStreamState] = useState<StreamState>('connecting');
+  const [lastPing, setLastPing] = useState<Date>();
+  const [reconnectAttempts, setReconnectAttempts] = useState(0);
+
+  // Polling loads the first page, then rests while the event stream delivers changes. The WebSocket only carries
+  // newly captured requests, so polling keeps running beside it for delivery updates and removals.
+  const streaming = socketState === 'unavailable' && (streamState === 'open' || streamState === 'reconnecting');
+  const polling = usePolling(webhookId, { ...options, suspended: streaming });
+  const { applyChanges, isPaused } = polling;
+
+  const applyChangesRef = useRef(applyChanges);
+  applyChangesRef.current = applyChanges;
+
+  const filterQuery = filter ? buildRequestFilterQuery(filter) : '';
+
+  // WebSocket through the webhook's hub
+  useEffect(() => {
+    if (typeof WebSocket === 'undefined') {
+      setSocketState('unavailable');
+      return;
+    }
+    if (!webhookId || !enabled || isPaused) {
+      setSocketState('connecting');
+      return;
+    }
+
+    let socket: WebSocket | null = null;
+    let stopped = false;
+    let opened = false;
+    let attempts = 0;
+    let heartbeatTimer: NodeJS.Timeout | undefined;
+    let pongTimer: NodeJS.Timeout | undefined;
+    let reconnectTimer: NodeJS.Timeout | undefined;
+
+    const stopHeartbeat = () => {
+      clearInterval(heartbeatTimer);
+      clearTimeout(pongTimer);
+    };
+
+    const handleDisconnect = () => {
+      stopHeartbeat();
+      if (stopped) return;
+
+      // A socket that never opened means the endpoint is disabled or blocked, so there is nothing to retry
+      if (!opened || attempts >= MAX_RECONNECT_ATTEMPTS) {
+        console.warn(`[Realtime] WebSocket for ${webhookId} unavailable, falling back to event stream`);
+        setSocketState('unavailable');
+        return;
+      }
+
+      const delay = getReconnectDelay(attempts++);
+      setReconnectAttempts(attempts);
+      setSocketState('reconnecting');
+      reconnectTimer = setTimeout(connect, delay);
+    };
+
+    const ping = (current: WebSocket) => {
+      if (current.readyState !== WebSocket.OPEN) return;
+      current.send(HUB_PING);
+      clearTimeout(pongTimer);
+      // A dead connection may take minutes to report its close, so stop waiting for it
+      pongTimer = setTimeout(() => {
+        current.onclose = null;
+        current.close();
+        handleDisconnect();
+      }, HEARTBEAT_TIMEOUT);
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const current = new WebSocket(`${protocol}//${window.location.host}/api/ws/${webhookId}${filterQuery}`);
+      socket = current;
+
+      current.onopen = () => {
+        opened = true;
+        attempts = 0;
+        setReconnectAttempts(0);
+        setSocketState('open');
+        ping(current);
+        heartbeatTimer = setInterval(() => ping(current), HEARTBEAT_INTERVAL);
+      };
+
+      current.onmessage = (message: MessageEvent<string>) => {
+        if (message.data === HUB_PONG) {
+          clearTimeout(pongTimer);
+          setLastPing(new Date());
+          return;
+        }
+        try {
+          applyEvent(JSON.parse(message.data) as RealtimeEvent, applyChangesRef.current);
+        } catch (error) {
+          console.error(`[Realtime] Invalid WebSocket message for ${webhookId}:`, error);
+        }
+      };
+
+      // Errors are always followed by a close
+      current.onclose = handleDisconnect;
+    };
+
+    setSocketState('connecting');
+    setReconnectAttempts(0);
+    connect();
+
+    return () => {
+      stopped = true;
+      stopHeartbeat();
+      clearTimeout(reconnectTimer);
+      if (socket) {
+        socket.onclose = null;
+        socket.close();
+      }
+    };
+  }, [webhookId, filterQuery, enabled, isPaused]);
+
+  // Server-Sent Events, once the WebSocket turned out to be unavailable
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') {
+      setStreamState('unavailable');
+      return;
+    }
+    if (!webhookId || !enabled || isPaused || socketState !== 'unavailable') {
+      setStreamState('connecting');
+      return;
+    }
+
+    const source = new EventSource(`/api/stream/${webhookId}${filterQuery}`);
+    let failures = 0;
+    let opened = false;
+    setStreamState('connecting');
+
+    source.onopen = () => {
+      failures = 0;
+      opened = true;
+      setStreamState('open');
+    };
+
+    // The browser reconnects on its own, including after the server ends a long-lived stream
+    source.onerror = () => {
+      failures++;
+      if (source.readyState === EventSource.CLOSED || failures >= MAX_STREAM_FAILURES) {
+        console.warn(`[Realtime] Event stream for ${webhookId} unavailable, falling back to polling`);
+        source.close();
+        setStreamState('unavailable');
+      } else {
+        setStreamState(opened ? 'reconnecting' : 'connecting');
+      }
+    };
+
+    const handleEvent = (message: MessageEvent<string>) => {
+      applyEvent(JSON.parse(message.data) as RealtimeEvent, applyChangesRef.current);
+    };
+    source.addEventListener('new_request', handleEvent);
+    source.addEventListener('request_updated', handleEvent);
+    source.addEventListener('requests_removed', handleEvent);
+
+    return () => source.close();
+  }, [webhookId, filterQuery, enabled, isPaused, socketState]);
+
+  const socketOpen = socketState === 'open';
+  const isConnected = socketOpen || (streaming ? streamState === 'open' : polling.isConnected);
+  const connectionType: ConnectionStatus['connectionType'] = !isConnected
+    ? 'disconnected'
+    : socketOpen ? 'websocket' : streaming ? 'sse' : 'polling';
+
+  return {
+    ...polling,
+    isConnected,
+    connectionType,
+    lastPing,
+    reconnectAttempts,
+    countdown: streaming ? 0 : polling.countdown, // Nothing is scheduled while streaming
+  };
+}
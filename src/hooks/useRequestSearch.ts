@@ -0,0 +1,70 @@
+// Hook for full-text search over a webhook's stored requests
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { RequestSearchResult } from '@/types/webhook';
+
+interface SearchResponse {
+  success: boolean;
+  results?: RequestSearchResult[];
+  error?: string;
+  errors?: string[];
+}
+
+interface UseRequestSearchReturn {
+  results: RequestSearchResult[];
+  searching: boolean;
+  error: string | null;
+}
+
+// Wait for typing to pause before querying the server
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function useRequestSearch(webhookId: string, query: string, limit = 50): UseRequestSearchReturn {
+  const [results, setResults] = useState<RequestSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!webhookId || !trimmed) {
+      setResults([]);
+      setSearching(false);
+      setError(null);
+      return;
+    }
+
+    // Ignore responses to queries the user has already typed past
+    const controller = new AbortController();
+    setSearching(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: trimmed, limit: String(limit) });
+        const response = await fetch(`/api/search/${webhookId}?${params}`, { signal: controller.signal });
+        const data = await response.json() as SearchResponse;
+
+        if (data.success) {
+          setResults(data.results || []);
+          setError(null);
+        } else {
+          setResults([]);
+          setError(data.errors?.join('; ') || data.error || 'Search failed');
+        }
+        setSearching(false);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Search failed');
+        setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [webhookId, query, limit]);
+
+  return { results, searching, error };
+}
@@ -0,0 +1,107 @@
+// Hook for reading and updating server-side webhook configuration
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { WebhookConfig } from '@/types/webhook';
+
+interface WebhookConfigResponse {
+  success: boolean;
+  webhookId: string;
+  exists?: boolean;
+  config?: WebhookConfig;
+  error?: string;
+  errors?: string[];
+  message?: string;
+}
+
+interface UseWebhookConfigReturn {
+  config: WebhookConfig | null;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+  saveConfig: (updates: Partial<WebhookConfig>) => Promise<boolean>;
+  refreshConfig: () => Promise<void>;
+}
+
+// Build a readable error message from an API error response
+function getErrorMessage(data: WebhookConfigResponse, fallback: string): string {
+  if (data.errors && data.errors.length > 0) {
+    return data.errors.join('; ');
+  }
+  return data.message || data.error || fallback;
+}
+
+export function useWebhookConfig(webhookId: string): UseWebhookConfigReturn {
+  const [config, setConfig] = useState<WebhookConfig | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load configuration from the server
+  const refreshConfig = useCallback(async () => {
+    if (!webhookId) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/webhook/${webhookId}/config`);
+      const data = await response.json() as WebhookConfigResponse;
+
+      if (data.success && data.config) {
+        setConfig(data.config);
+        setError(null);
+      } else {
+        setError(getErrorMessage(data, 'Failed to load webhook configuration'));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load webhook configuration');
+    } finally {
+      setLoading(false);
+    }
+  }, [webhookId]);
+
+  // Save partial configuration updates to the server
+  const saveConfig = useCallback(async (updates: Partial<WebhookConfig>) => {
+    if (!webhookId) return false;
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/webhook/${webhookId}/config`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+      const data = await response.json() as WebhookConfigResponse;
+
+      if (data.success && data.config) {
+        setConfig(data.config);
+        setError(null);
+        return true;
+      }
+
+      setError(getErrorMessage(data, 'Failed to save webhook configuration'));
+      return false;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save webhook configuration');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [webhookId]);
+
+  // Load configuration when webhookId changes
+  useEffect(() => {
+    refreshConfig();
+  }, [refreshConfig]);
+
+  return {
+    config,
+    loading,
+    saving,
+    error,
+    saveConfig,
+    refreshConfig,
+  };
+}
@@ -34,6 +34,7 @@ export interface BrowserWebhookStorage {
   // Request operations
   getRequests(webhookId: string): WebhookRequest[];
   saveRequest(request: WebhookRequest): void;
+  updateRequest(request: WebhookRequest): boolean;
   deleteRequest(webhookId: string, requestId: string): boolean;
   clearRequests(webhookId: string): void;
   
@@ -274,6 +275,21 @@ class BrowserWebhookStorageImpl implements BrowserWebhookStorage {
     });
   }
   
+  updateRequest(request: WebhookRequest): boolean {
+    const allRequests = LocalStorageUtils.getItem<Record<string, WebhookRequest[]>>(BROWSER_STORAGE_KEYS.REQUESTS, {});
+    const webhookRequests = allRequests[request.webhookId] || [];
+    
+    const index = webhookRequests.findIndex((r: WebhookRequest) => r.id === request.id);
+    if (index === -1) return false;
+    
+    // Replace in place so the list order is kept
+    webhookRequests[index] = request;
+    allRequests[request.webhookId] = webhookRequests;
+    LocalStorageUtils.setItem(BROWSER_STORAGE_KEYS.REQUESTS, allRequests);
+    
+    return true;
+  }
+  
   deleteRequest(webhookId: string, requestId: string): boolean {
     const allRequests = LocalStorageUtils.getItem<Record<string, WebhookRequest[]>>(BROWSER_STORAGE_KEYS.REQUESTS, {});
     const webhookRequests = allRequests[webhookId] || [];
@@ -434,6 +450,7 @@ class ServerSideFallbackStorage implements BrowserWebhookStorage {
   getWebhook = () => null;
   getRequests = () => [];
   saveRequest = () => {};
+  updateRequest = () => false;
   deleteRequest = () => false;
   clearRequests = () => {};
   getSettings = () => DEFAULT_SETTINGS;
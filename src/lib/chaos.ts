@@ -0,0 +1,266 @@
+// Chaos testing for the webhook receiver
+// Injects latency, 5xx responses and dropped connections so senders' retry logic can be exercised
+
+import type { ChaosConfig, ChaosDelayMode, ChaosOutcome, WebhookRequest } from '@/types/webhook';
+import { DEFAULT_CHAOS_CONFIG } from '@/types/webhook';
+
+export const CHAOS_DELAY_MODES: readonly ChaosDelayMode[] = ['none', 'fixed', 'random'] as const;
+
+// Upper bound for injected delays, long enough to trigger most sender timeouts
+export const MAX_CHAOS_DELAY_MS = 120000;
+
+// Number of recent requests inspected when counting previous attempts
+export const CHAOS_ATTEMPT_LOOKBACK = 100;
+
+// Attempt key used when no header identifies individual deliveries
+const ALL_ATTEMPTS_KEY = '*';
+
+/**
+ * Resolve the key that groups retries of the same delivery
+ */
+export function getAttemptKey(config: ChaosConfig, request: WebhookRequest): string {
+  const headerName = config.attemptKeyHeader?.trim().toLowerCase();
+  const headerValue = headerName ? request.headers[headerName] : undefined;
+  return headerValue ? `${headerName}:${headerValue}` : ALL_ATTEMPTS_KEY;
+}
+
+/**
+ * Count earlier attempts for the same key since the chaos settings were last saved
+ */
+export function countPreviousAttempts(
+  config: ChaosConfig,
+  attemptKey: string,
+  recentRequests: WebhookRequest[]
+): number {
+  const since = config.updatedAt || 0;
+  return recentRequests.filter(request =>
+    request.chaos?.attemptKey === attemptKey &&
+    new Date(request.timestamp).getTime() >= since
+  ).length;
+}
+
+// Pick the delay for a single request
+function resolveDelay(config: ChaosConfig): number {
+  switch (config.delayMode) {
+    case 'fixed':
+      return config.delayMs;
+    case 'random': {
+      const min = Math.min(config.delayMinMs, config.delayMaxMs);
+      const max = Math.max(config.delayMinMs, config.delayMaxMs);
+      return Math.round(min + Math.random() * (max - min));
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Decide what chaos behaviour to apply to a request.
+ * "Fail first N" takes precedence, then connection drops, then random 5xx responses.
+ */
+export function resolveChaosOutcome(
+  config: ChaosConfig | undefined,
+  request: WebhookRequest,
+  previousAttempts = 0
+): ChaosOutcome | null {
+  if (!config?.enabled) return null;
+
+  const outcome: ChaosOutcome = {
+    action: 'none',
+    delayMs: resolveDelay(config),
+  };
+
+  if (config.failFirstN > 0) {
+    outcome.attemptKey = getAttemptKey(config, request);
+    outcome.attempt = previousAttempts + 1;
+
+    if (outcome.attempt <= config.failFirstN) {
+      outcome.action = 'failFirst';
+      outcome.statusCode = config.errorStatusCode;
+      return outcome;
+    }
+  }
+
+  const roll = Math.random() * 100;
+  if (roll < config.dropRate) {
+    outcome.action = 'drop';
+  } else if (roll < config.dropRate + config.errorRate) {
+    outcome.action = 'error';
+    outcome.statusCode = config.errorStatusCode;
+  }
+
+  return outcome;
+}
+
+/**
+ * Wait for the injected delay
+ */
+export async function applyChaosDelay(outcome: ChaosOutcome): Promise<void> {
+  if (outcome.delayMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, Math.min(outcome.delayMs, MAX_CHAOS_DELAY_MS)));
+  }
+}
+
+/**
+ * Build the failure response for an outcome, or null when the request should succeed
+ */
+export function buildChaosResponse(outcome: ChaosOutcome, request: WebhookRequest): Response | null {
+  if (outcome.action === 'drop') {
+    // Abort the body stream so the runtime resets the connection without a complete response
+    const body = new ReadableStream({
+      start(controller) {
+        controller.error(new Error('Simulated connection drop'));
+      },
+    });
+    return new Response(body, { status: 200 });
+  }
+
+  if (outcome.action === 'error' || outcome.action === 'failFirst') {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Simulated failure',
+        requestId: request.id,
+        attempt: outcome.attempt,
+      }),
+      {
+        status: outcome.statusCode || DEFAULT_CHAOS_CONFIG.errorStatusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Check whether an outcome deliberately failed the request
+ */
+export function isChaosFailure(outcome: ChaosOutcome | undefined): boolean {
+  return outcome !== undefined && outcome.action !== 'none';
+}
+
+/**
+ * Describe an outcome for display, e.g. "Failed attempt 1 of 3 (503)"
+ */
+export function describeChaosOutcome(outcome: ChaosOutcome, failFirstN?: number): string {
+  switch (outcome.action) {
+    case 'failFirst':
+      return `Failed attempt ${outcome.attempt}${failFirstN ? ` of ${failFirstN}` : ''} (${outcome.statusCode})`;
+    case 'error':
+      return `Random failure (${outcome.statusCode})`;
+    case 'drop':
+      return 'Connection dropped';
+    default:
+      return outcome.attempt ? `Succeeded on attempt ${outcome.attempt}` : 'No failure injected';
+  }
+}
+
+/**
+ * Stamp saved settings; attempt counting restarts only when the settings actually change
+ */
+export function stampChaosConfig(config: ChaosConfig, previous?: ChaosConfig): ChaosConfig {
+  const settingsKey = (value: ChaosConfig) => JSON.stringify([
+    value.enabled,
+    value.delayMode,
+    value.delayMs,
+    value.delayMinMs,
+    value.delayMaxMs,
+    value.errorRate,
+    value.errorStatusCode,
+    value.dropRate,
+    value.failFirstN,
+    value.attemptKeyHeader,
+  ]);
+  const unchanged = previous?.updatedAt !== undefined && settingsKey(previous) === settingsKey(config);
+
+  return {
+    ...config,
+    updatedAt: unchanged ? previous!.updatedAt : Date.now(),
+  };
+}
+
+// Read a numeric setting, falling back to the default when missing
+function readNumber(value: unknown, fallback: number): number {
+  return value === undefined || value === null || value === '' ? fallback : Number(value);
+}
+
+/**
+ * Validate and normalize chaos settings received from the API
+ */
+export function validateChaosConfig(input: unknown): {
+  isValid: boolean;
+  errors: string[];
+  value?: ChaosConfig;
+} {
+  if (!input || typeof input !== 'object') {
+    return { isValid: false, errors: ['Chaos configuration must be an object'] };
+  }
+
+  const raw = input as Partial<ChaosConfig>;
+  const errors: string[] = [];
+
+  const delayMode = raw.delayMode ?? DEFAULT_CHAOS_CONFIG.delayMode;
+  if (!CHAOS_DELAY_MODES.includes(delayMode)) {
+    errors.push(`delayMode must be one of: ${CHAOS_DELAY_MODES.join(', ')}`);
+  }
+
+  const delays = {
+    delayMs: readNumber(raw.delayMs, DEFAULT_CHAOS_CONFIG.delayMs),
+    delayMinMs: readNumber(raw.delayMinMs, DEFAULT_CHAOS_CONFIG.delayMinMs),
+    delayMaxMs: readNumber(raw.delayMaxMs, DEFAULT_CHAOS_CONFIG.delayMaxMs),
+  };
+  for (const [name, value] of Object.entries(delays)) {
+    if (!Number.isInteger(value) || value < 0 || value > MAX_CHAOS_DELAY_MS) {
+      errors.push(`${name} must be an integer between 0 and ${MAX_CHAOS_DELAY_MS}`);
+    }
+  }
+
+  const rates = {
+    errorRate: readNumber(raw.errorRate, DEFAULT_CHAOS_CONFIG.errorRate),
+    dropRate: readNumber(raw.dropRate, DEFAULT_CHAOS_CONFIG.dropRate),
+  };
+  for (const [name, value] of Object.entries(rates)) {
+    if (!Number.isFinite(value) || value < 0 || value > 100) {
+      errors.push(`${name} must be a percentage between 0 and 100`);
+    }
+  }
+  if (rates.errorRate + rates.dropRate > 100) {
+    errors.push('errorRate and dropRate together cannot exceed 100');
+  }
+
+  const errorStatusCode = readNumber(raw.errorStatusCode, DEFAULT_CHAOS_CONFIG.errorStatusCode);
+  if (!Number.isInteger(errorStatusCode) || errorStatusCode < 500 || errorStatusCode > 599) {
+    errors.push('errorStatusCode must be an integer between 500 and 599');
+  }
+
+  const failFirstN = readNumber(raw.failFirstN, DEFAULT_CHAOS_CONFIG.failFirstN);
+  if (!Number.isInteger(failFirstN) || failFirstN < 0 || failFirstN > CHAOS_ATTEMPT_LOOKBACK) {
+    errors.push(`failFirstN must be an integer between 0 and ${CHAOS_ATTEMPT_LOOKBACK}`);
+  }
+
+  if (raw.attemptKeyHeader !== undefined && typeof raw.attemptKeyHeader !== 'string') {
+    errors.push('attemptKeyHeader must be a string');
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    errors,
+    value: {
+      enabled: Boolean(raw.enabled),
+      delayMode,
+      ...delays,
+      ...rates,
+      errorStatusCode,
+      failFirstN,
+      attemptKeyHeader: raw.attemptKeyHeader?.trim() || undefined,
+    },
+  };
+}
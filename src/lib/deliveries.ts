@@ -0,0 +1,388 @@
+// Deliveries - fans captured requests out to forwarding targets and retries failed deliveries
+// First attempts and scheduled retries run in the background after the sender gets its response; the cron
+// sweep picks up any that are due later than the background window allows
+
+import type {
+  Delivery,
+  DeliveryStatus,
+  DeliveryTrigger,
+  ForwardingConfig,
+  ForwardResult,
+  ForwardTarget,
+  RetryPolicy,
+  WebhookRequest,
+} from '@/types/webhook';
+import type { StorageManager } from './storage/storage-manager';
+import { forwardRequest, isForwardSuccess, type ForwardableRequest, type ForwardOutcome } from './forwarding';
+import { getInlineRawBytes } from './raw-body';
+import { sleep } from './utils';
+
+// Recent requests scanned for due retries on each sweep
+export const RETRY_SWEEP_LOOKBACK = 100;
+
+// How long background retries keep running after the response was sent
+const BACKGROUND_RETRY_WINDOW_MS = 25000;
+
+// Extra time a claimed retry is reserved for, on top of the target timeout
+const RETRY_LEASE_MS = 5000;
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  retrying: 'Retrying',
+  succeeded: 'Delivered',
+  failed: 'Failed',
+};
+
+/**
+ * Delay before the given retry (1-based): initial delay grown by the multiplier, capped at the max delay
+ */
+export function getRetryDelay(policy: RetryPolicy, retryNumber: number): number {
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, Math.max(0, retryNumber - 1));
+  return Math.min(Math.round(delay), policy.maxDelayMs);
+}
+
+/**
+ * Empty delivery for a target, before its first attempt
+ */
+export function createDelivery(target: ForwardTarget): Delivery {
+  return {
+    targetId: target.id,
+    targetName: target.name,
+    status: 'retrying',
+    attempts: [],
+  };
+}
+
+/**
+ * Record an attempt and work out the delivery status.
+ * Failed automatic attempts are rescheduled until the policy's max attempts is reached;
+ * manual retries do not count towards that limit.
+ */
+export function applyAttempt(delivery: Delivery, result: ForwardResult, policy: RetryPolicy, now = Date.now()): Delivery {
+  const attempts = [...delivery.attempts, result];
+
+  if (isForwardSuccess(result)) {
+    return { ...delivery, status: 'succeeded', attempts, nextAttemptAt: undefined };
+  }
+
+  // A manual retry leaves an existing schedule alone
+  if (result.trigger === 'manual') {
+    return delivery.status === 'retrying' && delivery.nextAttemptAt
+      ? { ...delivery, attempts }
+      : { ...delivery, status: 'failed', attempts, nextAttemptAt: undefined };
+  }
+
+  const automaticAttempts = attempts.filter(attempt => attempt.trigger !== 'manual').length;
+  if (automaticAttempts < policy.maxAttempts) {
+    return {
+      ...delivery,
+      status: 'retrying',
+      attempts,
+      nextAttemptAt: new Date(now + getRetryDelay(policy, automaticAttempts)).toISOString(),
+    };
+  }
+
+  return { ...delivery, status: 'failed', attempts, nextAttemptAt: undefined };
+}
+
+/**
+ * Whether a scheduled retry is due
+ */
+export function isDeliveryDue(delivery: Delivery, now = Date.now()): boolean {
+  return delivery.status === 'retrying' && Boolean(delivery.nextAttemptAt) && Date.parse(delivery.nextAttemptAt!) <= now;
+}
+
+/**
+ * Combined status of a request's deliveries: retrying while any retry is pending, failed when any target failed
+ */
+export function getOverallDeliveryStatus(deliveries: Delivery[]): DeliveryStatus {
+  if (deliveries.some(delivery => delivery.status === 'retrying')) return 'retrying';
+  if (deliveries.some(delivery => delivery.status === 'failed')) return 'failed';
+  return 'succeeded';
+}
+
+// Earliest scheduled retry of a request, or null when nothing is scheduled
+function getNextAttemptTime(request: WebhookRequest): number | null {
+  const times = (request.deliveries || [])
+    .filter(delivery => delivery.status === 'retrying' && delivery.nextAttemptAt)
+    .map(delivery => Date.parse(delivery.nextAttemptAt!));
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+/**
+ * Targets a captured request is forwarded to; the first one's answer is returned in proxy mode
+ */
+export function getEnabledTargets(config: ForwardingConfig): ForwardTarget[] {
+  return config.targets.filter(target => target.enabled);
+}
+
+/**
+ * Send a freshly captured request to the given targets in parallel.
+ * `primary` is the first target's outcome, used when the upstream response is returned.
+ */
+export async function deliverToTargets(
+  targets: ForwardTarget[],
+  request: ForwardableRequest
+): Promise<{ deliveries: Delivery[]; primary: ForwardOutcome | null }> {
+  const outcomes = await Promise.all(targets.map(target => forwardRequest(target, request)));
+
+  return {
+    deliveries: targets.map((target, index) => applyAttempt(createDelivery(target), outcomes[index].result, target.retry)),
+    primary: outcomes[0] ?? null,
+  };
+}
+
+/**
+ * Deliveries for targets whose first attempt runs after the request is stored. Each is leased like a claimed
+ * retry, so the sweep sends it if the background attempt never reports back.
+ */
+export function createPendingDeliveries(targets: ForwardTarget[], now = Date.now()): Delivery[] {
+  return targets.map(target => ({
+    ...createDelivery(target),
+    nextAttemptAt: new Date(now + target.timeoutMs + RETRY_LEASE_MS).toISOString(),
+  }));
+}
+
+/**
+ * Exact body bytes of a stored request, loading the raw body object when it is not inline
+ */
+export async function loadRequestBytes(storageManager: StorageManager, request: WebhookRequest): Promise<Uint8Array> {
+  const inline = getInlineRawBytes(request);
+  if (inline) return inline;
+
+  const object = await storageManager.getRawBody(request.webhookId, request.id);
+  if (!object) {
+    throw new Error('Original body is no longer available');
+  }
+  return new Uint8Array(await object.arrayBuffer());
+}
+
+/**
+ * Rebuild the forwardable form of a stored request
+ */
+export function toForwardableRequest(request: WebhookRequest, rawBytes: Uint8Array): ForwardableRequest {
+  const protocol = request.headers['x-forwarded-proto'] || 'https';
+  const url = new URL(`${protocol}://${request.headers.host || 'localhost'}${request.path}`);
+  Object.entries(request.queryParams || {}).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+
+  return {
+    webhookId: request.webhookId,
+    requestId: request.id,
+    method: request.method,
+    url: url.toString(),
+    headers: request.headers,
+    rawBytes,
+    ip: request.ip || 'unknown',
+  };
+}
+
+// Save a request's deliveries onto its latest stored copy, so a replay saved while they were sent is kept
+async function saveDeliveries(storageManager: StorageManager, request: WebhookRequest, deliveries: Delivery[]): Promise<WebhookRequest> {
+  const stored = await storageManager.getRequest(request.webhookId, request.id);
+  const updated = { ...(stored ?? request), deliveries };
+  if (stored) {
+    await storageManager.updateRequest(request.webhookId, updated);
+  }
+  return updated;
+}
+
+export interface RetryOptions {
+  trigger: Exclude<DeliveryTrigger, 'initial'>; // 'retry' sends due deliveries, 'manual' sends on demand
+  targetId?: string; // Manual retries only: a single target, otherwise every unsucceeded delivery
+  rawBytes?: Uint8Array; // Body bytes when already at hand
+}
+
+/**
+ * Retry deliveries of a stored request and save the new attempts.
+ * Scheduled retries whose target was removed or disabled are marked as failed instead.
+ * Returns the updated request.
+ */
+export async function retryDeliveries(
+  storageManager: StorageManager,
+  request: WebhookRequest,
+  config: ForwardingConfig,
+  options: RetryOptions
+): Promise<WebhookRequest> {
+  const now = Date.now();
+  const targets = new Map(config.targets.map(target => [target.id, target]));
+  const deliveries = [...(request.deliveries || [])];
+  const selected: { index: number; target: ForwardTarget }[] = [];
+  let changed = false;
+
+  if (options.trigger === 'manual') {
+    if (options.targetId) {
+      const target = targets.get(options.targetId);
+      if (!target) {
+        throw new Error(`Forwarding target ${options.targetId} not found`);
+      }
+      let index = deliveries.findIndex(delivery => delivery.targetId === target.id);
+      if (index === -1) {
+        deliveries.push(createDelivery(target));
+        index = deliveries.length - 1;
+      }
+      selected.push({ index, target });
+    } else {
+      deliveries.forEach((delivery, index) => {
+        const target = targets.get(delivery.targetId);
+        if (target && delivery.status !== 'succeeded') selected.push({ index, target });
+      });
+    }
+  } else {
+    deliveries.forEach((delivery, index) => {
+      if (!isDeliveryDue(delivery, now)) return;
+      const target = targets.get(delivery.targetId);
+      if (config.enabled && target?.enabled) {
+        selected.push({ index, target });
+      } else {
+        deliveries[index] = { ...delivery, status: 'failed', nextAttemptAt: undefined };
+        changed = true;
+      }
+    });
+
+    // Claim the due retries so a concurrent sweep does not send them again
+    if (selected.length > 0) {
+      selected.forEach(({ index, target }) => {
+        deliveries[index] = {
+          ...deliveries[index],
+          nextAttemptAt: new Date(now + target.timeoutMs + RETRY_LEASE_MS).toISOString(),
+        };
+      });
+      await saveDeliveries(storageManager, request, deliveries);
+    }
+  }
+
+  if (selected.length === 0) {
+    return changed ? await saveDeliveries(storageManager, request, deliveries) : request;
+  }
+
+  const rawBytes = options.rawBytes ?? await loadRequestBytes(storageManager, request);
+  const forwardable = toForwardableRequest(request, rawBytes);
+
+  const outcomes = await Promise.all(
+    selected.map(({ index, target }) =>
+      forwardRequest(target, forwardable, deliveries[index].attempts.length + 1, options.trigger)
+    )
+  );
+  selected.forEach(({ index, target }, i) => {
+    deliveries[index] = applyAttempt(deliveries[index], outcomes[i].result, target.retry);
+  });
+
+  return await saveDeliveries(storageManager, request, deliveries);
+}
+
+/**
+ * Send every due retry among a webhook's recent requests.
+ * Returns the number of requests that had retries sent.
+ */
+export async function processDueDeliveries(
+  storageManager: StorageManager,
+  webhookId: string,
+  config: ForwardingConfig
+): Promise<number> {
+  const now = Date.now();
+  const requests = await storageManager.getRequests(webhookId, RETRY_SWEEP_LOOKBACK);
+  const due = requests.filter(request => (request.deliveries || []).some(delivery => isDeliveryDue(delivery, now)));
+
+  for (const request of due) {
+    try {
+      await retryDeliveries(storageManager, request, config, { trigger: 'retry' });
+    } catch (error) {
+      console.error(`Webhook ${webhookId}: Failed to retry deliveries of request ${request.id}:`, error);
+    }
+  }
+
+  return due.length;
+}
+
+/**
+ * Make the first attempts of a stored request's pending deliveries and save them, then keep sending its
+ * scheduled retries within the background window
+ */
+export async function runBackgroundDeliveries(
+  storageManager: StorageManager,
+  request: ForwardableRequest,
+  config: ForwardingConfig,
+  targets: ForwardTarget[]
+): Promise<void> {
+  const outcomes = await Promise.all(targets.map(target => forwardRequest(target, request)));
+
+  // Re-read so attempts made meanwhile by the sweep are kept
+  const stored = await storageManager.getRequest(request.webhookId, request.requestId);
+  if (!stored) return;
+
+  const deliveries = (stored.deliveries || []).map(delivery => {
+    const index = targets.findIndex(target => target.id === delivery.targetId);
+    if (index === -1 || delivery.attempts.length > 0) return delivery;
+    return applyAttempt(delivery, outcomes[index].result, targets[index].retry);
+  });
+  await storageManager.updateRequest(request.webhookId, { ...stored, deliveries });
+
+  await runBackgroundRetries(storageManager, request.webhookId, request.requestId, config, request.rawBytes);
+}
+
+/**
+ * Keep sending a request's scheduled retries while they fall within the background window.
+ * Later retries are left to the cron sweep.
+ */
+export async function runBackgroundRetries(
+  storageManager: StorageManager,
+  webhookId: string,
+  requestId: string,
+  config: ForwardingConfig,
+  rawBytes?: Uint8Array
+): Promise<void> {
+  const deadline = Date.now() + BACKGROUND_RETRY_WINDOW_MS;
+
+  for (;;) {
+    // Re-read each time so retries sent by a sweep or by hand are not repeated
+    const request = await storageManager.getRequest(webhookId, requestId);
+    const nextAttemptAt = request ? getNextAttemptTime(request) : null;
+    if (!request || nextAttemptAt === null || nextAttemptAt > deadline) return;
+
+    const wait = nextAttemptAt - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+      continue;
+    }
+
+    await retryDeliveries(storageManager, request, config, { trigger: 'retry', rawBytes });
+  }
+}
+
+/**
+ * Send due retries of every webhook that forwards requests. Run by the cron trigger, so retries scheduled
+ * past the background window go out without anyone watching the webhook.
+ * Returns the number of requests that had retries sent.
+ */
+export async function sweepDueDeliveries(storageManager: StorageManager): Promise<number> {
+  const webhooks = await storageManager.getAllWebhookConfigs();
+  let retried = 0;
+
+  for (const webhook of webhooks) {
+    if (!webhook.forwarding) continue;
+    try {
+      retried += await processDueDeliveries(storageManager, webhook.id, webhook.forwarding);
+    } catch (error) {
+      console.error(`Webhook ${webhook.id}: Failed to sweep due deliveries:`, error);
+    }
+  }
+
+  return retried;
+}
+
+/**
+ * Keep a task running after the response is sent, through waitUntil when available
+ */
+export function runInBackground(
+  cloudflareContext: { ctx?: { waitUntil(promise: Promise<unknown>): void } } | undefined,
+  task: Promise<unknown>
+): void {
+  const guarded = task.catch(error => {
+    console.error('Background delivery task failed:', error);
+  });
+
+  if (cloudflareContext?.ctx?.waitUntil) {
+    cloudflareContext.ctx.waitUntil(guarded);
+  }
+}
@@ -0,0 +1,178 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  FORWARDED_BY_HEADER,
+  FORWARDED_REQUEST_ID_HEADER,
+  buildUpstreamResponse,
+  createForwardTarget,
+  forwardRequest,
+  type ForwardableRequest,
+} from './forwarding';
+import type { ForwardTarget } from '@/types/webhook';
+
+// What the upstream saw of the last request it received
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+let upstream: Server;
+let upstreamUrl: string;
+let received: ReceivedRequest | null = null;
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise(resolve => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  });
+}
+
+// `/slow` answers after 300ms, `/empty` with 204, anything else with 201 and a JSON body
+beforeAll(async () => {
+  upstream = createServer(async (request, response) => {
+    received = { method: request.method!, url: request.url!, headers: request.headers, body: await readBody(request) };
+
+    const respond = () => {
+      if (request.url?.startsWith('/hooks/empty')) {
+        response.writeHead(204, { 'X-Upstream': 'empty' });
+        response.end();
+        return;
+      }
+      response.writeHead(201, 'Created', {
+        'Content-Type': 'application/json',
+        'X-Upstream': 'yes',
+        'Connection': 'close',
+      });
+      response.end(JSON.stringify({ ok: true }));
+    };
+
+    if (request.url?.startsWith('/hooks/slow')) {
+      setTimeout(respond, 300);
+    } else {
+      respond();
+    }
+  });
+
+  await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+  upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => upstream.close(resolve));
+});
+
+function makeTarget(overrides: Partial<ForwardTarget> = {}): ForwardTarget {
+  return { ...createForwardTarget(0), url: upstreamUrl, ...overrides };
+}
+
+function makeRequest(overrides: Partial<ForwardableRequest> = {}): ForwardableRequest {
+  return {
+    webhookId: 'abc123',
+    requestId: 'req1',
+    method: 'POST',
+    url: 'https://webhooks.example.com/api/webhook/abc123/orders?source=test',
+    headers: {
+      'content-type': 'application/json',
+      'x-signature': 'sig',
+      'connection': 'keep-alive',
+      'cf-ray': '123',
+      'host': 'webhooks.example.com',
+    },
+    rawBytes: new TextEncoder().encode('{"order":1}'),
+    ip: '203.0.113.7',
+    ...overrides,
+  };
+}
+
+describe('forwardRequest', () => {
+  it('records the upstream status, headers and body', async () => {
+    const { result, response } = await forwardRequest(makeTarget(), makeRequest());
+
+    expect(result.error).toBeUndefined();
+    expect(result.status).toBe(201);
+    expect(result.statusText).toBe('Created');
+    expect(result.headers?.['x-upstream']).toBe('yes');
+    expect(result.body).toBe('{"ok":true}');
+    expect(result.bodyEncoding).toBe('utf8');
+    expect(result.bodySize).toBe(11);
+    expect(response?.status).toBe(201);
+  });
+
+  it('sends the sub-path, query, body and forwarding headers upstream', async () => {
+    await forwardRequest(makeTarget(), makeRequest());
+
+    expect(received?.method).toBe('POST');
+    expect(received?.url).toBe('/hooks/orders?source=test');
+    expect(received?.body).toBe('{"order":1}');
+    expect(received?.headers['x-signature']).toBe('sig');
+    expect(received?.headers['x-forwarded-for']).toBe('203.0.113.7');
+    expect(received?.headers['x-forwarded-host']).toBe('webhooks.example.com');
+    expect(received?.headers[FORWARDED_BY_HEADER]).toBe('abc123');
+    expect(received?.headers[FORWARDED_REQUEST_ID_HEADER]).toBe('req1');
+    expect(received?.headers['cf-ray']).toBeUndefined();
+    expect(received?.headers['host']).not.toBe('webhooks.example.com');
+  });
+
+  it('measures latency and reports targets that time out', async () => {
+    const slowRequest = makeRequest({ url: 'https://webhooks.example.com/api/webhook/abc123/slow' });
+
+    const answered = await forwardRequest(makeTarget({ timeoutMs: 2000 }), slowRequest);
+    expect(answered.result.status).toBe(201);
+    expect(answered.result.latencyMs).toBeGreaterThanOrEqual(250);
+
+    const timedOut = await forwardRequest(makeTarget({ timeoutMs: 100 }), slowRequest);
+    expect(timedOut.result.status).toBeUndefined();
+    expect(timedOut.result.error).toBe('Upstream did not respond within 100ms');
+    expect(timedOut.response).toBeUndefined();
+  });
+
+  it('refuses to forward a request this webhook already forwarded', async () => {
+    received = null;
+    const { result } = await forwardRequest(
+      makeTarget(),
+      makeRequest({ headers: { [FORWARDED_BY_HEADER]: 'other1, abc123' } })
+    );
+
+    expect(result.error).toMatch(/loop/);
+    expect(received).toBeNull();
+  });
+});
+
+describe('buildUpstreamResponse', () => {
+  it('passes the upstream answer through without hop-by-hop headers', async () => {
+    const response = buildUpstreamResponse(await forwardRequest(makeTarget(), makeRequest()));
+
+    expect(response.status).toBe(201);
+    expect(response.statusText).toBe('Created');
+    expect(response.headers.get('x-upstream')).toBe('yes');
+    expect(response.headers.get('connection')).toBeNull();
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(await response.json()).toEqual({ ok: true });
+  });
+
+  it('sends null-body statuses without a body', async () => {
+    const response = buildUpstreamResponse(
+      await forwardRequest(makeTarget(), makeRequest({ url: 'https://webhooks.example.com/api/webhook/abc123/empty' }))
+    );
+
+    expect(response.status).toBe(204);
+    expect(response.body).toBeNull();
+  });
+
+  it('answers 502 when the upstream could not be reached', async () => {
+    const closed = createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise(resolve => closed.close(resolve));
+
+    const forwarded = await forwardRequest(makeTarget({ url: `http://127.0.0.1:${port}/` }), makeRequest());
+    const response = buildUpstreamResponse(forwarded);
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ success: false, error: 'Upstream request failed' });
+  });
+});
@@ -0,0 +1,398 @@
+// Request forwarding - relays captured webhook requests to upstream targets
+// The receiver keeps a copy of each upstream's answer next to the captured request
+
+import type { DeliveryTrigger, ForwardingConfig, ForwardResult, ForwardTarget, RetryPolicy, UpstreamResult } from '@/types/webhook';
+import { DEFAULT_RETRY_POLICY } from '@/types/webhook';
+import { INLINE_RAW_BODY_LIMIT, bytesToBase64, decodeUtf8 } from './raw-body';
+import { generateId, getWebhookSubPath } from './utils';
+
+export const DEFAULT_FORWARD_TIMEOUT_MS = 10000;
+export const MAX_FORWARD_TIMEOUT_MS = 60000;
+export const MAX_FORWARD_TARGETS = 10;
+export const MAX_RETRY_ATTEMPTS = 10;
+export const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Added to forwarded requests so chained or looping forwards can be detected
+export const FORWARDED_BY_HEADER = 'x-cf-webhook-forwarded-by';
+export const FORWARDED_REQUEST_ID_HEADER = 'x-cf-webhook-request-id';
+
+// Connection-level headers that must not be copied to the upstream request or back to the sender
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+]);
+
+// Headers describing the original hop, replaced with fresh values when forwarding
+const SKIPPED_REQUEST_HEADERS = new Set([
+  'host',
+  'content-length',
+  'cdn-loop',
+  'x-real-ip',
+]);
+
+// The upstream body is decoded by fetch, so its encoding and length no longer apply
+const SKIPPED_RESPONSE_HEADERS = new Set([
+  'content-encoding',
+  'content-length',
+]);
+
+// Request data needed to relay a captured request
+export interface ForwardableRequest {
+  webhookId: string;
+  requestId: string;
+  method: string;
+  url: string; // Full URL the request was received on
+  headers: Record<string, string>;
+  rawBytes: Uint8Array;
+  ip: string;
+}
+
+// Result of a forward plus the live upstream response, which is not stored
+export interface ForwardOutcome {
+  result: ForwardResult;
+  response?: Response;
+  bytes?: Uint8Array; // Full upstream body
+}
+
+/**
+ * Build the upstream URL: target URL + captured sub-path + captured query string
+ */
+export function buildForwardUrl(targetUrl: string, webhookId: string, requestUrl: string): string {
+  const received = new URL(requestUrl);
+  const target = new URL(targetUrl);
+  const subPath = getWebhookSubPath(received.pathname, webhookId);
+
+  if (subPath !== '/') {
+    target.pathname = target.pathname.replace(/\/$/, '') + subPath;
+  }
+  received.searchParams.forEach((value, key) => {
+    target.searchParams.append(key, value);
+  });
+
+  return target.toString();
+}
+
+/**
+ * Captured headers that can be sent to another host, without hop-specific and Cloudflare ones
+ */
+export function getSendableHeaders(captured: Record<string, string>): Headers {
+  const headers = new Headers();
+  Object.entries(captured).forEach(([key, value]) => {
+    const name = key.toLowerCase();
+    if (HOP_BY_HOP_HEADERS.has(name) || SKIPPED_REQUEST_HEADERS.has(name) || name.startsWith('cf-')) return;
+    headers.set(key, value);
+  });
+  return headers;
+}
+
+/**
+ * Headers sent upstream: the captured headers without hop-specific ones, plus X-Forwarded-* details
+ */
+export function buildForwardHeaders(request: ForwardableRequest): Headers {
+  const headers = getSendableHeaders(request.headers);
+
+  const received = new URL(request.url);
+  const forwardedFor = request.headers['x-forwarded-for'];
+  headers.set('x-forwarded-for', forwardedFor ? `${forwardedFor}, ${request.ip}` : request.ip);
+  headers.set('x-forwarded-host', received.host);
+  headers.set('x-forwarded-proto', received.protocol.replace(':', ''));
+
+  const forwardedBy = request.headers[FORWARDED_BY_HEADER];
+  headers.set(FORWARDED_BY_HEADER, forwardedBy ? `${forwardedBy}, ${request.webhookId}` : request.webhookId);
+  headers.set(FORWARDED_REQUEST_ID_HEADER, request.requestId);
+
+  return headers;
+}
+
+/**
+ * Whether the request already passed through this webhook's forwarder
+ */
+export function isForwardingLoop(request: ForwardableRequest): boolean {
+  const forwardedBy = request.headers[FORWARDED_BY_HEADER];
+  return Boolean(forwardedBy && forwardedBy.split(',').some(id => id.trim() === request.webhookId));
+}
+
+/**
+ * Copy upstream response headers that can be returned to the original sender
+ */
+export function getRelayableHeaders(headers: Headers): Headers {
+  const relayed = new Headers();
+  headers.forEach((value, key) => {
+    if (HOP_BY_HOP_HEADERS.has(key) || SKIPPED_RESPONSE_HEADERS.has(key)) return;
+    relayed.append(key, value);
+  });
+  return relayed;
+}
+
+/**
+ * Send a request to `result.url` with `result.method` and record the answer in `result`.
+ * Never throws: network errors and timeouts are reported in `result.error`.
+ */
+export async function sendUpstream(
+  result: UpstreamResult,
+  headers: Headers,
+  body: Uint8Array,
+  timeoutMs: number
+): Promise<{ response?: Response; bytes?: Uint8Array }> {
+  const startedAt = Date.parse(result.startedAt);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const hasBody = result.method !== 'GET' && result.method !== 'HEAD';
+
+    const response = await fetch(result.url, {
+      method: result.method,
+      headers,
+      body: hasBody ? body : undefined,
+      redirect: 'manual', // Relay redirects as-is instead of following them
+      signal: controller.signal,
+    });
+    const bytes = new Uint8Array(await response.arrayBuffer());
+
+    result.latencyMs = Date.now() - startedAt;
+    result.status = response.status;
+    result.statusText = response.statusText;
+    result.headers = {};
+    response.headers.forEach((value, key) => {
+      result.headers![key] = value;
+    });
+
+    // Keep the upstream body inline up to the same limit used for captured bodies
+    const stored = bytes.subarray(0, INLINE_RAW_BODY_LIMIT);
+    const text = decodeUtf8(stored);
+    result.bodySize = bytes.length;
+    result.bodyTruncated = bytes.length > INLINE_RAW_BODY_LIMIT;
+    result.bodyEncoding = text === null ? 'base64' : 'utf8';
+    result.body = text ?? bytesToBase64(stored);
+
+    return { response, bytes };
+  } catch (error) {
+    result.latencyMs = Date.now() - startedAt;
+    result.error = controller.signal.aborted
+      ? `Upstream did not respond within ${timeoutMs}ms`
+      : error instanceof Error ? error.message : 'Request failed';
+    return {};
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Send a captured request to one target.
+ * Never throws: network errors and timeouts are reported in `result.error`.
+ */
+export async function forwardRequest(
+  target: ForwardTarget,
+  request: ForwardableRequest,
+  attempt = 1,
+  trigger: DeliveryTrigger = 'initial'
+): Promise<ForwardOutcome> {
+  const result: ForwardResult = {
+    attempt,
+    trigger,
+    url: target.url,
+    method: request.method,
+    startedAt: new Date().toISOString(),
+    latencyMs: 0,
+  };
+
+  if (isForwardingLoop(request)) {
+    result.error = 'Forwarding loop detected, request was already forwarded by this webhook';
+    return { result };
+  }
+
+  try {
+    result.url = buildForwardUrl(target.url, request.webhookId, request.url);
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Invalid target URL';
+    return { result };
+  }
+
+  const { response, bytes } = await sendUpstream(result, buildForwardHeaders(request), request.rawBytes, target.timeoutMs);
+  return { result, response, bytes };
+}
+
+// Statuses that must be sent without a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Build the response returned to the original sender from the upstream's answer
+ */
+export function buildUpstreamResponse(forwarded: ForwardOutcome): Response {
+  const { result, response, bytes } = forwarded;
+
+  if (!response) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Upstream request failed',
+        message: result.error,
+        upstream: result.url,
+      }),
+      {
+        status: 502,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+
+  const headers = getRelayableHeaders(response.headers);
+  headers.set('Access-Control-Allow-Origin', '*');
+
+  return new Response(NULL_BODY_STATUSES.has(response.status) ? null : bytes, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/**
+ * Short summary of a forward result for list badges and tooltips
+ */
+export function describeForwardResult(result: ForwardResult): string {
+  if (result.error) return `Forward failed: ${result.error}`;
+  return `Forwarded to ${result.url}: ${result.status} in ${result.latencyMs}ms`;
+}
+
+/**
+ * Whether the upstream answered with a non-error status
+ */
+export function isForwardSuccess(result: UpstreamResult): boolean {
+  return !result.error && result.status !== undefined && result.status < 400;
+}
+
+/**
+ * Create a target with default timeout and retry policy
+ */
+export function createForwardTarget(index: number): ForwardTarget {
+  return {
+    id: generateId(),
+    name: `Target ${index + 1}`,
+    enabled: true,
+    url: '',
+    timeoutMs: DEFAULT_FORWARD_TIMEOUT_MS,
+    retry: { ...DEFAULT_RETRY_POLICY },
+  };
+}
+
+// Validate a retry policy, collecting problems into `errors`
+function validateRetryPolicy(input: unknown, prefix: string, errors: string[]): RetryPolicy {
+  const raw = { ...DEFAULT_RETRY_POLICY, ...(input && typeof input === 'object' ? input as Partial<RetryPolicy> : {}) };
+  const policy: RetryPolicy = {
+    maxAttempts: Number(raw.maxAttempts),
+    initialDelayMs: Number(raw.initialDelayMs),
+    backoffMultiplier: Number(raw.backoffMultiplier),
+    maxDelayMs: Number(raw.maxDelayMs),
+  };
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1 || policy.maxAttempts > MAX_RETRY_ATTEMPTS) {
+    errors.push(`${prefix}.retry.maxAttempts must be an integer between 1 and ${MAX_RETRY_ATTEMPTS}`);
+  }
+  if (!Number.isInteger(policy.initialDelayMs) || policy.initialDelayMs < 0 || policy.initialDelayMs > MAX_RETRY_DELAY_MS) {
+    errors.push(`${prefix}.retry.initialDelayMs must be an integer between 0 and ${MAX_RETRY_DELAY_MS}`);
+  }
+  if (!Number.isFinite(policy.backoffMultiplier) || policy.backoffMultiplier < 1 || policy.backoffMultiplier > 10) {
+    errors.push(`${prefix}.retry.backoffMultiplier must be a number between 1 and 10`);
+  }
+  if (!Number.isInteger(policy.maxDelayMs) || policy.maxDelayMs < policy.initialDelayMs || policy.maxDelayMs > MAX_RETRY_DELAY_MS) {
+    errors.push(`${prefix}.retry.maxDelayMs must be an integer between initialDelayMs and ${MAX_RETRY_DELAY_MS}`);
+  }
+
+  return policy;
+}
+
+// Validate a single target, collecting problems into `errors`
+function validateForwardTarget(input: unknown, index: number, errors: string[]): ForwardTarget | null {
+  const prefix = `targets[${index}]`;
+  if (!input || typeof input !== 'object') {
+    errors.push(`${prefix} must be an object`);
+    return null;
+  }
+
+  const raw = input as Partial<ForwardTarget>;
+  const url = typeof raw.url === 'string' ? raw.url.trim() : '';
+  const timeoutMs = Number(raw.timeoutMs ?? DEFAULT_FORWARD_TIMEOUT_MS);
+
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      errors.push(`${prefix}.url must use http or https`);
+    }
+  } catch {
+    errors.push(`${prefix}.url must be an absolute URL`);
+  }
+
+  if (!Number.isInteger(timeoutMs) || timeoutMs < 100 || timeoutMs > MAX_FORWARD_TIMEOUT_MS) {
+    errors.push(`${prefix}.timeoutMs must be an integer between 100 and ${MAX_FORWARD_TIMEOUT_MS}`);
+  }
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : `Target ${index + 1}`,
+    enabled: raw.enabled !== false,
+    url,
+    timeoutMs,
+    retry: validateRetryPolicy(raw.retry, prefix, errors),
+  };
+}
+
+/**
+ * Validate and normalize forwarding settings received from the API
+ */
+export function validateForwardingConfig(input: unknown): {
+  isValid: boolean;
+  errors: string[];
+  value?: ForwardingConfig;
+} {
+  if (!input || typeof input !== 'object') {
+    return { isValid: false, errors: ['Forwarding configuration must be an object'] };
+  }
+
+  const raw = input as Partial<ForwardingConfig>;
+  const errors: string[] = [];
+  const rawTargets = raw.targets ?? [];
+
+  if (!Array.isArray(rawTargets)) {
+    return { isValid: false, errors: ['targets must be an array'] };
+  }
+  if (rawTargets.length > MAX_FORWARD_TARGETS) {
+    errors.push(`At most ${MAX_FORWARD_TARGETS} targets are allowed`);
+  }
+
+  const targets = rawTargets
+    .map((target, index) => validateForwardTarget(target, index, errors))
+    .filter((target): target is ForwardTarget => target !== null);
+
+  if (raw.enabled && !targets.some(target => target.enabled)) {
+    errors.push('At least one enabled target is required when forwarding is enabled');
+  }
+
+  if (new Set(targets.map(target => target.id)).size !== targets.length) {
+    errors.push('Target ids must be unique');
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    errors,
+    value: {
+      enabled: Boolean(raw.enabled),
+      targets,
+      returnResponse: Boolean(raw.returnResponse),
+    },
+  };
+}
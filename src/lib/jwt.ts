@@ -0,0 +1,168 @@
+// JWT decoding and signature checks against locally pasted keys
+// Accepts a PEM public key, a single JWK, a JWKS document or a shared secret for HS* tokens
+
+import { base64ToBytes } from './raw-body';
+
+export interface DecodedJwt {
+  header: { alg?: string; kid?: string; typ?: string; [key: string]: unknown };
+  payload: Record<string, unknown>;
+  signingInput: Uint8Array; // "<header>.<payload>" as sent
+  signature: Uint8Array;
+  encodedSignature: string;
+}
+
+interface JwtAlgorithm {
+  importParams: RsaHashedImportParams | EcKeyImportParams | HmacImportParams;
+  verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+  keyType: 'RSA' | 'EC' | 'oct';
+}
+
+// Algorithms Web Crypto can verify; "none" is never accepted
+const JWT_ALGORITHMS: Record<string, JwtAlgorithm> = {
+  HS256: { importParams: { name: 'HMAC', hash: 'SHA-256' }, verifyParams: 'HMAC', keyType: 'oct' },
+  HS384: { importParams: { name: 'HMAC', hash: 'SHA-384' }, verifyParams: 'HMAC', keyType: 'oct' },
+  HS512: { importParams: { name: 'HMAC', hash: 'SHA-512' }, verifyParams: 'HMAC', keyType: 'oct' },
+  RS256: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verifyParams: 'RSASSA-PKCS1-v1_5', keyType: 'RSA' },
+  RS384: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verifyParams: 'RSASSA-PKCS1-v1_5', keyType: 'RSA' },
+  RS512: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verifyParams: 'RSASSA-PKCS1-v1_5', keyType: 'RSA' },
+  PS256: { importParams: { name: 'RSA-PSS', hash: 'SHA-256' }, verifyParams: { name: 'RSA-PSS', saltLength: 32 }, keyType: 'RSA' },
+  PS384: { importParams: { name: 'RSA-PSS', hash: 'SHA-384' }, verifyParams: { name: 'RSA-PSS', saltLength: 48 }, keyType: 'RSA' },
+  PS512: { importParams: { name: 'RSA-PSS', hash: 'SHA-512' }, verifyParams: { name: 'RSA-PSS', saltLength: 64 }, keyType: 'RSA' },
+  ES256: { importParams: { name: 'ECDSA', namedCurve: 'P-256' }, verifyParams: { name: 'ECDSA', hash: 'SHA-256' }, keyType: 'EC' },
+  ES384: { importParams: { name: 'ECDSA', namedCurve: 'P-384' }, verifyParams: { name: 'ECDSA', hash: 'SHA-384' }, keyType: 'EC' },
+  ES512: { importParams: { name: 'ECDSA', namedCurve: 'P-521' }, verifyParams: { name: 'ECDSA', hash: 'SHA-512' }, keyType: 'EC' },
+};
+
+export const JWT_ALGORITHM_NAMES = Object.keys(JWT_ALGORITHMS);
+
+/**
+ * Decode base64url into bytes
+ */
+export function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToBytes(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+/**
+ * Split and decode a compact JWT, throwing when it is malformed
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new Error('Token is not a compact JWT');
+  }
+
+  const decoder = new TextDecoder();
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+  let header: DecodedJwt['header'];
+  let payload: DecodedJwt['payload'];
+  try {
+    header = JSON.parse(decoder.decode(base64UrlToBytes(encodedHeader)));
+    payload = JSON.parse(decoder.decode(base64UrlToBytes(encodedPayload)));
+  } catch {
+    throw new Error('Token header or payload is not valid base64url JSON');
+  }
+
+  if (!header || typeof header !== 'object' || !payload || typeof payload !== 'object') {
+    throw new Error('Token header and payload must be JSON objects');
+  }
+
+  return {
+    header,
+    payload,
+    signingInput: new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+    signature: base64UrlToBytes(encodedSignature),
+    encodedSignature,
+  };
+}
+
+type PastedKey =
+  | { kind: 'pem'; der: Uint8Array }
+  | { kind: 'jwks'; keys: JsonWebKey[] }
+  | { kind: 'secret'; secret: string };
+
+/**
+ * Work out what kind of key material was pasted, throwing when it cannot be used
+ */
+export function parsePastedKey(text: string): PastedKey {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('-----BEGIN')) {
+    const match = trimmed.match(/^-----BEGIN PUBLIC KEY-----([\s\S]+?)-----END PUBLIC KEY-----$/);
+    if (!match) {
+      throw new Error('Only "BEGIN PUBLIC KEY" (SPKI) PEM keys are supported');
+    }
+    return { kind: 'pem', der: base64ToBytes(match[1].replace(/\s+/g, '')) };
+  }
+
+  if (trimmed.startsWith('{')) {
+    let parsed: { keys?: unknown };
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Key looks like JSON but could not be parsed');
+    }
+    const keys = Array.isArray(parsed.keys) ? parsed.keys : [parsed];
+    if (keys.length === 0 || keys.some(key => !key || typeof key !== 'object' || typeof (key as JsonWebKey).kty !== 'string')) {
+      throw new Error('JWKS keys must be JWK objects with a kty');
+    }
+    return { kind: 'jwks', keys: keys as JsonWebKey[] };
+  }
+
+  return { kind: 'secret', secret: text };
+}
+
+// Pick the JWKS entry matching the token: by kid when present, otherwise by key type
+function selectJwk(keys: JsonWebKey[], algorithm: JwtAlgorithm, kid?: string): JsonWebKey | undefined {
+  const candidates = keys.filter(key => key.kty === algorithm.keyType && (!key.use || key.use === 'sig'));
+  if (kid) {
+    return candidates.find(key => (key as JsonWebKey & { kid?: string }).kid === kid);
+  }
+  return candidates[0];
+}
+
+/**
+ * Verify a decoded token's signature with the pasted key.
+ * Returns the kid of the JWKS entry used, if any.
+ */
+export async function verifyJwtSignature(jwt: DecodedJwt, pastedKey: string): Promise<{ valid: boolean; keyId?: string }> {
+  const alg = jwt.header.alg;
+  const algorithm = alg ? JWT_ALGORITHMS[alg] : undefined;
+  if (!alg || !algorithm) {
+    throw new Error(`Unsupported JWT algorithm: ${alg || 'none'}`);
+  }
+
+  const key = parsePastedKey(pastedKey);
+  let cryptoKey: CryptoKey;
+  let keyId: string | undefined;
+
+  // Key kinds are matched to the algorithm family so a public key can never be used as an HMAC secret
+  if (key.kind === 'secret') {
+    if (algorithm.keyType !== 'oct') {
+      throw new Error(`${alg} tokens need a PEM public key, JWK or JWKS`);
+    }
+    cryptoKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(key.secret), algorithm.importParams, false, ['verify']);
+  } else if (key.kind === 'pem') {
+    if (algorithm.keyType === 'oct') {
+      throw new Error(`${alg} tokens need a shared secret, not a public key`);
+    }
+    cryptoKey = await crypto.subtle.importKey('spki', key.der, algorithm.importParams, false, ['verify']);
+  } else {
+    const jwk = selectJwk(key.keys, algorithm, jwt.header.kid);
+    if (!jwk) {
+      throw new Error(jwt.header.kid ? `No ${algorithm.keyType} key with kid "${jwt.header.kid}"` : `No ${algorithm.keyType} key in JWKS`);
+    }
+    if (jwk.alg && jwk.alg !== alg) {
+      throw new Error(`Key is restricted to ${jwk.alg} but the token uses ${alg}`);
+    }
+    keyId = (jwk as JsonWebKey & { kid?: string }).kid;
+    // Web Crypto rejects JWKs whose key_ops do not include the requested usage
+    const material: JsonWebKey = { ...jwk };
+    delete material.key_ops;
+    cryptoKey = await crypto.subtle.importKey('jwk', material, algorithm.importParams, false, ['verify']);
+  }
+
+  const valid = await crypto.subtle.verify(algorithm.verifyParams, cryptoKey, jwt.signature, jwt.signingInput);
+  return { valid, keyId };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { buildMockResponse, validateMockResponse } from './mock-response';
+import { validateResponseRules } from './response-rules';
+import type { WebhookRequest } from '@/types/webhook';
+
+function makeRequest(overrides: Partial<WebhookRequest> = {}): WebhookRequest {
+  return {
+    id: 'req1',
+    webhookId: 'abc123',
+    method: 'POST',
+    path: '/api/webhook/abc123',
+    headers: { 'content-type': 'application/json' },
+    body: '{"order":1}',
+    queryParams: {},
+    timestamp: new Date(),
+    ip: '203.0.113.7',
+    userAgent: 'test',
+    contentType: 'application/json',
+    bodySize: 11,
+    ...overrides,
+  };
+}
+
+describe('validateMockResponse', () => {
+  it('accepts token header names and plain values', () => {
+    const validation = validateMockResponse({ statusCode: 200, headers: { 'X-Request-Id': '{{request.id}}' } });
+
+    expect(validation.isValid).toBe(true);
+    expect(validation.value?.headers).toEqual({ 'X-Request-Id': '{{request.id}}' });
+  });
+
+  it('rejects header names that are not tokens', () => {
+    const validation = validateMockResponse({ statusCode: 200, headers: { 'X Bad': 'value', 'X-Ok:': 'value' } });
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors).toHaveLength(2);
+  });
+
+  it('rejects header values and content types with line breaks or NUL', () => {
+    expect(validateMockResponse({ headers: { 'X-Split': 'a\r\nSet-Cookie: b' } }).isValid).toBe(false);
+    expect(validateMockResponse({ headers: { 'X-Nul': 'a\0b' } }).isValid).toBe(false);
+    expect(validateMockResponse({ contentType: 'text/plain\n' }).isValid).toBe(false);
+  });
+
+  it('applies to the responses of response rules', () => {
+    const validation = validateResponseRules([
+      { name: 'Bad header', conditions: [{ field: 'path', operator: 'equals', value: '/events' }], response: { statusCode: 200, headers: { 'X Bad': 'value' } } },
+    ]);
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors).toEqual(['Rule 1: Header name "X Bad" is not a valid HTTP header name']);
+  });
+});
+
+describe('buildMockResponse', () => {
+  it('keeps line breaks pulled in by placeholders out of header values', () => {
+    const validation = validateMockResponse({ enabled: true, headers: { 'X-Echo': '{{body.note}}' } });
+    const response = buildMockResponse(validation.value!, makeRequest({ body: '{"note":"a\\r\\nb"}' }));
+
+    expect(response.headers.get('x-echo')).toBe('a b');
+  });
+});
@@ -0,0 +1,187 @@
+// Mock response rendering for the webhook receiver
+// Turns a per-webhook MockResponseConfig into the HTTP response sent back to the caller
+
+import type { MockResponseConfig, WebhookRequest } from '@/types/webhook';
+import { DEFAULT_MOCK_RESPONSE } from '@/types/webhook';
+
+// Status codes that must not carry a response body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+// Response headers callers are not allowed to override
+const RESERVED_HEADERS = new Set(['content-length', 'transfer-encoding', 'connection']);
+
+// Header names are RFC 7230 tokens; values may not contain line breaks or NUL, which Headers refuses
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+const INVALID_HEADER_VALUE_PATTERN = /[\r\n\0]/;
+
+/**
+ * Resolve a dotted path (e.g. "data.object.id") against a parsed JSON value
+ */
+function resolvePath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, key) => {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    return (current as Record<string, unknown>)[key];
+  }, value);
+}
+
+/**
+ * Render a body template against the captured request.
+ *
+ * Supported placeholders:
+ *   {{request.id}} {{request.method}} {{request.path}} {{request.ip}}
+ *   {{request.timestamp}} {{request.body}} {{webhook.id}} {{now}}
+ *   {{query.<name>}} {{headers.<name>}} {{body.<json.path>}}
+ */
+export function renderResponseTemplate(template: string, request: WebhookRequest): string {
+  let parsedBody: unknown;
+  let bodyParsed = false;
+
+  const getParsedBody = () => {
+    if (!bodyParsed) {
+      bodyParsed = true;
+      try {
+        parsedBody = JSON.parse(request.body);
+      } catch {
+        parsedBody = undefined;
+      }
+    }
+    return parsedBody;
+  };
+
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, expression: string) => {
+    const [scope, ...rest] = expression.split('.');
+    const key = rest.join('.');
+    let value: unknown;
+
+    switch (scope) {
+      case 'request':
+        value = {
+          id: request.id,
+          method: request.method,
+          path: request.path,
+          ip: request.ip,
+          timestamp: new Date(request.timestamp).toISOString(),
+          body: request.body,
+          contentType: request.contentType,
+        }[key];
+        break;
+      case 'webhook':
+        value = key === 'id' ? request.webhookId : undefined;
+        break;
+      case 'now':
+        value = new Date().toISOString();
+        break;
+      case 'query':
+        value = request.queryParams[key];
+        break;
+      case 'headers':
+        value = request.headers[key.toLowerCase()];
+        break;
+      case 'body':
+        value = key ? resolvePath(getParsedBody(), key) : request.body;
+        break;
+      default:
+        return match;
+    }
+
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * Build the HTTP response described by a mock response configuration
+ */
+export function buildMockResponse(responseConfig: MockResponseConfig, request: WebhookRequest): Response {
+  const headers = new Headers({
+    'Access-Control-Allow-Origin': '*',
+  });
+
+  if (responseConfig.contentType) {
+    headers.set('Content-Type', responseConfig.contentType);
+  }
+
+  for (const [name, value] of Object.entries(responseConfig.headers || {})) {
+    if (!name.trim() || RESERVED_HEADERS.has(name.toLowerCase())) continue;
+    // Placeholders can pull line breaks in from the captured request
+    headers.set(name.trim(), renderResponseTemplate(value, request).replace(/[\r\n\0]+/g, ' '));
+  }
+
+  const hasBody = request.method !== 'HEAD' && !NULL_BODY_STATUSES.has(responseConfig.statusCode);
+  const body = hasBody ? renderResponseTemplate(responseConfig.body || '', request) : null;
+
+  return new Response(body, {
+    status: responseConfig.statusCode,
+    headers,
+  });
+}
+
+/**
+ * Validate and normalize a mock response configuration received from the API
+ */
+export function validateMockResponse(input: unknown): {
+  isValid: boolean;
+  errors: string[];
+  value?: MockResponseConfig;
+} {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object') {
+    return { isValid: false, errors: ['Response configuration must be an object'] };
+  }
+
+  const raw = input as Partial<MockResponseConfig>;
+  const statusCode = Number(raw.statusCode ?? DEFAULT_MOCK_RESPONSE.statusCode);
+
+  if (!Number.isInteger(statusCode) || statusCode < 200 || statusCode > 599) {
+    errors.push('statusCode must be an integer between 200 and 599');
+  }
+
+  if (raw.headers !== undefined && (typeof raw.headers !== 'object' || raw.headers === null || Array.isArray(raw.headers))) {
+    errors.push('headers must be an object of header names to values');
+  } else {
+    for (const [name, value] of Object.entries(raw.headers || {})) {
+      if (name.trim() && !HEADER_NAME_PATTERN.test(name.trim())) {
+        errors.push(`Header name "${name}" is not a valid HTTP header name`);
+      }
+      if (INVALID_HEADER_VALUE_PATTERN.test(String(value))) {
+        errors.push(`Header "${name}" must not contain line breaks or NUL characters`);
+      }
+    }
+  }
+
+  if (raw.body !== undefined && typeof raw.body !== 'string') {
+    errors.push('body must be a string');
+  }
+
+  if (raw.contentType !== undefined && typeof raw.contentType !== 'string') {
+    errors.push('contentType must be a string');
+  } else if (raw.contentType && INVALID_HEADER_VALUE_PATTERN.test(raw.contentType)) {
+    errors.push('contentType must not contain line breaks or NUL characters');
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(raw.headers || {})) {
+    if (name.trim()) {
+      headers[name.trim()] = String(value);
+    }
+  }
+
+  return {
+    isValid: true,
+    errors,
+    value: {
+      enabled: Boolean(raw.enabled),
+      statusCode,
+      contentType: raw.contentType ?? DEFAULT_MOCK_RESPONSE.contentType,
+      headers,
+      body: raw.body ?? '',
+    },
+  };
+}
@@ -0,0 +1,157 @@
+// Multipart/form-data parsing for captured webhook requests
+// Splits the raw body into parts and records where each part's content lives inside the raw bytes
+
+import type { MultipartPart, WebhookRequest } from '@/types/webhook';
+import { decodeUtf8, getInlineRawBytes, getRawBodyUrl } from './raw-body';
+import { downloadBlob, formatBytes } from './utils';
+
+const encoder = new TextEncoder();
+const CRLF = encoder.encode('\r\n');
+const HEADER_SEPARATOR = encoder.encode('\r\n\r\n');
+
+/**
+ * Extract the boundary parameter from a multipart content type
+ */
+export function getMultipartBoundary(contentType: string): string | null {
+  if (!contentType.toLowerCase().includes('multipart/')) return null;
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+// Find the first occurrence of a byte sequence, starting at `from`
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, from = 0): number {
+  const last = haystack.length - needle.length;
+  outer: for (let i = from; i <= last; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+// Parse part headers into a lowercase-keyed map
+function parsePartHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  block.split('\r\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  });
+  return headers;
+}
+
+// Read a parameter such as name="x" or filename*=UTF-8''x from a Content-Disposition header
+function getDispositionParam(disposition: string, param: string): string | undefined {
+  const extended = disposition.match(new RegExp(`(?:^|;)\\s*${param}\\*=(?:[\\w-]+)?'[^']*'([^;]+)`, 'i'));
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      return extended[1].trim();
+    }
+  }
+
+  const match = disposition.match(new RegExp(`(?:^|;)\\s*${param}=(?:"((?:[^"\\\\]|\\\\.)*)"|([^;]*))`, 'i'));
+  if (!match) return undefined;
+  return match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2].trim();
+}
+
+/**
+ * Parse a multipart body into parts, or return null when the body is not multipart
+ */
+export function parseMultipartBody(bytes: Uint8Array, contentType: string): MultipartPart[] | null {
+  const boundary = getMultipartBoundary(contentType);
+  if (!boundary || bytes.length === 0) return null;
+
+  const delimiter = encoder.encode(`--${boundary}`);
+  const partDelimiter = encoder.encode(`\r\n--${boundary}`);
+  const parts: MultipartPart[] = [];
+
+  let position = indexOfBytes(bytes, delimiter);
+  if (position === -1) return null;
+
+  while (position !== -1) {
+    let partStart = position + delimiter.length;
+
+    // A delimiter followed by "--" closes the body
+    if (bytes[partStart] === 0x2d && bytes[partStart + 1] === 0x2d) break;
+    if (bytes[partStart] === CRLF[0] && bytes[partStart + 1] === CRLF[1]) partStart += 2;
+
+    const partEnd = indexOfBytes(bytes, partDelimiter, partStart);
+    if (partEnd === -1) break; // Truncated body without a closing delimiter
+
+    const headerEnd = indexOfBytes(bytes, HEADER_SEPARATOR, partStart);
+    if (headerEnd !== -1 && headerEnd < partEnd) {
+      const headers = parsePartHeaders(new TextDecoder().decode(bytes.subarray(partStart, headerEnd)));
+      const disposition = headers['content-disposition'] || '';
+      const offset = headerEnd + HEADER_SEPARATOR.length;
+      const content = bytes.subarray(offset, partEnd);
+      const filename = getDispositionParam(disposition, 'filename');
+
+      const part: MultipartPart = {
+        index: parts.length,
+        name: getDispositionParam(disposition, 'name') || '',
+        filename,
+        contentType: headers['content-type'],
+        size: content.length,
+        headers,
+        offset,
+      };
+
+      // Plain fields keep their text value; file contents stay in the raw body
+      if (filename === undefined) {
+        const text = decodeUtf8(content);
+        if (text !== null) part.value = text;
+      }
+
+      parts.push(part);
+    }
+
+    position = partEnd + CRLF.length;
+  }
+
+  return parts;
+}
+
+/**
+ * Build the readable body view for multipart requests: fields by name, files summarized
+ */
+export function buildMultipartView(parts: MultipartPart[]): string {
+  const view: Record<string, string | string[]> = {};
+
+  parts.forEach(part => {
+    const value = part.value ?? `[File: ${part.filename || 'unnamed'}, ${part.contentType || 'unknown type'}, ${formatBytes(part.size)}]`;
+    const existing = view[part.name];
+    if (existing === undefined) {
+      view[part.name] = value;
+    } else {
+      view[part.name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+  });
+
+  return JSON.stringify(view, null, 2);
+}
+
+/**
+ * Download the content of a single part
+ */
+export function downloadMultipartPart(request: WebhookRequest, part: MultipartPart): void {
+  const filename = part.filename || `${part.name || 'part'}-${part.index + 1}.bin`;
+  const bytes = getInlineRawBytes(request);
+
+  if (bytes) {
+    const content = bytes.slice(part.offset, part.offset + part.size);
+    downloadBlob(new Blob([content], { type: part.contentType || 'application/octet-stream' }), filename);
+    return;
+  }
+
+  // Large bodies live in object storage; request just the part's byte range
+  const link = document.createElement('a');
+  link.href = `${getRawBodyUrl(request.webhookId, request.id)}?offset=${part.offset}&length=${part.size}`;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
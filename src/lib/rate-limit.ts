@@ -0,0 +1,169 @@
+// Token-bucket rate limiting shared by every isolate
+// Each bucket lives in its own RateLimiterObject named after what it limits, so all isolates draw from the same
+// tokens. A bucket holds RATE_LIMIT_REQUESTS tokens and refills completely over RATE_LIMIT_WINDOW milliseconds.
+
+import { config } from '@/lib/config';
+import type { RateLimiterOperation } from './rate-limiter-object';
+
+// What a bucket limits: captures per webhook, captures per sender IP, or polls and event stream checks per webhook
+export type RateLimitScope = 'webhook' | 'ip' | 'poll';
+
+export interface RateLimitKey {
+  scope: RateLimitScope;
+  key: string;
+}
+
+export interface TokenBucket {
+  tokens: number; // Fractional, refilled on every take
+  updatedAt: number; // Unix milliseconds
+}
+
+export interface RateLimitSettings {
+  requests: number; // Bucket size
+  windowMs: number; // Time to refill an empty bucket
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number; // Whole tokens left in the emptiest bucket
+  retryAfter: number; // Seconds until the refusing bucket has a token, 0 when allowed
+  scope?: RateLimitScope; // Bucket that refused the request
+}
+
+// Rejections counted since the stats object was created
+export interface RateLimitStats {
+  rejected: number;
+  byScope: Record<RateLimitScope, number>;
+  lastRejectedAt: string | null;
+}
+
+// Outcome of taking a token from one bucket
+export interface TokenTake {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+// Name of the instance that counts rejections; bucket names always contain a colon so it cannot collide
+export const RATE_LIMIT_STATS_NAME = '__stats__';
+
+export function createRateLimitStats(): RateLimitStats {
+  return { rejected: 0, byScope: { webhook: 0, ip: 0, poll: 0 }, lastRejectedAt: null };
+}
+
+/**
+ * Bucket size and refill window from RATE_LIMIT_REQUESTS and RATE_LIMIT_WINDOW
+ */
+export function getRateLimitSettings(): RateLimitSettings {
+  return {
+    requests: Math.max(1, config.rateLimitRequests),
+    windowMs: Math.max(1000, config.rateLimitWindow),
+  };
+}
+
+/**
+ * Refill a bucket for the time that passed and take one token from it. A missing bucket starts full.
+ */
+export function takeToken(bucket: TokenBucket | undefined, settings: RateLimitSettings, now: number): TokenTake & { bucket: TokenBucket } {
+  const refillPerMs = settings.requests / settings.windowMs;
+  const tokens = bucket
+    ? Math.min(settings.requests, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs)
+    : settings.requests;
+
+  if (tokens >= 1) {
+    return { bucket: { tokens: tokens - 1, updatedAt: now }, allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 };
+  }
+  return { bucket: { tokens, updatedAt: now }, allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) };
+}
+
+function getLimiterNamespace(env: unknown): DurableObjectNamespace | undefined {
+  return (env as { RATE_LIMITER?: DurableObjectNamespace } | undefined)?.RATE_LIMITER;
+}
+
+// Send an operation to the limiter object with the given name and return its result
+async function callLimiter<T>(namespace: DurableObjectNamespace, name: string, operation: RateLimiterOperation): Promise<T> {
+  const stub = namespace.get(namespace.idFromName(name));
+  const response = await stub.fetch('https://rate-limiter/', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(operation),
+  });
+
+  const payload = await response.json() as { result?: T; error?: string };
+  if (!response.ok) {
+    throw new Error(payload.error || `Rate limiter responded with ${response.status}`);
+  }
+  return payload.result as T;
+}
+
+/**
+ * Whether rate limiting is enabled and the RATE_LIMITER binding exists
+ */
+export function isRateLimiterAvailable(env: unknown): boolean {
+  return config.rateLimitEnabled && !!getLimiterNamespace(env);
+}
+
+/**
+ * Take a token from every bucket in `keys`; the request is allowed only if all of them had one.
+ * Refusals are counted for the server stats. When the limiter is disabled, unbound or failing, everything is
+ * allowed so that webhooks are never lost to it.
+ */
+export async function checkRateLimit(env: unknown, keys: RateLimitKey[]): Promise<RateLimitResult> {
+  const settings = getRateLimitSettings();
+  const allowed: RateLimitResult = { allowed: true, limit: settings.requests, remaining: settings.requests, retryAfter: 0 };
+
+  const namespace = getLimiterNamespace(env);
+  if (!config.rateLimitEnabled || !namespace || keys.length === 0) {
+    return allowed;
+  }
+
+  try {
+    const takes = await Promise.all(keys.map(async ({ scope, key }) => ({
+      scope,
+      ...await callLimiter<TokenTake>(namespace, `${scope}:${key}`, { op: 'take', settings }),
+    })));
+
+    const refused = takes
+      .filter(take => !take.allowed)
+      .sort((a, b) => b.retryAfterMs - a.retryAfterMs)[0];
+    if (!refused) {
+      return { ...allowed, remaining: Math.min(...takes.map(take => take.remaining)) };
+    }
+
+    await callLimiter(namespace, RATE_LIMIT_STATS_NAME, { op: 'recordRejection', scope: refused.scope });
+    return {
+      allowed: false,
+      limit: settings.requests,
+      remaining: 0,
+      retryAfter: Math.max(1, Math.ceil(refused.retryAfterMs / 1000)),
+      scope: refused.scope,
+    };
+  } catch (error) {
+    console.error('Rate limiter unavailable, allowing request:', error);
+    return allowed;
+  }
+}
+
+/**
+ * Rejection counters for `/api/server-stats`, or null when the limiter is not bound
+ */
+export async function getRateLimitStats(env: unknown): Promise<RateLimitStats | null> {
+  const namespace = getLimiterNamespace(env);
+  if (!namespace) {
+    return null;
+  }
+  return await callLimiter<RateLimitStats>(namespace, RATE_LIMIT_STATS_NAME, { op: 'getStats' });
+}
+
+/**
+ * Standard rate limit headers for a checked request
+ */
+export function getRateLimitHeaders(result: RateLimitResult, settings = getRateLimitSettings()): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.allowed ? Math.ceil(settings.windowMs / 1000) : result.retryAfter),
+    ...(result.allowed ? {} : { 'Retry-After': String(result.retryAfter) }),
+  };
+}
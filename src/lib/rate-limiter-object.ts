@@ -0,0 +1,76 @@
+// Durable Object behind the shared rate limiter
+// Each instance holds one token bucket, named after the webhook or IP it limits; requests to an object are handled
+// one at a time, so concurrent isolates can never spend the same token. One extra instance counts rejections.
+
+import {
+  createRateLimitStats,
+  takeToken,
+  type RateLimitScope,
+  type RateLimitSettings,
+  type RateLimitStats,
+  type TokenBucket,
+  type TokenTake,
+} from './rate-limit';
+
+// Operations understood by the object, sent as the JSON body of a POST
+export type RateLimiterOperation =
+  | { op: 'take'; settings: RateLimitSettings }
+  // Stats instance operations
+  | { op: 'recordRejection'; scope: RateLimitScope }
+  | { op: 'getStats' };
+
+const BUCKET_KEY = 'bucket';
+const STATS_KEY = 'stats';
+
+export class RateLimiterObject implements DurableObject {
+  private state: DurableObjectState;
+  private bucket?: TokenBucket;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+    this.state.blockConcurrencyWhile(async () => {
+      this.bucket = await this.state.storage.get<TokenBucket>(BUCKET_KEY);
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    try {
+      const operation = await request.json() as RateLimiterOperation;
+      return Response.json({ result: await this.handle(operation) });
+    } catch (error) {
+      return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+  }
+
+  // A bucket left alone for a whole window is full again, the same as one that was never stored
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+    this.bucket = undefined;
+  }
+
+  private async handle(operation: RateLimiterOperation): Promise<unknown> {
+    const storage = this.state.storage;
+
+    switch (operation.op) {
+      case 'take': {
+        const { bucket, ...take } = takeToken(this.bucket, operation.settings, Date.now());
+        this.bucket = bucket;
+        await storage.put(BUCKET_KEY, bucket);
+        await storage.setAlarm(bucket.updatedAt + operation.settings.windowMs);
+        return take satisfies TokenTake;
+      }
+
+      case 'recordRejection': {
+        const stats = (await storage.get<RateLimitStats>(STATS_KEY)) ?? createRateLimitStats();
+        stats.rejected++;
+        stats.byScope[operation.scope]++;
+        stats.lastRejectedAt = new Date().toISOString();
+        await storage.put(STATS_KEY, stats);
+        return stats;
+      }
+
+      case 'getStats':
+        return (await storage.get<RateLimitStats>(STATS_KEY)) ?? createRateLimitStats();
+    }
+  }
+}
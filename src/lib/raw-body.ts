@@ -0,0 +1,169 @@
+// Lossless request body capture
+// Keeps the exact bytes a sender transmitted next to the readable `body` view
+
+import type { RawBody, WebhookRequest } from '@/types/webhook';
+import { downloadBlob } from './utils';
+
+// Bodies larger than this are stored as a separate object when object storage is available
+export const INLINE_RAW_BODY_LIMIT = 64 * 1024;
+
+// Chunk size used when converting bytes to base64, keeps String.fromCharCode arguments bounded
+const BASE64_CHUNK_SIZE = 0x8000;
+
+/**
+ * Decode bytes as UTF-8, returning null when they are not valid UTF-8 text
+ */
+export function decodeUtf8(bytes: Uint8Array): string | null {
+  try {
+    // Keep the BOM so the decoded text re-encodes to the exact same bytes
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encode bytes as base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 into bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Compute the hex SHA-256 digest of bytes
+ */
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Build the readable body view stored in `WebhookRequest.body`.
+ * JSON is pretty-printed and URL-encoded forms are shown as a JSON object; binary bodies get a placeholder.
+ */
+export function buildBodyView(bytes: Uint8Array, contentType: string): string {
+  if (bytes.length === 0) return '';
+
+  const text = decodeUtf8(bytes);
+  if (text === null) {
+    return `[Binary body: ${bytes.length} bytes]`;
+  }
+
+  if (contentType.includes('application/json')) {
+    try {
+      return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      return text;
+    }
+  }
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    const formObject: Record<string, string> = {};
+    new URLSearchParams(text).forEach((value, key) => {
+      formObject[key] = value;
+    });
+    return JSON.stringify(formObject, null, 2);
+  }
+
+  return text;
+}
+
+/**
+ * Describe the exact bytes of a request body.
+ * Pass `objectKey` when the bytes were stored as a separate object instead of inline.
+ */
+export async function buildRawBody(bytes: Uint8Array, bodyView: string, objectKey?: string | null): Promise<RawBody> {
+  const text = decodeUtf8(bytes);
+  const rawBody: RawBody = {
+    encoding: text === null ? 'base64' : 'utf8',
+    sha256: await sha256Hex(bytes),
+  };
+
+  if (objectKey) {
+    rawBody.objectKey = objectKey;
+  } else if (text === null) {
+    rawBody.data = bytesToBase64(bytes);
+  } else if (text !== bodyView) {
+    rawBody.data = text;
+  }
+
+  return rawBody;
+}
+
+/**
+ * Get the exact body bytes available without a server round trip, or null when stored as an object
+ */
+export function getInlineRawBytes(request: WebhookRequest): Uint8Array | null {
+  const rawBody = request.rawBody;
+
+  // Requests captured before raw bodies were stored only have the readable view
+  if (!rawBody) {
+    return new TextEncoder().encode(request.body || '');
+  }
+
+  if (rawBody.objectKey) return null;
+
+  if (rawBody.encoding === 'base64') {
+    return base64ToBytes(rawBody.data || '');
+  }
+
+  return new TextEncoder().encode(rawBody.data ?? request.body);
+}
+
+/**
+ * URL serving the original body bytes of a stored request
+ */
+export function getRawBodyUrl(webhookId: string, requestId: string): string {
+  return `/api/webhook/${webhookId}/requests/${requestId}/raw`;
+}
+
+// Pick a file extension for a downloaded body based on its content type
+function getBodyFileExtension(contentType: string): string {
+  if (contentType.includes('json')) return 'json';
+  if (contentType.includes('xml')) return 'xml';
+  if (contentType.includes('html')) return 'html';
+  if (contentType.includes('text/') || contentType.includes('x-www-form-urlencoded')) return 'txt';
+  return 'bin';
+}
+
+/**
+ * Download the original body bytes of a request
+ */
+export function downloadRawBody(request: WebhookRequest): void {
+  const contentType = request.contentType && request.contentType !== 'unknown'
+    ? request.contentType
+    : 'application/octet-stream';
+  const filename = `request-${request.id.split('-')[0]}.${getBodyFileExtension(contentType)}`;
+  const bytes = getInlineRawBytes(request);
+
+  if (bytes) {
+    downloadBlob(new Blob([bytes], { type: contentType }), filename);
+    return;
+  }
+
+  // Large bodies live in object storage and are served by the API
+  const link = document.createElement('a');
+  link.href = getRawBodyUrl(request.webhookId, request.id);
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
@@ -0,0 +1,82 @@
+// Live updates for the monitoring page
+// Turns storage change sets into RealtimeEvents, and lets writes wake streams served by the same isolate
+// so they read the change right away instead of at their next scheduled check.
+
+import type { RequestChanges } from '@/types/storage';
+import type { RealtimeEvent, RequestRemoval } from '@/types/webhook';
+import { getChangedAt } from './request-changes';
+
+type Listener = () => void;
+
+const listeners = new Map<string, Set<Listener>>();
+
+/**
+ * Call `listener` whenever this isolate changes the stored requests of a webhook. Returns the unsubscribe function.
+ */
+export function subscribeToWebhook(webhookId: string, listener: Listener): () => void {
+  if (!listeners.has(webhookId)) {
+    listeners.set(webhookId, new Set());
+  }
+  listeners.get(webhookId)!.add(listener);
+
+  return () => {
+    const webhookListeners = listeners.get(webhookId);
+    webhookListeners?.delete(listener);
+    if (webhookListeners?.size === 0) {
+      listeners.delete(webhookId);
+    }
+  };
+}
+
+/**
+ * Tell subscribed streams that a webhook's stored requests changed
+ */
+export function notifyWebhookChanged(webhookId: string): void {
+  listeners.get(webhookId)?.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error(`Realtime listener for ${webhookId} failed:`, error);
+    }
+  });
+}
+
+// What a connection has already been sent, so overlapping change sets are not repeated
+export interface RealtimeCursor {
+  requests: Map<string, number>; // Request ID to the change time last sent
+  deletedIds: Set<string>;
+  oldest?: string; // Serialized `oldest` of the last removal sent
+}
+
+export function createRealtimeCursor(): RealtimeCursor {
+  return { requests: new Map(), deletedIds: new Set() };
+}
+
+/**
+ * Events for the part of a change set the connection has not seen yet, oldest change first
+ */
+export function getRealtimeEvents(changes: RequestChanges, cursor: RealtimeCursor): RealtimeEvent[] {
+  const timestamp = new Date();
+  const events: RealtimeEvent[] = [];
+
+  for (const request of [...changes.requests].reverse()) {
+    const changedAt = getChangedAt(request);
+    const sentAt = cursor.requests.get(request.id);
+    if (sentAt === changedAt) continue;
+
+    // Stored requests always carry an update time, so whether the connection saw the request before tells them apart
+    cursor.requests.set(request.id, changedAt);
+    events.push({ type: sentAt === undefined ? 'new_request' : 'request_updated', data: request, timestamp });
+  }
+
+  const deletedIds = changes.deletedIds.filter(id => !cursor.deletedIds.has(id));
+  const oldest = JSON.stringify(changes.oldest);
+  if (deletedIds.length > 0 || oldest !== cursor.oldest) {
+    deletedIds.forEach(id => cursor.deletedIds.add(id));
+    cursor.oldest = oldest;
+    const removal: RequestRemoval = { deletedIds, oldest: changes.oldest };
+    events.push({ type: 'requests_removed', data: removal, timestamp });
+  }
+
+  return events;
+}
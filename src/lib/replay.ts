@@ -0,0 +1,164 @@
+// Request replay - re-sends a captured request, optionally edited, to any URL
+// Replays go through the server so the target does not need to allow CORS
+
+import type { ReplayResult, WebhookRequest } from '@/types/webhook';
+import { DEFAULT_FORWARD_TIMEOUT_MS, getSendableHeaders, sendUpstream } from './forwarding';
+import { generateId, getWebhookSubPath } from './utils';
+
+export const REPLAY_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Replays kept per request; the oldest are dropped first
+export const MAX_STORED_REPLAYS = 20;
+
+// Requests sent by one batch replay from the request list
+export const MAX_BATCH_REPLAY = 100;
+
+// Headers added by the edge or by earlier forwarding, left out of the replay editor
+const EDGE_HEADER_PREFIXES = ['cf-', 'x-forwarded-', 'x-cf-webhook-'];
+const EDGE_HEADERS = new Set(['host', 'content-length', 'cdn-loop', 'x-real-ip', 'connection', 'accept-encoding']);
+
+// What to send; fields left out keep the captured values
+export interface ReplayInput {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string; // Replaces the captured raw body when set
+  batchId?: string;
+}
+
+/**
+ * Captured headers worth re-sending, used to prefill the replay editor
+ */
+export function getReplayableHeaders(request: WebhookRequest): Record<string, string> {
+  const headers: Record<string, string> = {};
+  Object.entries(request.headers).forEach(([key, value]) => {
+    const name = key.toLowerCase();
+    if (EDGE_HEADERS.has(name) || EDGE_HEADER_PREFIXES.some(prefix => name.startsWith(prefix))) return;
+    headers[key] = value;
+  });
+  return headers;
+}
+
+/**
+ * Replay URL for a captured request: base URL + the request's sub-path + its query string
+ */
+export function buildReplayUrl(baseUrl: string, request: WebhookRequest): string {
+  const url = new URL(baseUrl);
+  const subPath = getWebhookSubPath(request.path, request.webhookId);
+
+  if (subPath !== '/') {
+    url.pathname = url.pathname.replace(/\/$/, '') + subPath;
+  }
+  Object.entries(request.queryParams || {}).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+
+  return url.toString();
+}
+
+// Whether two header sets hold the same names and values, ignoring order and name case
+function sameHeaders(a: Record<string, string>, b: Record<string, string>): boolean {
+  const normalize = (headers: Record<string, string>) =>
+    JSON.stringify(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]).sort());
+  return normalize(a) === normalize(b);
+}
+
+// Whether the replayed body is byte-for-byte the captured one
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+/**
+ * Validate a replay request received from the API
+ */
+export function validateReplayInput(input: unknown): {
+  isValid: boolean;
+  errors: string[];
+  value?: ReplayInput;
+} {
+  if (!input || typeof input !== 'object') {
+    return { isValid: false, errors: ['Replay must be an object'] };
+  }
+
+  const raw = input as Partial<ReplayInput>;
+  const errors: string[] = [];
+  const url = typeof raw.url === 'string' ? raw.url.trim() : '';
+
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      errors.push('url must use http or https');
+    }
+  } catch {
+    errors.push('url must be an absolute URL');
+  }
+
+  const method = raw.method === undefined ? undefined : String(raw.method).toUpperCase();
+  if (method !== undefined && !REPLAY_METHODS.includes(method)) {
+    errors.push(`method must be one of ${REPLAY_METHODS.join(', ')}`);
+  }
+
+  if (raw.headers !== undefined) {
+    const valid = raw.headers !== null && typeof raw.headers === 'object' && !Array.isArray(raw.headers) &&
+      Object.values(raw.headers).every(value => typeof value === 'string');
+    if (!valid) {
+      errors.push('headers must be an object of string values');
+    }
+  }
+
+  if (raw.body !== undefined && typeof raw.body !== 'string') {
+    errors.push('body must be a string');
+  }
+
+  if (raw.batchId !== undefined && typeof raw.batchId !== 'string') {
+    errors.push('batchId must be a string');
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    errors,
+    value: { url, method, headers: raw.headers, body: raw.body, batchId: raw.batchId },
+  };
+}
+
+/**
+ * Send a captured request to the given URL.
+ * `rawBytes` are the captured body bytes, used unless the input carries an edited body.
+ */
+export async function replayRequest(request: WebhookRequest, rawBytes: Uint8Array, input: ReplayInput): Promise<ReplayResult> {
+  const method = input.method ?? request.method;
+  const replayable = getReplayableHeaders(request);
+  const headers = getSendableHeaders(input.headers ?? replayable);
+  const body = input.body !== undefined ? new TextEncoder().encode(input.body) : rawBytes;
+
+  const result: ReplayResult = {
+    id: generateId(),
+    url: input.url,
+    method,
+    startedAt: new Date().toISOString(),
+    latencyMs: 0,
+    requestHeaders: {},
+    requestBodySize: method === 'GET' || method === 'HEAD' ? 0 : body.length,
+    edited: method !== request.method ||
+      (input.headers !== undefined && !sameHeaders(input.headers, replayable)) ||
+      !sameBytes(body, rawBytes),
+    batchId: input.batchId,
+  };
+  headers.forEach((value, key) => {
+    result.requestHeaders[key] = value;
+  });
+
+  await sendUpstream(result, headers, body, DEFAULT_FORWARD_TIMEOUT_MS);
+  return result;
+}
+
+/**
+ * Add a replay to a request, dropping the oldest beyond the stored limit
+ */
+export function addReplay(request: WebhookRequest, replay: ReplayResult): WebhookRequest {
+  return { ...request, replays: [...(request.replays || []), replay].slice(-MAX_STORED_REPLAYS) };
+}
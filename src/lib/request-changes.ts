@@ -0,0 +1,107 @@
+// Incremental polling: what changed in a webhook's request history since a client last looked
+// A request changes when it is stored and again whenever its deliveries or replays are updated. Deleting a single
+// request leaves a tombstone; eviction, retention cleanup and clearing only ever remove the oldest requests, so
+// clients learn about those from the oldest request still stored.
+
+import type { RequestChanges } from '@/types/storage';
+import type { WebhookRequest } from '@/types/webhook';
+import { compareRequestOrder, type RequestCursor } from './request-cursor';
+
+// Most changed requests returned at once; beyond this the client reloads the first page instead
+export const MAX_CHANGED_REQUESTS = 100;
+
+// Tombstones kept per webhook, newest last
+export const MAX_TOMBSTONES = 1000;
+
+// Incremental polls look this far back before `since`, so a change stamped by a slightly slower clock is not missed
+export const SINCE_OVERLAP_MS = 5000;
+
+// Record of a request deleted on its own
+export interface Tombstone {
+  id: string;
+  deletedAt: number; // Unix milliseconds
+}
+
+// Anything with the times of a request; they arrive as strings from JSON
+type ChangeTimes = { timestamp: Date | string | number; updatedAt?: Date | string | number; id: string };
+
+/**
+ * When a request last changed: when it was stored or last updated, or its capture time if neither was recorded
+ */
+export function getChangedAt(request: ChangeTimes): number {
+  const captured = new Date(request.timestamp).getTime();
+  return request.updatedAt ? Math.max(captured, new Date(request.updatedAt).getTime()) : captured;
+}
+
+/**
+ * Parse the `since` parameter of the poll API, Unix milliseconds or an ISO date, or null when it is malformed
+ */
+export function parseSince(value: string): Date | null {
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Pick the requests changed after `since` out of a webhook's whole history. Works on request summaries too,
+ * so providers can decide which requests to load from their metadata alone.
+ */
+export function selectChangedRequests<T extends ChangeTimes>(items: T[], since: Date): {
+  changed: T[];
+  oldest: RequestCursor | null;
+  truncated: boolean;
+} {
+  const sorted = [...items].sort(compareRequestOrder);
+  const last = sorted[sorted.length - 1];
+  const changed = sorted.filter(item => getChangedAt(item) > since.getTime());
+
+  return {
+    changed: changed.slice(0, MAX_CHANGED_REQUESTS),
+    oldest: last ? { timestamp: new Date(last.timestamp).getTime(), id: last.id } : null,
+    truncated: changed.length > MAX_CHANGED_REQUESTS,
+  };
+}
+
+/**
+ * Append a tombstone, forgetting the oldest ones beyond MAX_TOMBSTONES
+ */
+export function addTombstone(tombstones: Tombstone[], id: string, deletedAt = Date.now()): Tombstone[] {
+  return [...tombstones, { id, deletedAt }].slice(-MAX_TOMBSTONES);
+}
+
+/**
+ * IDs deleted after `since`. Once the list is full, deletions older than its first entry are forgotten,
+ * so a client that last looked before then has to reload.
+ */
+export function getDeletedSince(tombstones: Tombstone[], since: Date): { deletedIds: string[]; truncated: boolean } {
+  const deletedIds = tombstones.filter(tombstone => tombstone.deletedAt > since.getTime()).map(tombstone => tombstone.id);
+  const truncated = tombstones.length >= MAX_TOMBSTONES && tombstones[0].deletedAt > since.getTime();
+  return { deletedIds, truncated };
+}
+
+/**
+ * Whether a request is older than the oldest one still stored, i.e. was evicted, expired or cleared
+ */
+export function isOlderThan(request: ChangeTimes, oldest: RequestCursor | null): boolean {
+  return !oldest || compareRequestOrder(request, oldest) > 0;
+}
+
+/**
+ * Entity tag of a changes response. It only depends on what changed, not on the exact `since`,
+ * so an idle webhook keeps the same tag from poll to poll.
+ */
+export function getChangesETag(changes: RequestChanges): string {
+  const text = JSON.stringify([
+    changes.requests.map((request: WebhookRequest) => [request.id, getChangedAt(request)]),
+    changes.deletedIds,
+    changes.oldest,
+    changes.truncated,
+  ]);
+
+  // FNV-1a, plenty for telling two polls apart
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `W/"${(hash >>> 0).toString(16)}-${text.length.toString(16)}"`;
+}
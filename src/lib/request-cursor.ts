@@ -0,0 +1,74 @@
+// Opaque cursors for paging through a webhook's requests, newest first
+// A cursor names the last request of a page by capture time and ID, so the next page starts right after it
+// no matter how many requests arrive in between.
+
+export interface RequestCursor {
+  timestamp: number; // Capture time in Unix milliseconds
+  id: string;
+}
+
+// Anything with a capture time and an ID; timestamps arrive as strings from JSON
+type OrderedRequest = { timestamp: Date | string | number; id: string };
+
+function getTime(timestamp: Date | string | number): number {
+  return timestamp instanceof Date ? timestamp.getTime() : new Date(timestamp).getTime();
+}
+
+/**
+ * Encode the position of a request as a URL-safe cursor
+ */
+export function encodeRequestCursor(request: OrderedRequest): string {
+  const bytes = new TextEncoder().encode(`${getTime(request.timestamp)}:${request.id}`);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor from the poll API, or null when it is malformed
+ */
+export function decodeRequestCursor(cursor: string): RequestCursor | null {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const decoded = new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+    const separator = decoded.indexOf(':');
+    const timestamp = Number(decoded.slice(0, separator));
+    const id = decoded.slice(separator + 1);
+
+    if (separator <= 0 || !Number.isSafeInteger(timestamp) || !id) {
+      return null;
+    }
+    return { timestamp, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sort order of request history: newest capture time first, ties broken by descending ID
+ */
+export function compareRequestOrder(a: OrderedRequest | RequestCursor, b: OrderedRequest | RequestCursor): number {
+  const byTime = getTime(b.timestamp) - getTime(a.timestamp);
+  if (byTime !== 0) {
+    return byTime;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/**
+ * Whether a request comes after the cursor, i.e. belongs to a later page
+ */
+export function isAfterCursor(request: OrderedRequest | RequestCursor, cursor?: RequestCursor): boolean {
+  return !cursor || compareRequestOrder(request, cursor) > 0;
+}
+
+/**
+ * Cursor for the page after `requests`, or null when it was the last page
+ */
+export function getNextCursor(requests: OrderedRequest[], limit: number): string | null {
+  if (requests.length < limit || requests.length === 0) {
+    return null;
+  }
+  return encodeRequestCursor(requests[requests.length - 1]);
+}
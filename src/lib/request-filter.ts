@@ -0,0 +1,192 @@
+// Request filtering shared by the poll API, the storage providers and the monitoring page
+// Providers with a query engine translate a RequestFilter into SQL; the others match in memory with these helpers.
+
+import type { HttpMethod, RequestFilter, WebhookRequest } from '@/types/webhook';
+import { HTTP_METHODS } from '@/types/webhook';
+import { getWebhookSubPath } from './utils';
+
+// Longest accepted text filter value
+export const MAX_FILTER_VALUE_LENGTH = 200;
+
+// Requests loaded per round while scanning for matches
+const FILTER_BATCH_SIZE = 50;
+
+// Query parameters of the poll API, keyed by filter field
+const TEXT_PARAMS = {
+  searchTerm: 'q',
+  userAgent: 'userAgent',
+  contentType: 'contentType',
+  ip: 'ip',
+  pathPrefix: 'path',
+} as const;
+
+// Accepts an ISO date or Unix milliseconds
+function parseDateParam(value: string): Date | null {
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read a request filter from poll API query parameters.
+ * Returns no filter when none of the filter parameters are present.
+ */
+export function parseRequestFilter(params: URLSearchParams): {
+  isValid: boolean;
+  errors: string[];
+  value?: RequestFilter;
+} {
+  const errors: string[] = [];
+  const filter: RequestFilter = {};
+
+  const methods = params.get('method');
+  if (methods) {
+    const requested = methods.split(',').map(method => method.trim().toUpperCase()).filter(Boolean);
+    const unknown = requested.filter(method => !HTTP_METHODS.includes(method as HttpMethod));
+    if (unknown.length > 0) {
+      errors.push(`method must be a comma-separated list of: ${HTTP_METHODS.join(', ')}`);
+    } else {
+      filter.method = requested as HttpMethod[];
+    }
+  }
+
+  for (const name of ['from', 'to'] as const) {
+    const value = params.get(name);
+    if (!value) continue;
+
+    const date = parseDateParam(value);
+    if (!date) {
+      errors.push(`${name} must be an ISO date or Unix milliseconds`);
+    } else {
+      filter.dateRange = { ...filter.dateRange, [name === 'from' ? 'start' : 'end']: date };
+    }
+  }
+
+  for (const [field, name] of Object.entries(TEXT_PARAMS) as Array<[keyof typeof TEXT_PARAMS, string]>) {
+    const value = params.get(name)?.trim();
+    if (!value) continue;
+
+    if (value.length > MAX_FILTER_VALUE_LENGTH) {
+      errors.push(`${name} must be at most ${MAX_FILTER_VALUE_LENGTH} characters`);
+    } else {
+      filter[field] = value;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return { isValid: true, errors, value: hasRequestFilter(filter) ? filter : undefined };
+}
+
+/**
+ * Build the poll API query string for a filter, including the leading "?" when not empty
+ */
+export function buildRequestFilterQuery(filter: RequestFilter): string {
+  const params = new URLSearchParams();
+
+  if (filter.method && filter.method.length > 0) {
+    params.set('method', filter.method.join(','));
+  }
+  if (filter.dateRange?.start) {
+    params.set('from', new Date(filter.dateRange.start).toISOString());
+  }
+  if (filter.dateRange?.end) {
+    params.set('to', new Date(filter.dateRange.end).toISOString());
+  }
+  for (const [field, name] of Object.entries(TEXT_PARAMS) as Array<[keyof typeof TEXT_PARAMS, string]>) {
+    const value = filter[field]?.trim();
+    if (value) {
+      params.set(name, value);
+    }
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+export function hasRequestFilter(filter?: RequestFilter): filter is RequestFilter {
+  if (!filter) return false;
+  return Boolean(
+    (filter.method && filter.method.length > 0) ||
+    filter.dateRange?.start ||
+    filter.dateRange?.end ||
+    filter.searchTerm ||
+    filter.userAgent ||
+    filter.contentType ||
+    filter.ip ||
+    filter.pathPrefix
+  );
+}
+
+// Case-insensitive substring check
+function includesText(value: string | undefined, search: string): boolean {
+  return (value || '').toLowerCase().includes(search.toLowerCase());
+}
+
+/**
+ * Whether a request's method and capture time fall within a filter.
+ * Lets providers skip loading requests whose listing metadata already rules them out.
+ */
+export function matchesRequestSummary(summary: { method?: string; timestamp: number }, filter: RequestFilter): boolean {
+  if (filter.method && filter.method.length > 0 && summary.method && !filter.method.includes(summary.method as HttpMethod)) {
+    return false;
+  }
+  // Filters sent to a Durable Object arrive with dates as ISO strings
+  if (filter.dateRange?.start && summary.timestamp < new Date(filter.dateRange.start).getTime()) {
+    return false;
+  }
+  if (filter.dateRange?.end && summary.timestamp > new Date(filter.dateRange.end).getTime()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a request matches every field of a filter, with the same semantics as the D1 query
+ */
+export function matchesRequestFilter(request: WebhookRequest, filter: RequestFilter): boolean {
+  const summary = { method: request.method, timestamp: new Date(request.timestamp).getTime() };
+  if (!matchesRequestSummary(summary, filter)) {
+    return false;
+  }
+  if (filter.searchTerm &&
+    !includesText(JSON.stringify(request.headers || {}), filter.searchTerm) &&
+    !includesText(request.body, filter.searchTerm)) {
+    return false;
+  }
+  if (filter.userAgent && !includesText(request.userAgent, filter.userAgent)) {
+    return false;
+  }
+  if (filter.contentType && !includesText(request.contentType, filter.contentType)) {
+    return false;
+  }
+  if (filter.ip && request.ip !== filter.ip) {
+    return false;
+  }
+  if (filter.pathPrefix &&
+    !getWebhookSubPath(request.path, request.webhookId).toLowerCase().startsWith(filter.pathPrefix.toLowerCase())) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Scan newest-first candidates, loading them in batches, until a page of matches is found.
+ * Used by providers that can only filter after reading each request; candidates start after the page cursor.
+ */
+export async function findMatchingRequests<T>(
+  candidates: T[],
+  load: (batch: T[]) => Promise<WebhookRequest[]>,
+  filter: RequestFilter,
+  limit: number
+): Promise<WebhookRequest[]> {
+  const matches: WebhookRequest[] = [];
+
+  for (let i = 0; i < candidates.length && matches.length < limit; i += FILTER_BATCH_SIZE) {
+    const requests = await load(candidates.slice(i, i + FILTER_BATCH_SIZE));
+    matches.push(...requests.filter(request => matchesRequestFilter(request, filter)));
+  }
+
+  return matches.slice(0, limit);
+}
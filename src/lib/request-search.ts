@@ -0,0 +1,166 @@
+// Full-text request search shared by the search API, the storage providers and the monitoring page
+// D1 ranks matches with its FTS5 index; providers without an index rank substring matches with these helpers.
+
+import type { RequestFilter, RequestSearchResult, SearchSnippetPart, WebhookRequest } from '@/types/webhook';
+
+// Longest accepted search query
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+// Default and largest number of results returned by a search
+export const DEFAULT_SEARCH_RESULTS = 20;
+export const MAX_SEARCH_RESULTS = 100;
+
+// Latest requests scanned by providers without a full-text index
+export const SEARCH_SCAN_LIMIT = 1000;
+
+// Markers the FTS5 snippet() function puts around matched tokens
+export const SNIPPET_MATCH_START = '\u0002';
+export const SNIPPET_MATCH_END = '\u0003';
+
+// Terms beyond this are ignored
+const MAX_SEARCH_TERMS = 10;
+
+// Characters shown before the first match in a substring snippet, and in total
+const SNIPPET_LEAD = 40;
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Split a query into search terms. Every term must match; terms without a letter or digit
+ * are dropped because the full-text tokenizer ignores punctuation.
+ */
+export function getSearchTerms(query: string): string[] {
+  const terms = query
+    .split(/\s+/)
+    .filter(term => /[\p{L}\p{N}]/u.test(term))
+    .map(term => term.toLowerCase());
+  return [...new Set(terms)].slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Validate the `q` parameter of the search API
+ */
+export function validateSearchQuery(query: string | null): {
+  isValid: boolean;
+  errors: string[];
+  value?: string;
+} {
+  const value = query?.trim() || '';
+  const errors: string[] = [];
+
+  if (!value) {
+    errors.push('q is required');
+  } else if (value.length > MAX_SEARCH_QUERY_LENGTH) {
+    errors.push(`q must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`);
+  } else if (getSearchTerms(value).length === 0) {
+    errors.push('q must contain a letter or digit');
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return { isValid: true, errors, value };
+}
+
+/**
+ * FTS5 MATCH expression for a query: each term is quoted so user input cannot inject query syntax,
+ * and the last one matches as a prefix so results follow the user while typing
+ */
+export function buildFtsQuery(query: string): string {
+  const terms = getSearchTerms(query).map(term => `"${term.replace(/"/g, '""')}"`);
+  if (terms.length > 0) {
+    terms[terms.length - 1] += '*';
+  }
+  return terms.join(' ');
+}
+
+/**
+ * Split an FTS5 snippet into plain and highlighted parts
+ */
+export function parseSnippet(snippet: string): SearchSnippetPart[] {
+  const [leading, ...rest] = (snippet || '').split(SNIPPET_MATCH_START);
+  const parts: SearchSnippetPart[] = leading ? [{ text: leading, match: false }] : [];
+
+  for (const chunk of rest) {
+    const [match, after] = chunk.split(SNIPPET_MATCH_END);
+    if (match) parts.push({ text: match, match: true });
+    if (after) parts.push({ text: after, match: false });
+  }
+
+  return parts;
+}
+
+/**
+ * Narrow filter that providers pass to getRequests before ranking, so only plausible candidates are loaded
+ */
+export function getSearchPrefilter(query: string): RequestFilter {
+  const longest = getSearchTerms(query).sort((a, b) => b.length - a.length)[0];
+  return { searchTerm: longest };
+}
+
+// Number of non-overlapping occurrences of a term
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) {
+    count++;
+  }
+  return count;
+}
+
+// Mark every occurrence of the terms in a piece of text
+function highlightTerms(text: string, terms: string[]): SearchSnippetPart[] {
+  const pattern = new RegExp(terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'gi');
+  const parts: SearchSnippetPart[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > last) parts.push({ text: text.slice(last, index), match: false });
+    parts.push({ text: match[0], match: true });
+    last = index + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+
+  return parts;
+}
+
+// Excerpt around the first match, in the same shape as an FTS5 snippet
+function buildSnippet(text: string, terms: string[]): SearchSnippetPart[] {
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index !== -1));
+  const start = Math.max(0, first - SNIPPET_LEAD);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const parts = highlightTerms(text.slice(start, end), terms);
+  if (start > 0) parts.unshift({ text: '…', match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+}
+
+/**
+ * Rank requests that contain every query term in their body or headers, most occurrences first.
+ * Requests with equal scores keep their order, so newest-first input stays newest first.
+ */
+export function rankSearchMatches(requests: WebhookRequest[], query: string, limit: number): RequestSearchResult[] {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const results: RequestSearchResult[] = [];
+  for (const request of requests) {
+    const body = request.body || '';
+    const headers = JSON.stringify(request.headers || {});
+    const text = `${body}\n${headers}`.toLowerCase();
+    if (!terms.every(term => text.includes(term))) continue;
+
+    const bodyMatches = terms.some(term => body.toLowerCase().includes(term));
+    results.push({
+      request,
+      score: terms.reduce((sum, term) => sum + countOccurrences(text, term), 0),
+      snippet: buildSnippet(bodyMatches ? body : headers, terms),
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
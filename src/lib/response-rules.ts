@@ -0,0 +1,244 @@
+// Conditional response rules for the webhook receiver
+// Evaluates an ordered rule list against a captured request and picks the first match
+
+import type {
+  WebhookRequest,
+  ResponseRule,
+  RuleCondition,
+  RuleConditionField,
+  RuleConditionOperator,
+} from '@/types/webhook';
+import { validateMockResponse } from './mock-response';
+import { generateId, getWebhookSubPath } from './utils';
+
+export const RULE_CONDITION_FIELDS: readonly RuleConditionField[] = [
+  'method',
+  'path',
+  'header',
+  'query',
+  'body',
+  'jsonPath',
+] as const;
+
+export const RULE_CONDITION_OPERATORS: readonly RuleConditionOperator[] = [
+  'equals',
+  'notEquals',
+  'contains',
+  'startsWith',
+  'regex',
+  'exists',
+] as const;
+
+// Fields whose condition needs a key (header name, query parameter, JSON path)
+const KEYED_FIELDS = new Set<RuleConditionField>(['header', 'query', 'jsonPath']);
+
+/**
+ * Evaluate a simple JSON path such as `$.type`, `$.data.items[0].id` or `$['x-key']`
+ */
+export function evaluateJsonPath(value: unknown, path: string): unknown {
+  const expression = path.trim().replace(/^\$/, '');
+  const segments: string[] = [];
+  const pattern = /\.([^.[\]]+)|\[(\d+)\]|\[['"]([^'"]+)['"]\]/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(expression)) !== null) {
+    if (match.index !== consumed) return undefined; // Unsupported syntax
+    segments.push(match[1] ?? match[2] ?? match[3]);
+    consumed = pattern.lastIndex;
+  }
+
+  if (consumed !== expression.length) return undefined;
+
+  return segments.reduce<unknown>((current, key) => {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    return (current as Record<string, unknown>)[key];
+  }, value);
+}
+
+// Resolve the request value a condition is evaluated against
+function getConditionSubject(
+  condition: RuleCondition,
+  request: WebhookRequest,
+  getParsedBody: () => unknown
+): string | undefined {
+  switch (condition.field) {
+    case 'method':
+      return request.method;
+    case 'path':
+      // Relative to the webhook URL, so `/events` matches deliveries to `/api/webhook/<id>/events`
+      return getWebhookSubPath(request.path, request.webhookId);
+    case 'header':
+      return request.headers[(condition.key || '').toLowerCase()];
+    case 'query':
+      return request.queryParams[condition.key || ''];
+    case 'body':
+      return request.body;
+    case 'jsonPath': {
+      const value = evaluateJsonPath(getParsedBody(), condition.key || '$');
+      if (value === undefined) return undefined;
+      return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Apply a condition operator to the resolved subject
+function applyOperator(operator: RuleConditionOperator, subject: string | undefined, expected: string): boolean {
+  if (operator === 'exists') {
+    return subject !== undefined;
+  }
+
+  if (subject === undefined) {
+    return operator === 'notEquals';
+  }
+
+  switch (operator) {
+    case 'equals':
+      return subject === expected;
+    case 'notEquals':
+      return subject !== expected;
+    case 'contains':
+      return subject.includes(expected);
+    case 'startsWith':
+      return subject.startsWith(expected);
+    case 'regex':
+      try {
+        return new RegExp(expected).test(subject);
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether every condition of a rule matches the request
+ */
+export function ruleMatches(rule: ResponseRule, request: WebhookRequest): boolean {
+  let parsedBody: unknown;
+  let bodyParsed = false;
+
+  const getParsedBody = () => {
+    if (!bodyParsed) {
+      bodyParsed = true;
+      try {
+        parsedBody = JSON.parse(request.body);
+      } catch {
+        parsedBody = undefined;
+      }
+    }
+    return parsedBody;
+  };
+
+  return rule.conditions.every(condition => {
+    const subject = getConditionSubject(condition, request, getParsedBody);
+    const expected = condition.value ?? '';
+
+    // Methods are compared case-insensitively
+    if (condition.field === 'method' && subject !== undefined) {
+      return applyOperator(condition.operator, subject.toUpperCase(), expected.toUpperCase());
+    }
+
+    return applyOperator(condition.operator, subject, expected);
+  });
+}
+
+/**
+ * Find the first enabled rule matching the request, in list order
+ */
+export function findMatchingRule(rules: ResponseRule[] | undefined, request: WebhookRequest): ResponseRule | null {
+  if (!rules || rules.length === 0) return null;
+  return rules.find(rule => rule.enabled && ruleMatches(rule, request)) || null;
+}
+
+/**
+ * Validate and normalize a rule list received from the API
+ */
+export function validateResponseRules(input: unknown): {
+  isValid: boolean;
+  errors: string[];
+  value?: ResponseRule[];
+} {
+  if (!Array.isArray(input)) {
+    return { isValid: false, errors: ['rules must be an array'] };
+  }
+
+  const errors: string[] = [];
+  const rules: ResponseRule[] = [];
+
+  input.forEach((rawRule, index) => {
+    const label = `Rule ${index + 1}`;
+
+    if (!rawRule || typeof rawRule !== 'object') {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+
+    const raw = rawRule as Partial<ResponseRule>;
+    const conditions: RuleCondition[] = [];
+
+    if (!Array.isArray(raw.conditions)) {
+      errors.push(`${label}: conditions must be an array`);
+    } else {
+      raw.conditions.forEach((rawCondition, conditionIndex) => {
+        const conditionLabel = `${label}, condition ${conditionIndex + 1}`;
+        const condition = rawCondition as Partial<RuleCondition>;
+
+        if (!condition || !RULE_CONDITION_FIELDS.includes(condition.field as RuleConditionField)) {
+          errors.push(`${conditionLabel}: unknown field`);
+          return;
+        }
+
+        if (!RULE_CONDITION_OPERATORS.includes(condition.operator as RuleConditionOperator)) {
+          errors.push(`${conditionLabel}: unknown operator`);
+          return;
+        }
+
+        if (KEYED_FIELDS.has(condition.field as RuleConditionField) && !condition.key?.trim()) {
+          errors.push(`${conditionLabel}: a key is required for ${condition.field} conditions`);
+          return;
+        }
+
+        if (condition.operator === 'regex') {
+          try {
+            new RegExp(condition.value || '');
+          } catch {
+            errors.push(`${conditionLabel}: invalid regular expression`);
+            return;
+          }
+        }
+
+        conditions.push({
+          field: condition.field as RuleConditionField,
+          key: condition.key?.trim() || undefined,
+          operator: condition.operator as RuleConditionOperator,
+          value: condition.value === undefined ? undefined : String(condition.value),
+        });
+      });
+    }
+
+    const response = validateMockResponse({ ...raw.response, enabled: true });
+    if (!response.isValid) {
+      errors.push(...response.errors.map(error => `${label}: ${error}`));
+    }
+
+    rules.push({
+      id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+      name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : label,
+      enabled: raw.enabled !== false,
+      conditions,
+      response: response.value!,
+    });
+  });
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return { isValid: true, errors, value: rules };
+}
@@ -0,0 +1,58 @@
+// Per-webhook retention and capacity overrides
+// Lets long-lived endpoints keep weeks of history while throwaway ones are cleaned up within the hour
+
+import type { RetentionConfig } from '@/types/webhook';
+
+// Upper bound for a retention override, one year
+export const MAX_RETENTION_HOURS = 24 * 365;
+
+// Upper bound for a capacity override
+export const MAX_REQUESTS_OVERRIDE = 10000;
+
+// Read an optional integer setting; empty values clear the override
+function readOptionalNumber(value: unknown): number | undefined {
+  return value === undefined || value === null || value === '' ? undefined : Number(value);
+}
+
+/**
+ * Validate and normalize retention overrides received from the API
+ */
+export function validateRetentionConfig(input: unknown): {
+  isValid: boolean;
+  errors: string[];
+  value?: RetentionConfig;
+} {
+  if (!input || typeof input !== 'object') {
+    return { isValid: false, errors: ['Retention configuration must be an object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const retentionHours = readOptionalNumber(raw.retentionHours);
+  if (retentionHours !== undefined && (!Number.isInteger(retentionHours) || retentionHours < 1 || retentionHours > MAX_RETENTION_HOURS)) {
+    errors.push(`retentionHours must be an integer between 1 and ${MAX_RETENTION_HOURS}`);
+  }
+
+  const maxRequests = readOptionalNumber(raw.maxRequests);
+  if (maxRequests !== undefined && (!Number.isInteger(maxRequests) || maxRequests < 1 || maxRequests > MAX_REQUESTS_OVERRIDE)) {
+    errors.push(`maxRequests must be an integer between 1 and ${MAX_REQUESTS_OVERRIDE}`);
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    errors,
+    value: { retentionHours, maxRequests },
+  };
+}
+
+/**
+ * Whether a webhook overrides any of the server-wide limits
+ */
+export function hasRetentionOverrides(config?: RetentionConfig): boolean {
+  return config?.retentionHours !== undefined || config?.maxRequests !== undefined;
+}
@@ -0,0 +1,38 @@
+// Scheduled retention cleanup and delivery retries - run by the Workers cron triggers configured in wrangler.toml
+
+import { getStorageManager } from '@/lib/storage/storage-manager';
+import { sweepDueDeliveries } from '@/lib/deliveries';
+import type { CleanupRun } from '@/types/storage';
+
+// Cron expression in wrangler.toml that sends due delivery retries; any other trigger runs retention cleanup
+export const DELIVERY_SWEEP_CRON = '* * * * *';
+
+/**
+ * Remove requests older than the retention period from the active storage provider.
+ * Called from the worker's `scheduled` handler with the cron expression that fired.
+ */
+export async function runScheduledCleanup(env: unknown, cron?: string): Promise<CleanupRun> {
+  const storageManager = await getStorageManager({ env });
+  const run = await storageManager.runRetentionCleanup(cron);
+
+  if (run.error) {
+    console.error(`Scheduled cleanup failed after ${run.durationMs}ms:`, run.error);
+  } else {
+    console.log(`Scheduled cleanup removed ${run.deletedCount} requests older than ${run.retentionHours}h in ${run.durationMs}ms`);
+  }
+  return run;
+}
+
+/**
+ * Send forwarding retries that came due across all webhooks.
+ * Called from the worker's `scheduled` handler for DELIVERY_SWEEP_CRON.
+ */
+export async function runScheduledDeliveries(env: unknown): Promise<number> {
+  const storageManager = await getStorageManager({ env });
+  const retried = await sweepDueDeliveries(storageManager);
+
+  if (retried > 0) {
+    console.log(`Scheduled delivery sweep retried ${retried} requests`);
+  }
+  return retried;
+}
@@ -0,0 +1,540 @@
+// Webhook signature verification
+// Recomputes provider signatures from the raw body and compares them with the signature sent by the provider
+
+import type {
+  HmacAlgorithm,
+  HmacEncoding,
+  HmacPayload,
+  HmacVerifierConfig,
+  JwtVerifierConfig,
+  SignatureScheme,
+  SignatureVerificationConfig,
+  VerificationResult,
+  VerificationStatus,
+} from '@/types/webhook';
+import {
+  DEFAULT_HMAC_VERIFIER_CONFIG,
+  DEFAULT_JWT_VERIFIER_CONFIG,
+  DEFAULT_VERIFICATION_CONFIG,
+} from '@/types/webhook';
+import { bytesToBase64, decodeUtf8, sha256Hex } from './raw-body';
+import { decodeJwt, parsePastedKey, verifyJwtSignature } from './jwt';
+
+export interface SignaturePreset {
+  label: string;
+  header: string; // Header carrying the signature
+  secretLabel: string;
+  usesTimestamp: boolean; // Whether the signed payload includes a timestamp checked against the tolerance
+}
+
+export const SIGNATURE_PRESETS: Record<SignatureScheme, SignaturePreset> = {
+  github: { label: 'GitHub', header: 'x-hub-signature-256', secretLabel: 'Webhook secret', usesTimestamp: false },
+  stripe: { label: 'Stripe', header: 'stripe-signature', secretLabel: 'Signing secret (whsec_...)', usesTimestamp: true },
+  slack: { label: 'Slack', header: 'x-slack-signature', secretLabel: 'Signing secret', usesTimestamp: true },
+  shopify: { label: 'Shopify', header: 'x-shopify-hmac-sha256', secretLabel: 'App client secret', usesTimestamp: false },
+  twilio: { label: 'Twilio', header: 'x-twilio-signature', secretLabel: 'Auth token', usesTimestamp: false },
+  hmac: { label: 'Custom HMAC', header: DEFAULT_HMAC_VERIFIER_CONFIG.header, secretLabel: 'Signing secret', usesTimestamp: false },
+  jwt: { label: 'JWT bearer', header: DEFAULT_JWT_VERIFIER_CONFIG.header, secretLabel: 'Public key (PEM, JWK or JWKS) or HS* secret', usesTimestamp: true },
+};
+
+export const SIGNATURE_SCHEMES = Object.keys(SIGNATURE_PRESETS) as SignatureScheme[];
+
+export const HMAC_ALGORITHMS: HmacAlgorithm[] = ['sha1', 'sha256', 'sha512'];
+export const HMAC_ENCODINGS: HmacEncoding[] = ['hex', 'base64'];
+
+export const HMAC_PAYLOADS: { value: HmacPayload; label: string }[] = [
+  { value: 'body', label: 'Body' },
+  { value: 'timestamp-body', label: 'Timestamp + body' },
+  { value: 'url-body', label: 'URL + body' },
+];
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  valid: 'Valid',
+  invalid: 'Invalid',
+  missing: 'Missing',
+  expired: 'Expired',
+  error: 'Error',
+};
+
+// Request data a signature is computed from
+export interface SignedRequest {
+  rawBytes: Uint8Array;
+  headers: Record<string, string>;
+  url: string; // Full URL the provider sent the request to
+  receivedAt: Date;
+}
+
+type HmacHash = 'SHA-1' | 'SHA-256' | 'SHA-512';
+
+const HMAC_HASHES: Record<HmacAlgorithm, HmacHash> = {
+  sha1: 'SHA-1',
+  sha256: 'SHA-256',
+  sha512: 'SHA-512',
+};
+
+const encoder = new TextEncoder();
+
+/**
+ * Compute an HMAC over the given data
+ */
+export async function computeHmac(hash: HmacHash, secret: string, data: Uint8Array): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, data));
+}
+
+/**
+ * Encode bytes as lowercase hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compare two strings in constant time with respect to their content
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Join byte arrays into one
+ */
+export function concatBytes(...chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+}
+
+/**
+ * Header the configured scheme reads its signature from
+ */
+export function getSignatureHeader(config: SignatureVerificationConfig): string {
+  if (config.scheme === 'hmac') return (config.hmac ?? DEFAULT_HMAC_VERIFIER_CONFIG).header;
+  if (config.scheme === 'jwt') return (config.jwt ?? DEFAULT_JWT_VERIFIER_CONFIG).header;
+  return SIGNATURE_PRESETS[config.scheme].header;
+}
+
+/**
+ * Whether the configured scheme checks timestamps against the tolerance
+ */
+export function usesSignedTimestamp(config: SignatureVerificationConfig): boolean {
+  if (config.scheme === 'hmac') return (config.hmac ?? DEFAULT_HMAC_VERIFIER_CONFIG).payload === 'timestamp-body';
+  return SIGNATURE_PRESETS[config.scheme].usesTimestamp;
+}
+
+// Read a timestamp header as Unix seconds; accepts seconds, milliseconds or a date string
+function parseTimestamp(value: string): number | undefined {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const numeric = Number(value);
+    return numeric > 1e12 ? Math.floor(numeric / 1000) : numeric;
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : Math.floor(parsed / 1000);
+}
+
+// Check a signed timestamp against the tolerance window
+function isTimestampExpired(signedAt: number, receivedAt: Date, toleranceSeconds: number): boolean {
+  if (toleranceSeconds <= 0) return false;
+  return Math.abs(receivedAt.getTime() / 1000 - signedAt) > toleranceSeconds;
+}
+
+// GitHub: "sha256=" + hex HMAC-SHA256 of the body
+async function verifyGitHub(config: SignatureVerificationConfig, request: SignedRequest): Promise<VerificationResult> {
+  const header = SIGNATURE_PRESETS.github.header;
+  const received = request.headers[header];
+  if (!received) {
+    return { scheme: 'github', status: 'missing', header, message: `Missing ${header} header` };
+  }
+
+  const computed = `sha256=${bytesToHex(await computeHmac('SHA-256', config.secret, request.rawBytes))}`;
+  return {
+    scheme: 'github',
+    status: timingSafeEqual(received, computed) ? 'valid' : 'invalid',
+    header,
+    received,
+    computed,
+  };
+}
+
+// Stripe: "t=<ts>,v1=<sig>[,v1=<sig>]" where sig is hex HMAC-SHA256 of "<ts>.<body>"
+async function verifyStripe(config: SignatureVerificationConfig, request: SignedRequest): Promise<VerificationResult> {
+  const header = SIGNATURE_PRESETS.stripe.header;
+  const value = request.headers[header];
+  if (!value) {
+    return { scheme: 'stripe', status: 'missing', header, message: `Missing ${header} header` };
+  }
+
+  const pairs = value.split(',').map(pair => pair.trim().split('='));
+  const timestamp = pairs.find(([key]) => key === 't')?.[1];
+  const signatures = pairs.filter(([key]) => key === 'v1').map(([, signature]) => signature);
+
+  if (!timestamp || signatures.length === 0) {
+    return { scheme: 'stripe', status: 'invalid', header, received: value, message: 'Header has no timestamp or v1 signature' };
+  }
+
+  const signedPayload = concatBytes(encoder.encode(`${timestamp}.`), request.rawBytes);
+  const computed = bytesToHex(await computeHmac('SHA-256', config.secret, signedPayload));
+  const signedAt = Number(timestamp);
+  const matches = signatures.some(signature => timingSafeEqual(signature, computed));
+
+  return {
+    scheme: 'stripe',
+    status: !matches ? 'invalid' : isTimestampExpired(signedAt, request.receivedAt, config.toleranceSeconds) ? 'expired' : 'valid',
+    header,
+    received: signatures.join(', '),
+    computed,
+    signedAt,
+  };
+}
+
+// Slack: "v0=" + hex HMAC-SHA256 of "v0:<timestamp>:<body>"
+async function verifySlack(config: SignatureVerificationConfig, request: SignedRequest): Promise<VerificationResult> {
+  const header = SIGNATURE_PRESETS.slack.header;
+  const received = request.headers[header];
+  const timestamp = request.headers['x-slack-request-timestamp'];
+  if (!received || !timestamp) {
+    return { scheme: 'slack', status: 'missing', header, message: `Missing ${received ? 'x-slack-request-timestamp' : header} header` };
+  }
+
+  const signedPayload = concatBytes(encoder.encode(`v0:${timestamp}:`), request.rawBytes);
+  const computed = `v0=${bytesToHex(await computeHmac('SHA-256', config.secret, signedPayload))}`;
+  const signedAt = Number(timestamp);
+  const matches = timingSafeEqual(received, computed);
+
+  return {
+    scheme: 'slack',
+    status: !matches ? 'invalid' : isTimestampExpired(signedAt, request.receivedAt, config.toleranceSeconds) ? 'expired' : 'valid',
+    header,
+    received,
+    computed,
+    signedAt,
+  };
+}
+
+// Shopify: base64 HMAC-SHA256 of the body
+async function verifyShopify(config: SignatureVerificationConfig, request: SignedRequest): Promise<VerificationResult> {
+  const header = SIGNATURE_PRESETS.shopify.header;
+  const received = request.headers[header];
+  if (!received) {
+    return { scheme: 'shopify', status: 'missing', header, message: `Missing ${header} header` };
+  }
+
+  const computed = bytesToBase64(await computeHmac('SHA-256', config.secret, request.rawBytes));
+  return {
+    scheme: 'shopify',
+    status: timingSafeEqual(received, computed) ? 'valid' : 'invalid',
+    header,
+    received,
+    computed,
+  };
+}
+
+// Twilio: base64 HMAC-SHA1 of the URL followed by sorted form parameters.
+// JSON bodies are signed via the URL only and must match its bodySHA256 query parameter.
+async function verifyTwilio(config: SignatureVerificationConfig, request: SignedRequest): Promise<VerificationResult> {
+  const header = SIGNATURE_PRESETS.twilio.header;
+  const received = request.headers[header];
+  if (!received) {
+    return { scheme: 'twilio', status: 'missing', header, message: `Missing ${header} header` };
+  }
+
+  const contentType = request.headers['content-type'] || '';
+  let data = request.url;
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    const params = Array.from(new URLSearchParams(decodeUtf8(request.rawBytes) || '').entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    data += params.map(([key, value]) => `${key}${value}`).join('');
+  }
+
+  const computed = bytesToBase64(await computeHmac('SHA-1', config.secret, encoder.encode(data)));
+  const result: VerificationResult = {
+    scheme: 'twilio',
+    status: timingSafeEqual(received, computed) ? 'valid' : 'invalid',
+    header,
+    received,
+    computed,
+  };
+
+  const bodyHash = new URL(request.url).searchParams.get('bodySHA256');
+  if (result.status === 'valid' && bodyHash && bodyHash !== await sha256Hex(request.rawBytes)) {
+    result.status = 'invalid';
+    result.message = 'Body does not match the bodySHA256 query parameter';
+  }
+
+  return result;
+}
+
+// Custom HMAC: configurable header, algorithm, encoding and signed payload
+async function verifyHmac(config: SignatureVerificationConfig, request: SignedRequest): Promise<VerificationResult> {
+  const hmac = config.hmac ?? DEFAULT_HMAC_VERIFIER_CONFIG;
+  const header = hmac.header;
+  const value = request.headers[header];
+  if (!value) {
+    return { scheme: 'hmac', status: 'missing', header, algorithm: hmac.algorithm, message: `Missing ${header} header` };
+  }
+
+  let prefix: Uint8Array = new Uint8Array();
+  let signedAt: number | undefined;
+
+  if (hmac.payload === 'timestamp-body') {
+    const timestamp = request.headers[hmac.timestampHeader];
+    if (!timestamp) {
+      return { scheme: 'hmac', status: 'missing', header, algorithm: hmac.algorithm, message: `Missing ${hmac.timestampHeader} header` };
+    }
+    signedAt = parseTimestamp(timestamp);
+    prefix = encoder.encode(`${timestamp}${hmac.separator}`);
+  } else if (hmac.payload === 'url-body') {
+    prefix = encoder.encode(`${request.url}${hmac.separator}`);
+  }
+
+  const digest = await computeHmac(HMAC_HASHES[hmac.algorithm], config.secret, concatBytes(prefix, request.rawBytes));
+  const computed = hmac.encoding === 'hex' ? bytesToHex(digest) : bytesToBase64(digest);
+
+  let received = value.trim();
+  if (hmac.prefix && received.startsWith(hmac.prefix)) {
+    received = received.slice(hmac.prefix.length);
+  }
+
+  // Hex digests are compared case-insensitively, base64 is case-sensitive
+  const matches = hmac.encoding === 'hex'
+    ? timingSafeEqual(received.toLowerCase(), computed)
+    : timingSafeEqual(received, computed);
+
+  let status: VerificationResult['status'] = matches ? 'valid' : 'invalid';
+  if (matches && signedAt !== undefined && isTimestampExpired(signedAt, request.receivedAt, config.toleranceSeconds)) {
+    status = 'expired';
+  }
+
+  return {
+    scheme: 'hmac',
+    status,
+    header,
+    received: value,
+    computed: `${hmac.prefix}${computed}`,
+    signedAt,
+    algorithm: hmac.algorithm,
+  };
+}
+
+// JWT bearer: signature checked with the pasted key, then exp/nbf and optional iss/aud claims
+async function verifyJwt(config: SignatureVerificationConfig, request: SignedRequest): Promise<VerificationResult> {
+  const jwtConfig = config.jwt ?? DEFAULT_JWT_VERIFIER_CONFIG;
+  const header = jwtConfig.header;
+  const value = request.headers[header];
+  if (!value) {
+    return { scheme: 'jwt', status: 'missing', header, message: `Missing ${header} header` };
+  }
+
+  const token = value.replace(/^Bearer\s+/i, '').trim();
+  const jwt = decodeJwt(token);
+  const { valid, keyId } = await verifyJwtSignature(jwt, config.secret);
+
+  const result: VerificationResult = {
+    scheme: 'jwt',
+    status: valid ? 'valid' : 'invalid',
+    header,
+    received: jwt.encodedSignature,
+    algorithm: jwt.header.alg,
+    keyId: keyId ?? jwt.header.kid,
+    claims: jwt.payload,
+  };
+
+  if (typeof jwt.payload.iat === 'number') {
+    result.signedAt = jwt.payload.iat;
+  }
+
+  if (!valid) return result;
+
+  // Claims are only checked once the signature is known to be genuine
+  const now = request.receivedAt.getTime() / 1000;
+  const { exp, nbf, iss, aud } = jwt.payload;
+
+  if (typeof exp === 'number' && now > exp + config.toleranceSeconds) {
+    result.status = 'expired';
+    result.message = `Token expired at ${new Date(exp * 1000).toISOString()}`;
+  } else if (typeof nbf === 'number' && now < nbf - config.toleranceSeconds) {
+    result.status = 'expired';
+    result.message = `Token is not valid before ${new Date(nbf * 1000).toISOString()}`;
+  } else if (jwtConfig.issuer && iss !== jwtConfig.issuer) {
+    result.status = 'invalid';
+    result.message = `Issuer "${String(iss ?? '')}" does not match "${jwtConfig.issuer}"`;
+  } else if (jwtConfig.audience && !(Array.isArray(aud) ? aud : [aud]).includes(jwtConfig.audience)) {
+    result.status = 'invalid';
+    result.message = `Audience does not include "${jwtConfig.audience}"`;
+  }
+
+  return result;
+}
+
+const VERIFIERS: Record<SignatureScheme, (config: SignatureVerificationConfig, request: SignedRequest) => Promise<VerificationResult>> = {
+  github: verifyGitHub,
+  stripe: verifyStripe,
+  slack: verifySlack,
+  shopify: verifyShopify,
+  twilio: verifyTwilio,
+  hmac: verifyHmac,
+  jwt: verifyJwt,
+};
+
+/**
+ * Verify a request signature with the configured scheme
+ */
+export async function verifySignature(
+  config: SignatureVerificationConfig,
+  request: SignedRequest
+): Promise<VerificationResult> {
+  try {
+    const result = await VERIFIERS[config.scheme](config, request);
+    if (result.status === 'expired' && !result.message) {
+      result.message = `Signed timestamp is outside the ${config.toleranceSeconds}s tolerance`;
+    }
+    return result;
+  } catch (error) {
+    return {
+      scheme: config.scheme,
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Verification failed',
+    };
+  }
+}
+
+/**
+ * Validate and normalize verification settings received from the API
+ */
+export function validateVerificationConfig(input: unknown): {
+  isValid: boolean;
+  errors: string[];
+  value?: SignatureVerificationConfig;
+} {
+  if (!input || typeof input !== 'object') {
+    return { isValid: false, errors: ['Verification configuration must be an object'] };
+  }
+
+  const raw = input as Partial<SignatureVerificationConfig>;
+  const errors: string[] = [];
+  const scheme = raw.scheme ?? DEFAULT_VERIFICATION_CONFIG.scheme;
+  const toleranceSeconds = Number(raw.toleranceSeconds ?? DEFAULT_VERIFICATION_CONFIG.toleranceSeconds);
+
+  if (!SIGNATURE_SCHEMES.includes(scheme)) {
+    errors.push(`scheme must be one of: ${SIGNATURE_SCHEMES.join(', ')}`);
+  }
+
+  if (raw.secret !== undefined && typeof raw.secret !== 'string') {
+    errors.push('secret must be a string');
+  } else if (raw.enabled && !raw.secret) {
+    errors.push('secret is required when verification is enabled');
+  }
+
+  if (!Number.isInteger(toleranceSeconds) || toleranceSeconds < 0) {
+    errors.push('toleranceSeconds must be a non-negative integer');
+  }
+
+  const hmac = validateHmacVerifierConfig(raw.hmac, errors);
+  const jwt = validateJwtVerifierConfig(raw.jwt, errors);
+
+  // Catch unusable keys when saving rather than on every request
+  if (scheme === 'jwt' && raw.enabled && typeof raw.secret === 'string' && raw.secret) {
+    try {
+      parsePastedKey(raw.secret);
+    } catch (error) {
+      errors.push(`secret: ${error instanceof Error ? error.message : 'invalid key'}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  const value: SignatureVerificationConfig = {
+    enabled: Boolean(raw.enabled),
+    scheme,
+    secret: raw.secret || '',
+    toleranceSeconds,
+  };
+  if (hmac) value.hmac = hmac;
+  if (jwt) value.jwt = jwt;
+
+  return { isValid: true, errors, value };
+}
+
+// Header names are stored lowercase to match the captured headers
+function normalizeHeaderName(value: unknown, field: string, errors: string[]): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`${field} must be a non-empty string`);
+    return '';
+  }
+  return value.trim().toLowerCase();
+}
+
+// Validate custom HMAC settings, collecting problems into `errors`
+function validateHmacVerifierConfig(input: unknown, errors: string[]): HmacVerifierConfig | undefined {
+  if (input === undefined) return undefined;
+  if (!input || typeof input !== 'object') {
+    errors.push('hmac must be an object');
+    return undefined;
+  }
+
+  const raw = { ...DEFAULT_HMAC_VERIFIER_CONFIG, ...(input as Partial<HmacVerifierConfig>) };
+
+  if (!HMAC_ALGORITHMS.includes(raw.algorithm)) {
+    errors.push(`hmac.algorithm must be one of: ${HMAC_ALGORITHMS.join(', ')}`);
+  }
+  if (!HMAC_ENCODINGS.includes(raw.encoding)) {
+    errors.push(`hmac.encoding must be one of: ${HMAC_ENCODINGS.join(', ')}`);
+  }
+  if (!HMAC_PAYLOADS.some(payload => payload.value === raw.payload)) {
+    errors.push(`hmac.payload must be one of: ${HMAC_PAYLOADS.map(payload => payload.value).join(', ')}`);
+  }
+  if (typeof raw.prefix !== 'string' || typeof raw.separator !== 'string') {
+    errors.push('hmac.prefix and hmac.separator must be strings');
+  }
+
+  return {
+    header: normalizeHeaderName(raw.header, 'hmac.header', errors),
+    algorithm: raw.algorithm,
+    encoding: raw.encoding,
+    payload: raw.payload,
+    prefix: raw.prefix,
+    separator: raw.separator,
+    timestampHeader: raw.payload === 'timestamp-body'
+      ? normalizeHeaderName(raw.timestampHeader, 'hmac.timestampHeader', errors)
+      : String(raw.timestampHeader || '').trim().toLowerCase(),
+  };
+}
+
+// Validate JWT settings, collecting problems into `errors`
+function validateJwtVerifierConfig(input: unknown, errors: string[]): JwtVerifierConfig | undefined {
+  if (input === undefined) return undefined;
+  if (!input || typeof input !== 'object') {
+    errors.push('jwt must be an object');
+    return undefined;
+  }
+
+  const raw = { ...DEFAULT_JWT_VERIFIER_CONFIG, ...(input as Partial<JwtVerifierConfig>) };
+
+  if (typeof raw.issuer !== 'string' || typeof raw.audience !== 'string') {
+    errors.push('jwt.issuer and jwt.audience must be strings');
+  }
+
+  return {
+    header: normalizeHeaderName(raw.header, 'jwt.header', errors),
+    issuer: String(raw.issuer).trim(),
+    audience: String(raw.audience).trim(),
+  };
+}
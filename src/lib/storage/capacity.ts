@@ -0,0 +1,78 @@
+// Per-webhook request capacity and retention shared by the storage providers
+// Each provider counts and trims its own storage; these helpers keep the rules identical across them.
+
+import type { StorageConfig, StorageStats, CapacityPolicy } from '@/types/storage';
+import type { WebhookConfig, RetentionConfig } from '@/types/webhook';
+
+// The part of a storage config that decides capacity, small enough to send to a Durable Object
+export type CapacitySettings = Pick<StorageConfig, 'maxRequestsPerWebhook' | 'capacityPolicy'>;
+
+// Capacity and retention in effect for one webhook
+export type WebhookLimits = CapacitySettings & Pick<StorageConfig, 'retentionHours'>;
+
+/**
+ * Apply a webhook's retention overrides to the server-wide limits
+ */
+export function getWebhookLimits(config: WebhookLimits, retention?: RetentionConfig | null): WebhookLimits {
+  return {
+    retentionHours: retention?.retentionHours ?? config.retentionHours,
+    maxRequestsPerWebhook: retention?.maxRequests ?? config.maxRequestsPerWebhook,
+    capacityPolicy: config.capacityPolicy,
+  };
+}
+
+/**
+ * Retention hours of the webhooks that override the server-wide value, keyed by webhook id
+ */
+export function getRetentionOverrides(webhooks: WebhookConfig[]): Map<string, number> {
+  const overrides = new Map<string, number>();
+  for (const webhook of webhooks) {
+    if (webhook.retention?.retentionHours !== undefined) {
+      overrides.set(webhook.id, webhook.retention.retentionHours);
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Timestamp (ms) before which a webhook's requests have expired
+ */
+export function getRetentionCutoff(retentionHours: number, overrides: Map<string, number>, webhookId: string): number {
+  return Date.now() - (overrides.get(webhookId) ?? retentionHours) * 60 * 60 * 1000;
+}
+
+/**
+ * The most requests a webhook may hold, or null when requests are not capped
+ */
+export function getRequestLimit(config: CapacitySettings): number | null {
+  return config.maxRequestsPerWebhook > 0 ? config.maxRequestsPerWebhook : null;
+}
+
+export function getCapacityPolicy(config: CapacitySettings): CapacityPolicy {
+  return config.capacityPolicy === 'reject' ? 'reject' : 'evict';
+}
+
+/**
+ * Whether a webhook already holding `requestCount` requests must refuse the next one
+ */
+export function rejectsNewRequest(config: CapacitySettings, requestCount: number): boolean {
+  const limit = getRequestLimit(config);
+  return limit !== null && getCapacityPolicy(config) === 'reject' && requestCount >= limit;
+}
+
+/**
+ * How many of `requestCount` stored requests to evict, oldest first, to get back under the limit.
+ * Always 0 under the 'reject' policy, which keeps the oldest requests instead.
+ */
+export function getOverflow(config: CapacitySettings, requestCount: number): number {
+  const limit = getRequestLimit(config);
+  return limit !== null && getCapacityPolicy(config) === 'evict' ? Math.max(0, requestCount - limit) : 0;
+}
+
+export function buildCapacityStats(config: CapacitySettings, evictedRequests: number): StorageStats['capacity'] {
+  return {
+    maxRequestsPerWebhook: config.maxRequestsPerWebhook,
+    policy: getCapacityPolicy(config),
+    evictedRequests,
+  };
+}
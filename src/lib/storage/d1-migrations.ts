@@ -0,0 +1,343 @@
+// Versioned schema migrations for the D1 provider
+// Applied versions are recorded in `{prefix}_schema_version`; each migration runs in one D1 batch
+// together with its version row, so it either lands completely or not at all.
+
+// One schema change. Column additions are declared rather than written as SQL so that databases
+// upgraded by the old add-missing-columns initialisation, which may already have them, migrate cleanly.
+export type MigrationStep =
+  | { sql: (prefix: string) => string }
+  | { addColumn: { table: 'requests' | 'configs'; column: string; definition: string } };
+
+export interface D1Migration {
+  version: number;
+  name: string;
+  steps: MigrationStep[];
+}
+
+// Ordered by version; append new migrations at the end and never edit an applied one
+export const D1_MIGRATIONS: D1Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    steps: [
+      { sql: prefix => `CREATE TABLE IF NOT EXISTS ${prefix}_requests (
+        id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        method TEXT NOT NULL,
+        path TEXT NOT NULL,
+        headers TEXT,
+        body TEXT,
+        query_params TEXT,
+        ip TEXT,
+        user_agent TEXT,
+        content_type TEXT,
+        body_size INTEGER,
+        timestamp INTEGER NOT NULL,
+        created_at INTEGER DEFAULT (strftime('%s', 'now'))
+      )` },
+      { sql: prefix => `CREATE TABLE IF NOT EXISTS ${prefix}_configs (
+        id TEXT PRIMARY KEY,
+        name TEXT,
+        url TEXT,
+        is_active INTEGER DEFAULT 1,
+        request_count INTEGER DEFAULT 0,
+        created_at INTEGER DEFAULT (strftime('%s', 'now')),
+        last_request_at INTEGER
+      )` },
+      { sql: prefix => `CREATE INDEX IF NOT EXISTS idx_requests_webhook_timestamp ON ${prefix}_requests(webhook_id, timestamp DESC)` },
+      { sql: prefix => `CREATE INDEX IF NOT EXISTS idx_requests_created_at ON ${prefix}_requests(created_at)` },
+    ],
+  },
+  {
+    version: 2,
+    name: 'response_rules',
+    steps: [
+      { addColumn: { table: 'configs', column: 'response_config', definition: 'TEXT' } },
+      { addColumn: { table: 'configs', column: 'response_rules', definition: 'TEXT' } },
+      { addColumn: { table: 'requests', column: 'matched_rule', definition: 'TEXT' } },
+    ],
+  },
+  {
+    version: 3,
+    name: 'chaos',
+    steps: [
+      { addColumn: { table: 'configs', column: 'chaos_config', definition: 'TEXT' } },
+      { addColumn: { table: 'requests', column: 'chaos', definition: 'TEXT' } },
+    ],
+  },
+  {
+    version: 4,
+    name: 'raw_bodies',
+    steps: [
+      { addColumn: { table: 'requests', column: 'raw_body', definition: 'TEXT' } },
+      { addColumn: { table: 'requests', column: 'parts', definition: 'TEXT' } },
+    ],
+  },
+  {
+    version: 5,
+    name: 'signature_verification',
+    steps: [
+      { addColumn: { table: 'configs', column: 'verification_config', definition: 'TEXT' } },
+      { addColumn: { table: 'requests', column: 'verification', definition: 'TEXT' } },
+    ],
+  },
+  {
+    version: 6,
+    name: 'forwarding_deliveries',
+    steps: [
+      { addColumn: { table: 'configs', column: 'forwarding_config', definition: 'TEXT' } },
+      { addColumn: { table: 'requests', column: 'deliveries', definition: 'TEXT' } },
+    ],
+  },
+  {
+    version: 7,
+    name: 'replays',
+    steps: [
+      { addColumn: { table: 'requests', column: 'replays', definition: 'TEXT' } },
+    ],
+  },
+  {
+    version: 8,
+    name: 'hybrid_content_key',
+    steps: [
+      { addColumn: { table: 'requests', column: 'content_key', definition: 'TEXT' } },
+    ],
+  },
+  {
+    version: 9,
+    name: 'capacity_evictions',
+    steps: [
+      { sql: prefix => `CREATE TABLE IF NOT EXISTS ${prefix}_evictions (
+        webhook_id TEXT PRIMARY KEY,
+        evicted_count INTEGER NOT NULL DEFAULT 0,
+        last_evicted_at INTEGER
+      )` },
+    ],
+  },
+  {
+    version: 10,
+    name: 'cleanup_runs',
+    steps: [
+      { sql: prefix => `CREATE TABLE IF NOT EXISTS ${prefix}_cleanup_runs (
+        id TEXT PRIMARY KEY,
+        started_at INTEGER NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        deleted_count INTEGER NOT NULL,
+        retention_hours INTEGER NOT NULL,
+        cron TEXT,
+        error TEXT
+      )` },
+    ],
+  },
+  {
+    version: 11,
+    name: 'retention_overrides',
+    steps: [
+      { addColumn: { table: 'configs', column: 'retention_config', definition: 'TEXT' } },
+    ],
+  },
+  {
+    version: 12,
+    name: 'request_search',
+    steps: [
+      // External-content FTS5 index over request bodies and headers, kept in sync by triggers
+      { sql: prefix => `CREATE VIRTUAL TABLE IF NOT EXISTS ${prefix}_requests_fts USING fts5(
+        body,
+        headers,
+        content='${prefix}_requests',
+        content_rowid='rowid'
+      )` },
+      { sql: prefix => `CREATE TRIGGER IF NOT EXISTS ${prefix}_requests_fts_insert AFTER INSERT ON ${prefix}_requests BEGIN
+        INSERT INTO ${prefix}_requests_fts (rowid, body, headers) VALUES (new.rowid, new.body, new.headers);
+      END` },
+      { sql: prefix => `CREATE TRIGGER IF NOT EXISTS ${prefix}_requests_fts_delete AFTER DELETE ON ${prefix}_requests BEGIN
+        INSERT INTO ${prefix}_requests_fts (${prefix}_requests_fts, rowid, body, headers) VALUES ('delete', old.rowid, old.body, old.headers);
+      END` },
+      { sql: prefix => `CREATE TRIGGER IF NOT EXISTS ${prefix}_requests_fts_update AFTER UPDATE OF body, headers ON ${prefix}_requests BEGIN
+        INSERT INTO ${prefix}_requests_fts (${prefix}_requests_fts, rowid, body, headers) VALUES ('delete', old.rowid, old.body, old.headers);
+        INSERT INTO ${prefix}_requests_fts (rowid, body, headers) VALUES (new.rowid, new.body, new.headers);
+      END` },
+      // Index the requests stored before this migration
+      { sql: prefix => `INSERT INTO ${prefix}_requests_fts (${prefix}_requests_fts) VALUES ('rebuild')` },
+    ],
+  },
+  {
+    version: 13,
+    name: 'request_cursor_index',
+    steps: [
+      // Cursor pages order by (timestamp, id); the new index covers the old one's columns
+      { sql: prefix => `CREATE INDEX IF NOT EXISTS idx_requests_webhook_timestamp_id ON ${prefix}_requests(webhook_id, timestamp DESC, id DESC)` },
+      { sql: () => 'DROP INDEX IF EXISTS idx_requests_webhook_timestamp' },
+    ],
+  },
+  {
+    version: 14,
+    name: 'request_changes',
+    steps: [
+      // Incremental polls look up requests updated after a point in time, and deletions made since
+      { addColumn: { table: 'requests', column: 'updated_at', definition: 'INTEGER' } },
+      { sql: prefix => `CREATE INDEX IF NOT EXISTS idx_requests_webhook_updated_at ON ${prefix}_requests(webhook_id, updated_at)` },
+      { sql: prefix => `CREATE TABLE IF NOT EXISTS ${prefix}_deletions (
+        webhook_id TEXT NOT NULL,
+        request_id TEXT NOT NULL,
+        deleted_at INTEGER NOT NULL
+      )` },
+      { sql: prefix => `CREATE INDEX IF NOT EXISTS idx_deletions_webhook_deleted_at ON ${prefix}_deletions(webhook_id, deleted_at)` },
+    ],
+  },
+  {
+    version: 15,
+    name: 'request_search_key',
+    steps: [
+      // The search index was keyed on the implicit rowid, which VACUUM may renumber on a table with a TEXT
+      // primary key. Rebuild it on a search_id column: copied from the rowid once, then assigned on insert.
+      { sql: prefix => `DROP TRIGGER IF EXISTS ${prefix}_requests_fts_insert` },
+      { sql: prefix => `DROP TRIGGER IF EXISTS ${prefix}_requests_fts_delete` },
+      { sql: prefix => `DROP TRIGGER IF EXISTS ${prefix}_requests_fts_update` },
+      { sql: prefix => `DROP TABLE IF EXISTS ${prefix}_requests_fts` },
+      { addColumn: { table: 'requests', column: 'search_id', definition: 'INTEGER' } },
+      { sql: prefix => `UPDATE ${prefix}_requests SET search_id = rowid WHERE search_id IS NULL` },
+      { sql: prefix => `CREATE UNIQUE INDEX IF NOT EXISTS idx_requests_search_id ON ${prefix}_requests(search_id)` },
+      { sql: prefix => `CREATE VIRTUAL TABLE IF NOT EXISTS ${prefix}_requests_fts USING fts5(
+        body,
+        headers,
+        content='${prefix}_requests',
+        content_rowid='search_id'
+      )` },
+      { sql: prefix => `CREATE TRIGGER IF NOT EXISTS ${prefix}_requests_fts_insert AFTER INSERT ON ${prefix}_requests BEGIN
+        UPDATE ${prefix}_requests SET search_id = (SELECT COALESCE(MAX(search_id), 0) + 1 FROM ${prefix}_requests) WHERE id = new.id;
+        INSERT INTO ${prefix}_requests_fts (rowid, body, headers)
+          SELECT search_id, body, headers FROM ${prefix}_requests WHERE id = new.id;
+      END` },
+      { sql: prefix => `CREATE TRIGGER IF NOT EXISTS ${prefix}_requests_fts_delete AFTER DELETE ON ${prefix}_requests BEGIN
+        INSERT INTO ${prefix}_requests_fts (${prefix}_requests_fts, rowid, body, headers) VALUES ('delete', old.search_id, old.body, old.headers);
+      END` },
+      { sql: prefix => `CREATE TRIGGER IF NOT EXISTS ${prefix}_requests_fts_update AFTER UPDATE OF body, headers ON ${prefix}_requests BEGIN
+        INSERT INTO ${prefix}_requests_fts (${prefix}_requests_fts, rowid, body, headers) VALUES ('delete', old.search_id, old.body, old.headers);
+        INSERT INTO ${prefix}_requests_fts (rowid, body, headers) VALUES (new.search_id, new.body, new.headers);
+      END` },
+      { sql: prefix => `INSERT INTO ${prefix}_requests_fts (${prefix}_requests_fts) VALUES ('rebuild')` },
+    ],
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = D1_MIGRATIONS[D1_MIGRATIONS.length - 1].version;
+
+export interface PlannedMigration {
+  version: number;
+  name: string;
+  statements: string[]; // SQL that runs, column additions already present are left out
+}
+
+export interface SchemaStatus {
+  currentVersion: number;
+  latestVersion: number;
+  pending: PlannedMigration[];
+}
+
+export interface MigrationResult extends SchemaStatus {
+  dryRun: boolean;
+  applied: PlannedMigration[]; // What ran, or what would run in a dry run
+}
+
+function getVersionTable(prefix: string): string {
+  return `${prefix}_schema_version`;
+}
+
+async function ensureVersionTable(database: D1Database, prefix: string): Promise<void> {
+  await database.prepare(`CREATE TABLE IF NOT EXISTS ${getVersionTable(prefix)} (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at INTEGER NOT NULL
+  )`).run();
+}
+
+// Highest applied version, 0 for a database that has never been migrated
+async function getCurrentVersion(database: D1Database, prefix: string): Promise<number> {
+  const row = await database.prepare(`SELECT MAX(version) as version FROM ${getVersionTable(prefix)}`)
+    .first<{ version: number | null }>();
+  return row?.version || 0;
+}
+
+async function getColumns(database: D1Database, table: string): Promise<Set<string>> {
+  const columns = await database.prepare(`PRAGMA table_info(${table})`).all<{ name: string }>();
+  return new Set(columns.results.map(row => row.name));
+}
+
+// Turn a migration into the SQL it needs against the current schema
+async function planMigration(database: D1Database, prefix: string, migration: D1Migration): Promise<PlannedMigration> {
+  const statements: string[] = [];
+  const columnsByTable = new Map<string, Set<string>>();
+
+  for (const step of migration.steps) {
+    if ('sql' in step) {
+      statements.push(step.sql(prefix));
+      continue;
+    }
+
+    const table = `${prefix}_${step.addColumn.table}`;
+    if (!columnsByTable.has(table)) {
+      columnsByTable.set(table, await getColumns(database, table));
+    }
+    const columns = columnsByTable.get(table)!;
+    if (!columns.has(step.addColumn.column)) {
+      statements.push(`ALTER TABLE ${table} ADD COLUMN ${step.addColumn.column} ${step.addColumn.definition}`);
+      columns.add(step.addColumn.column);
+    }
+  }
+
+  return { version: migration.version, name: migration.name, statements };
+}
+
+/**
+ * Current and pending schema versions, without changing anything but the version table
+ */
+export async function getSchemaStatus(database: D1Database, prefix: string): Promise<SchemaStatus> {
+  await ensureVersionTable(database, prefix);
+  const currentVersion = await getCurrentVersion(database, prefix);
+
+  // Each column is added by exactly one migration, so planning against today's schema is exact
+  const pending: PlannedMigration[] = [];
+  for (const migration of D1_MIGRATIONS.filter(m => m.version > currentVersion)) {
+    pending.push(await planMigration(database, prefix, migration));
+  }
+
+  return { currentVersion, latestVersion: LATEST_SCHEMA_VERSION, pending };
+}
+
+/**
+ * Apply pending migrations in order. With `dryRun` the SQL is only planned.
+ * A migration applied concurrently by another worker is skipped rather than failing.
+ */
+export async function runMigrations(
+  database: D1Database,
+  prefix: string,
+  options: { dryRun?: boolean } = {}
+): Promise<MigrationResult> {
+  if (options.dryRun) {
+    const status = await getSchemaStatus(database, prefix);
+    return { ...status, dryRun: true, applied: status.pending };
+  }
+
+  await ensureVersionTable(database, prefix);
+  const startVersion = await getCurrentVersion(database, prefix);
+  const applied: PlannedMigration[] = [];
+
+  for (const migration of D1_MIGRATIONS.filter(m => m.version > startVersion)) {
+    const planned = await planMigration(database, prefix, migration);
+    try {
+      await database.batch([
+        ...planned.statements.map(sql => database.prepare(sql)),
+        database.prepare(`INSERT INTO ${getVersionTable(prefix)} (version, name, applied_at) VALUES (?, ?, ?)`)
+          .bind(migration.version, migration.name, Date.now()),
+      ]);
+      applied.push(planned);
+    } catch (error) {
+      if (await getCurrentVersion(database, prefix) >= migration.version) continue;
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error}`);
+    }
+  }
+
+  const currentVersion = startVersion >= LATEST_SCHEMA_VERSION ? startVersion : await getCurrentVersion(database, prefix);
+  return { currentVersion, latestVersion: LATEST_SCHEMA_VERSION, pending: [], dryRun: false, applied };
+}
@@ -1,10 +1,15 @@
 // D1 storage provider implementation for CF-Webhook
 // Uses Cloudflare D1 SQLite database for structured data storage
 
-import type { StorageProvider, D1StorageConfig, ProviderInfo, StorageStats, WebhookDistribution, MethodDistribution, SizeDistribution, TimeDistribution } from '@/types/storage';
+import type { StorageProvider, D1StorageConfig, CleanupRun, RequestChanges, ProviderInfo, StorageStats, WebhookDistribution, MethodDistribution, SizeDistribution, TimeDistribution } from '@/types/storage';
 import { StorageError } from '@/types/storage';
-import type { WebhookRequest, WebhookConfig } from '@/types/webhook';
+import type { WebhookRequest, WebhookConfig, RequestFilter, RequestSearchResult } from '@/types/webhook';
+import type { RequestCursor } from '@/lib/request-cursor';
+import { MAX_CHANGED_REQUESTS, MAX_TOMBSTONES, getDeletedSince, type Tombstone } from '@/lib/request-changes';
+import { DEFAULT_SEARCH_RESULTS, SNIPPET_MATCH_START, SNIPPET_MATCH_END, buildFtsQuery, parseSnippet } from '@/lib/request-search';
 import { generateProviderInstanceId, getEnvironment } from './env-helper';
+import { runMigrations } from './d1-migrations';
+import { getCapacityPolicy, getRequestLimit, rejectsNewRequest, buildCapacityStats, getWebhookLimits, type CapacitySettings, type WebhookLimits } from './capacity';
 
 export class D1StorageProvider implements StorageProvider {
   private database: D1Database;
@@ -45,52 +50,17 @@ export class D1StorageProvider implements StorageProvider {
         tablePrefix: this.tablePrefix,
         initialized: this.initialized,
         retentionHours: this.config.retentionHours,
-        maxRequestsPerWebhook: this.config.maxRequestsPerWebhook
+        maxRequestsPerWebhook: this.config.maxRequestsPerWebhook,
+        capacityPolicy: getCapacityPolicy(this.config)
       }
     };
   }
 
-  // Initialize database tables
+  // Initialize database tables by running pending schema migrations
   async initialize(force: boolean = false): Promise<void> {
     try {
-      // Create requests table
-      const createRequestsTableSQL = `CREATE TABLE IF NOT EXISTS ${this.tablePrefix}_requests (
-        id TEXT PRIMARY KEY, 
-        webhook_id TEXT NOT NULL, 
-        method TEXT NOT NULL, 
-        path TEXT NOT NULL, 
-        headers TEXT, 
-        body TEXT, 
-        query_params TEXT, 
-        ip TEXT, 
-        user_agent TEXT, 
-        content_type TEXT, 
-        body_size INTEGER, 
-        timestamp INTEGER NOT NULL, 
-        created_at INTEGER DEFAULT (strftime('%s', 'now'))
-      )`;
-      
-      const requestsResult = await this.database.prepare(createRequestsTableSQL).run();
-
-      // Create webhook configs table  
-      const createConfigsTableSQL = `CREATE TABLE IF NOT EXISTS ${this.tablePrefix}_configs (
-        id TEXT PRIMARY KEY, 
-        name TEXT, 
-        url TEXT, 
-        is_active INTEGER DEFAULT 1, 
-        request_count INTEGER DEFAULT 0, 
-        created_at INTEGER DEFAULT (strftime('%s', 'now')), 
-        last_request_at INTEGER
-      )`;
-      
-      const configsResult = await this.database.prepare(createConfigsTableSQL).run();
-
-      // Create indexes for better performance
-      const createIndex1SQL = `CREATE INDEX IF NOT EXISTS idx_requests_webhook_timestamp ON ${this.tablePrefix}_requests(webhook_id, timestamp DESC)`;
-      const index1Result = await this.database.prepare(createIndex1SQL).run();
-
-      const createIndex2SQL = `CREATE INDEX IF NOT EXISTS idx_requests_created_at ON ${this.tablePrefix}_requests(created_at)`;
-      const index2Result = await this.database.prepare(createIndex2SQL).run();
+      // Bring the schema up to date; a no-op once every migration has been applied
+      await runMigrations(this.database, this.tablePrefix);
 
       // Verify tables were created by querying schema
       const tablesQuery = await this.database.prepare(`
@@ -128,35 +98,139 @@ export class D1StorageProvider implements StorageProvider {
     }
   }
 
+  // Column values of a request row, excluding the id and webhook_id keys
+  private getRequestColumns(request: WebhookRequest): Record<string, unknown> {
+    return {
+      method: request.method,
+      path: request.path,
+      headers: JSON.stringify(request.headers || {}),
+      body: request.body || '',
+      query_params: JSON.stringify(request.queryParams || {}),
+      ip: request.ip || '',
+      user_agent: request.userAgent || '',
+      content_type: request.contentType || '',
+      body_size: request.bodySize || 0,
+      timestamp: request.timestamp.getTime(),
+      matched_rule: request.matchedRule ? JSON.stringify(request.matchedRule) : null,
+      chaos: request.chaos ? JSON.stringify(request.chaos) : null,
+      raw_body: request.rawBody ? JSON.stringify(request.rawBody) : null,
+      parts: request.parts ? JSON.stringify(request.parts) : null,
+      verification: request.verification ? JSON.stringify(request.verification) : null,
+      deliveries: request.deliveries ? JSON.stringify(request.deliveries) : null,
+      replays: request.replays ? JSON.stringify(request.replays) : null,
+      content_key: request.contentKey || null,
+      updated_at: request.updatedAt ? request.updatedAt.getTime() : null,
+    };
+  }
+
+  /**
+   * Insert a single request row without evicting anything. Under the reject policy in `limits` the row is only
+   * inserted while the webhook holds fewer than its limit, counted in the same statement so concurrent saves cannot
+   * both take the last slot. Returns false when the webhook was full.
+   */
+  async insertRequest(webhookId: string, request: WebhookRequest, limits?: WebhookLimits): Promise<boolean> {
+    const columns = this.getRequestColumns(request);
+    const names = Object.keys(columns);
+    const values = [request.id, webhookId, ...Object.values(columns)];
+    const limit = limits && getCapacityPolicy(limits) === 'reject' ? getRequestLimit(limits) : null;
+
+    if (limit === null) {
+      await this.database.prepare(`
+        INSERT INTO ${this.tablePrefix}_requests (
+          id, webhook_id, ${names.join(', ')}
+        ) VALUES (?, ?, ${names.map(() => '?').join(', ')})
+      `).bind(...values).run();
+      return true;
+    }
+
+    const result = await this.database.prepare(`
+      INSERT INTO ${this.tablePrefix}_requests (
+        id, webhook_id, ${names.join(', ')}
+      )
+      SELECT ?, ?, ${names.map(() => '?').join(', ')}
+      WHERE (SELECT COUNT(*) FROM ${this.tablePrefix}_requests WHERE webhook_id = ?) < ?
+    `).bind(...values, webhookId, limit).run();
+    return result.meta.changes > 0;
+  }
+
+  // Number of requests stored for a webhook
+  async countRequests(webhookId: string): Promise<number> {
+    const row = await this.database.prepare(`
+      SELECT COUNT(*) as count FROM ${this.tablePrefix}_requests WHERE webhook_id = ?
+    `).bind(webhookId).first<{ count: number }>();
+    return row?.count || 0;
+  }
+
+  /**
+   * Evict the oldest requests of a webhook beyond the configured limit and record how many went. Returns the
+   * evicted rows so callers holding other data outside D1 (the hybrid provider) can delete it.
+   */
+  async trimRequests(webhookId: string, config: CapacitySettings = this.config): Promise<Array<{ id: string; contentKey?: string }>> {
+    const limit = getRequestLimit(config);
+    if (limit === null || getCapacityPolicy(config) !== 'evict') {
+      return [];
+    }
+
+    const result = await this.database.prepare(`
+      DELETE FROM ${this.tablePrefix}_requests
+      WHERE webhook_id = ? AND id NOT IN (
+        SELECT id FROM ${this.tablePrefix}_requests
+        WHERE webhook_id = ?
+        ORDER BY timestamp DESC, id DESC
+        LIMIT ?
+      )
+      RETURNING id, content_key
+    `).bind(webhookId, webhookId, limit).all<{ id: string; content_key: string | null }>();
+
+    const evicted = result.results.map(row => ({ id: row.id, contentKey: row.content_key || undefined }));
+    if (evicted.length > 0) {
+      await this.database.prepare(`
+        INSERT INTO ${this.tablePrefix}_evictions (webhook_id, evicted_count, last_evicted_at)
+        VALUES (?, ?, ?)
+        ON CONFLICT(webhook_id) DO UPDATE SET
+          evicted_count = evicted_count + excluded.evicted_count,
+          last_evicted_at = excluded.last_evicted_at
+      `).bind(webhookId, evicted.length, Date.now()).run();
+    }
+    return evicted;
+  }
+
+  /**
+   * Limits in effect for a webhook: `config` with the webhook's retention overrides applied.
+   * Reads only the override column so saves do not pay for loading the whole config.
+   */
+  async getLimits(webhookId: string, config: WebhookLimits = this.config): Promise<WebhookLimits> {
+    const row = await this.database.prepare(`
+      SELECT retention_config FROM ${this.tablePrefix}_configs WHERE id = ?
+    `).bind(webhookId).first<{ retention_config: string | null }>();
+    return getWebhookLimits(config, row?.retention_config ? JSON.parse(row.retention_config) : null);
+  }
+
+  // Total requests evicted across all webhooks
+  async getEvictedCount(): Promise<number> {
+    const row = await this.database.prepare(`
+      SELECT COALESCE(SUM(evicted_count), 0) as evicted FROM ${this.tablePrefix}_evictions
+    `).first<{ evicted: number }>();
+    return row?.evicted || 0;
+  }
+
   // Request operations
-  async saveRequest(webhookId: string, request: WebhookRequest): Promise<void> {
+  async saveRequest(webhookId: string, request: WebhookRequest): Promise<string[]> {
     try {
       // Ensure tables are initialized before any operation
       await this.ensureInitialized();
       
-      const stmt = this.database.prepare(`
-        INSERT INTO ${this.tablePrefix}_requests (
-          id, webhook_id, method, path, headers, body, query_params, 
-          ip, user_agent, content_type, body_size, timestamp
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `);
-
-      await stmt.bind(
-        request.id,
-        webhookId,
-        request.method,
-        request.path,
-        JSON.stringify(request.headers || {}),
-        request.body || '',
-        JSON.stringify(request.queryParams || {}),
-        request.ip || '',
-        request.userAgent || '',
-        request.contentType || '',
-        request.bodySize || 0,
-        request.timestamp.getTime()
-      ).run();
+      const limits = await this.getLimits(webhookId);
+      if (!(await this.insertRequest(webhookId, request, limits))) {
+        throw StorageError.capacityExceeded('d1', webhookId, limits.maxRequestsPerWebhook);
+      }
+      return (await this.trimRequests(webhookId, limits)).map(evicted => evicted.id);
 
     } catch (error) {
+      if (error instanceof StorageError && error.isCapacityError()) {
+        throw error;
+      }
+      
       // If it's a table doesn't exist error, try to initialize and retry once
       if (error instanceof Error && error.message.includes('no such table')) {
         this.initialized = false;
@@ -164,29 +238,15 @@ export class D1StorageProvider implements StorageProvider {
         
         // Retry the operation once
         try {
-          const stmt = this.database.prepare(`
-            INSERT INTO ${this.tablePrefix}_requests (
-              id, webhook_id, method, path, headers, body, query_params, 
-              ip, user_agent, content_type, body_size, timestamp
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-          `);
-
-          await stmt.bind(
-            request.id,
-            webhookId,
-            request.method,
-            request.path,
-            JSON.stringify(request.headers || {}),
-            request.body || '',
-            JSON.stringify(request.queryParams || {}),
-            request.ip || '',
-            request.userAgent || '',
-            request.contentType || '',
-            request.bodySize || 0,
-            request.timestamp.getTime()
-          ).run();
-
+          const limits = await this.getLimits(webhookId);
+          if (!(await this.insertRequest(webhookId, request, limits))) {
+            throw StorageError.capacityExceeded('d1', webhookId, limits.maxRequestsPerWebhook);
+          }
+          return (await this.trimRequests(webhookId, limits)).map(evicted => evicted.id);
         } catch (retryError) {
+          if (retryError instanceof StorageError && retryError.isCapacityError()) {
+            throw retryError;
+          }
           throw new StorageError(`Failed to save request after retry: ${retryError}`, 'd1');
         }
       } else {
@@ -195,23 +255,212 @@ export class D1StorageProvider implements StorageProvider {
     }
   }
 
-  async getRequests(webhookId: string, limit = 100, offset = 0): Promise<WebhookRequest[]> {
+  async canAcceptRequest(webhookId: string): Promise<boolean> {
+    try {
+      await this.ensureInitialized();
+      return !rejectsNewRequest(await this.getLimits(webhookId), await this.countRequests(webhookId));
+    } catch (error) {
+      throw new StorageError(`Failed to check capacity: ${error}`, 'd1');
+    }
+  }
+
+  async getRequests(webhookId: string, limit = 100, cursor?: RequestCursor, filter?: RequestFilter): Promise<WebhookRequest[]> {
+    try {
+      return await this.queryRequests(webhookId, limit, cursor, filter);
+    } catch (error) {
+      throw new StorageError(`Failed to get requests: ${error}`, 'd1');
+    }
+  }
+
+  /**
+   * Newest-first requests of a webhook after `cursor` matching `filter`; a negative `limit` returns all of them.
+   * With `includeOffloaded` a search term also keeps rows whose headers and body live outside D1,
+   * so the hybrid provider can check their content itself.
+   */
+  async queryRequests(
+    webhookId: string,
+    limit: number,
+    cursor?: RequestCursor,
+    filter?: RequestFilter,
+    includeOffloaded = false
+  ): Promise<WebhookRequest[]> {
+    // Ensure tables are initialized before any operation
+    await this.ensureInitialized();
+
+    const { clauses, params } = this.buildFilterClauses(webhookId, filter, includeOffloaded);
+    if (cursor) {
+      // Keyset pagination: rows strictly after the cursor in (timestamp, id) order
+      clauses.push('(timestamp < ? OR (timestamp = ? AND id < ?))');
+      params.push(cursor.timestamp, cursor.timestamp, cursor.id);
+    }
+
+    const stmt = this.database.prepare(`
+      SELECT * FROM ${this.tablePrefix}_requests 
+      WHERE ${['webhook_id = ?', ...clauses].join(' AND ')}
+      ORDER BY timestamp DESC, id DESC 
+      LIMIT ?
+    `);
+
+    const result = await stmt.bind(webhookId, ...params, limit).all();
+    
+    return result.results.map(row => this.rowToWebhookRequest(row as any));
+  }
+
+  // SQL conditions for a request filter; LIKE is case-insensitive for ASCII, matching the in-memory filter
+  private buildFilterClauses(
+    webhookId: string,
+    filter: RequestFilter | undefined,
+    includeOffloaded: boolean
+  ): { clauses: string[]; params: unknown[] } {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (!filter) {
+      return { clauses, params };
+    }
+
+    // Escape LIKE wildcards so filter values match literally
+    const like = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+    if (filter.method && filter.method.length > 0) {
+      clauses.push(`method IN (${filter.method.map(() => '?').join(', ')})`);
+      params.push(...filter.method);
+    }
+    if (filter.dateRange?.start) {
+      clauses.push('timestamp >= ?');
+      params.push(new Date(filter.dateRange.start).getTime());
+    }
+    if (filter.dateRange?.end) {
+      clauses.push('timestamp <= ?');
+      params.push(new Date(filter.dateRange.end).getTime());
+    }
+    if (filter.searchTerm) {
+      const offloaded = includeOffloaded ? ' OR content_key IS NOT NULL' : '';
+      clauses.push(`(headers LIKE ? ESCAPE '\\' OR body LIKE ? ESCAPE '\\'${offloaded})`);
+      params.push(`%${like(filter.searchTerm)}%`, `%${like(filter.searchTerm)}%`);
+    }
+    if (filter.userAgent) {
+      clauses.push(`user_agent LIKE ? ESCAPE '\\'`);
+      params.push(`%${like(filter.userAgent)}%`);
+    }
+    if (filter.contentType) {
+      clauses.push(`content_type LIKE ? ESCAPE '\\'`);
+      params.push(`%${like(filter.contentType)}%`);
+    }
+    if (filter.ip) {
+      clauses.push('ip = ?');
+      params.push(filter.ip);
+    }
+    if (filter.pathPrefix) {
+      // Paths are stored in full; the prefix is relative to the webhook URL
+      clauses.push(`path LIKE ? ESCAPE '\\'`);
+      params.push(`${like(`/api/webhook/${webhookId}${filter.pathPrefix}`)}%`);
+    }
+
+    return { clauses, params };
+  }
+
+  async searchRequests(webhookId: string, query: string, limit = DEFAULT_SEARCH_RESULTS): Promise<RequestSearchResult[]> {
+    try {
+      await this.ensureInitialized();
+
+      const match = buildFtsQuery(query);
+      if (!match) {
+        return [];
+      }
+
+      // bm25 rank is lower for better matches; the snippet comes from whichever column matched best
+      const fts = `${this.tablePrefix}_requests_fts`;
+      const result = await this.database.prepare(`
+        SELECT r.*, ${fts}.rank AS search_rank, snippet(${fts}, -1, ?, ?, '…', 24) AS search_snippet
+        FROM ${fts}
+        JOIN ${this.tablePrefix}_requests r ON r.search_id = ${fts}.rowid
+        WHERE ${fts} MATCH ? AND r.webhook_id = ?
+        ORDER BY ${fts}.rank
+        LIMIT ?
+      `).bind(SNIPPET_MATCH_START, SNIPPET_MATCH_END, match, webhookId, limit).all();
+
+      return result.results.map(row => ({
+        request: this.rowToWebhookRequest(row as any),
+        score: -Number((row as any).search_rank),
+        snippet: parseSnippet(String((row as any).search_snippet || '')),
+      }));
+    } catch (error) {
+      throw new StorageError(`Failed to search requests: ${error}`, 'd1');
+    }
+  }
+
+  async getRequestChanges(webhookId: string, since: Date): Promise<RequestChanges> {
+    try {
+      await this.ensureInitialized();
+
+      // One row past the limit tells whether more changed than a response can carry
+      const after = since.getTime();
+      const [changed, oldest, deletions] = await this.database.batch([
+        this.database.prepare(`
+          SELECT * FROM ${this.tablePrefix}_requests
+          WHERE webhook_id = ? AND (timestamp > ? OR updated_at > ?)
+          ORDER BY timestamp DESC, id DESC
+          LIMIT ?
+        `).bind(webhookId, after, after, MAX_CHANGED_REQUESTS + 1),
+        this.database.prepare(`
+          SELECT timestamp, id FROM ${this.tablePrefix}_requests
+          WHERE webhook_id = ?
+          ORDER BY timestamp ASC, id ASC
+          LIMIT 1
+        `).bind(webhookId),
+        this.database.prepare(`
+          SELECT request_id, deleted_at FROM ${this.tablePrefix}_deletions
+          WHERE webhook_id = ?
+          ORDER BY deleted_at ASC
+        `).bind(webhookId),
+      ]);
+
+      const oldestRow = oldest.results[0] as { timestamp: number; id: string } | undefined;
+      const tombstones = (deletions.results as Array<{ request_id: string; deleted_at: number }>)
+        .map((row): Tombstone => ({ id: row.request_id, deletedAt: row.deleted_at }));
+      const deleted = getDeletedSince(tombstones, since);
+
+      return {
+        requests: changed.results.slice(0, MAX_CHANGED_REQUESTS).map(row => this.rowToWebhookRequest(row as any)),
+        deletedIds: deleted.deletedIds,
+        oldest: oldestRow ? { timestamp: oldestRow.timestamp, id: oldestRow.id } : null,
+        truncated: changed.results.length > MAX_CHANGED_REQUESTS || deleted.truncated,
+      };
+    } catch (error) {
+      throw new StorageError(`Failed to get request changes: ${error}`, 'd1');
+    }
+  }
+
+  async getRequest(webhookId: string, requestId: string): Promise<WebhookRequest | null> {
     try {
-      // Ensure tables are initialized before any operation
       await this.ensureInitialized();
       
-      const stmt = this.database.prepare(`
+      const row = await this.database.prepare(`
         SELECT * FROM ${this.tablePrefix}_requests 
-        WHERE webhook_id = ? 
-        ORDER BY timestamp DESC 
-        LIMIT ? OFFSET ?
-      `);
+        WHERE webhook_id = ? AND id = ?
+      `).bind(webhookId, requestId).first();
+      
+      return row ? this.rowToWebhookRequest(row as any) : null;
+    } catch (error) {
+      throw new StorageError(`Failed to get request: ${error}`, 'd1');
+    }
+  }
 
-      const result = await stmt.bind(webhookId, limit, offset).all();
+  async updateRequest(webhookId: string, request: WebhookRequest): Promise<boolean> {
+    try {
+      await this.ensureInitialized();
       
-      return result.results.map(row => this.rowToWebhookRequest(row as any));
+      const columns = this.getRequestColumns(request);
+      const stmt = this.database.prepare(`
+        UPDATE ${this.tablePrefix}_requests 
+        SET ${Object.keys(columns).map(name => `${name} = ?`).join(', ')}
+        WHERE webhook_id = ? AND id = ?
+      `);
+      
+      const result = await stmt.bind(...Object.values(columns), webhookId, request.id).run();
+      return Boolean(result.meta?.changes && result.meta.changes > 0);
     } catch (error) {
-      throw new StorageError(`Failed to get requests: ${error}`, 'd1');
+      throw new StorageError(`Failed to update request: ${error}`, 'd1');
     }
   }
 
@@ -225,6 +474,7 @@ export class D1StorageProvider implements StorageProvider {
       const result = await stmt.bind(webhookId, requestId).run();
       
       if (result.success && result.meta?.changes && result.meta.changes > 0) {
+        await this.recordDeletion(webhookId, requestId);
         return true;
       }
       return false;
@@ -234,6 +484,24 @@ export class D1StorageProvider implements StorageProvider {
     }
   }
 
+  // Tombstone for incremental polls, keeping only the newest MAX_TOMBSTONES per webhook
+  private async recordDeletion(webhookId: string, requestId: string): Promise<void> {
+    await this.database.batch([
+      this.database.prepare(`
+        INSERT INTO ${this.tablePrefix}_deletions (webhook_id, request_id, deleted_at) VALUES (?, ?, ?)
+      `).bind(webhookId, requestId, Date.now()),
+      this.database.prepare(`
+        DELETE FROM ${this.tablePrefix}_deletions
+        WHERE webhook_id = ? AND rowid NOT IN (
+          SELECT rowid FROM ${this.tablePrefix}_deletions
+          WHERE webhook_id = ?
+          ORDER BY deleted_at DESC
+          LIMIT ?
+        )
+      `).bind(webhookId, webhookId, MAX_TOMBSTONES),
+    ]);
+  }
+
   async clearRequests(webhookId: string): Promise<void> {
     try {
       const stmt = this.database.prepare(`
@@ -241,6 +509,9 @@ export class D1StorageProvider implements StorageProvider {
       `);
 
       const result = await stmt.bind(webhookId).run();
+      await this.database.prepare(`
+        DELETE FROM ${this.tablePrefix}_deletions WHERE webhook_id = ?
+      `).bind(webhookId).run();
     } catch (error) {
       throw new StorageError(`Failed to clear requests: ${error}`, 'd1');
     }
@@ -254,8 +525,8 @@ export class D1StorageProvider implements StorageProvider {
       
       const stmt = this.database.prepare(`
         INSERT OR REPLACE INTO ${this.tablePrefix}_configs (
-          id, name, url, is_active, request_count, created_at, last_request_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+          id, name, url, is_active, request_count, created_at, last_request_at, response_config, response_rules, chaos_config, verification_config, forwarding_config, retention_config
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       await stmt.bind(
@@ -264,8 +535,14 @@ export class D1StorageProvider implements StorageProvider {
         config.url || '',
         config.isActive ? 1 : 0,
         config.requestCount || 0,
-        config.createdAt.getTime(),
-        config.lastRequestAt ? config.lastRequestAt.getTime() : null
+        Math.floor(new Date(config.createdAt).getTime() / 1000), // Stored as Unix timestamp
+        config.lastRequestAt ? Math.floor(new Date(config.lastRequestAt).getTime() / 1000) : null,
+        config.response ? JSON.stringify(config.response) : null,
+        config.rules ? JSON.stringify(config.rules) : null,
+        config.chaos ? JSON.stringify(config.chaos) : null,
+        config.verification ? JSON.stringify(config.verification) : null,
+        config.forwarding ? JSON.stringify(config.forwarding) : null,
+        config.retention ? JSON.stringify(config.retention) : null
       ).run();
 
     } catch (error) {
@@ -287,8 +564,7 @@ export class D1StorageProvider implements StorageProvider {
 
       return this.rowToWebhookConfig(result as any);
     } catch (error) {
-      console.error(`Failed to get webhook config: ${error}`);
-      return null;
+      throw new StorageError(`Failed to get webhook config: ${error}`, 'd1');
     }
   }
 
@@ -328,23 +604,85 @@ export class D1StorageProvider implements StorageProvider {
   // Cleanup operations
   async cleanupExpiredRequests(retentionHours: number): Promise<number> {
     try {
-      const cutoffTime = Date.now() - (retentionHours * 60 * 60 * 1000);
-      
-      const stmt = this.database.prepare(`
-        DELETE FROM ${this.tablePrefix}_requests 
-        WHERE timestamp < ?
-      `);
-
-      const result = await stmt.bind(cutoffTime).run();
-      
-      const deletedCount = result.meta?.changes || 0;
-      return deletedCount;
+      const expired = await this.deleteExpiredRequests(retentionHours);
+      return expired.length;
     } catch (error) {
       console.error(`Failed to cleanup expired requests: ${error}`);
       return 0;
     }
   }
 
+  /**
+   * Delete requests older than their webhook's retention, `retentionHours` unless the webhook overrides it.
+   * Returns the deleted rows so the hybrid provider can remove their content objects.
+   */
+  async deleteExpiredRequests(retentionHours: number): Promise<Array<{ id: string; contentKey?: string }>> {
+    await this.ensureInitialized();
+
+    const result = await this.database.prepare(`
+      DELETE FROM ${this.tablePrefix}_requests
+      WHERE timestamp < ? - COALESCE((
+        SELECT json_extract(c.retention_config, '$.retentionHours')
+        FROM ${this.tablePrefix}_configs c
+        WHERE c.id = ${this.tablePrefix}_requests.webhook_id
+      ), ?) * 3600000
+      RETURNING id, content_key
+    `).bind(Date.now(), retentionHours).all<{ id: string; content_key: string | null }>();
+
+    return result.results.map(row => ({ id: row.id, contentKey: row.content_key || undefined }));
+  }
+
+  // Only the latest run is kept, as the single 'last' row
+  async saveCleanupRun(run: CleanupRun): Promise<void> {
+    try {
+      await this.ensureInitialized();
+
+      await this.database.prepare(`
+        INSERT OR REPLACE INTO ${this.tablePrefix}_cleanup_runs (
+          id, started_at, duration_ms, deleted_count, retention_hours, cron, error
+        ) VALUES ('last', ?, ?, ?, ?, ?, ?)
+      `).bind(
+        run.startedAt.getTime(),
+        run.durationMs,
+        run.deletedCount,
+        run.retentionHours,
+        run.cron || null,
+        run.error || null
+      ).run();
+    } catch (error) {
+      throw new StorageError(`Failed to save cleanup run: ${error}`, 'd1');
+    }
+  }
+
+  async getLastCleanupRun(): Promise<CleanupRun | null> {
+    try {
+      await this.ensureInitialized();
+
+      const row = await this.database.prepare(`
+        SELECT * FROM ${this.tablePrefix}_cleanup_runs WHERE id = 'last'
+      `).first<{
+        started_at: number;
+        duration_ms: number;
+        deleted_count: number;
+        retention_hours: number;
+        cron: string | null;
+        error: string | null;
+      }>();
+
+      return row ? {
+        startedAt: new Date(row.started_at),
+        durationMs: row.duration_ms,
+        deletedCount: row.deleted_count,
+        retentionHours: row.retention_hours,
+        cron: row.cron || undefined,
+        error: row.error || undefined,
+      } : null;
+    } catch (error) {
+      console.error(`Failed to get last cleanup run: ${error}`);
+      return null;
+    }
+  }
+
   // Health check
   async isHealthy(): Promise<boolean> {
     try {
@@ -372,6 +710,15 @@ export class D1StorageProvider implements StorageProvider {
       userAgent: row.user_agent || undefined,
       contentType: row.content_type || undefined,
       bodySize: row.body_size || 0,
+      matchedRule: row.matched_rule ? JSON.parse(row.matched_rule) : undefined,
+      chaos: row.chaos ? JSON.parse(row.chaos) : undefined,
+      rawBody: row.raw_body ? JSON.parse(row.raw_body) : undefined,
+      parts: row.parts ? JSON.parse(row.parts) : undefined,
+      verification: row.verification ? JSON.parse(row.verification) : undefined,
+      deliveries: row.deliveries ? JSON.parse(row.deliveries) : undefined,
+      replays: row.replays ? JSON.parse(row.replays) : undefined,
+      contentKey: row.content_key || undefined,
+      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
     };
   }
 
@@ -384,6 +731,12 @@ export class D1StorageProvider implements StorageProvider {
       requestCount: row.request_count || 0,
       createdAt: new Date(row.created_at * 1000), // Convert from Unix timestamp
       lastRequestAt: row.last_request_at ? new Date(row.last_request_at * 1000) : undefined,
+      response: row.response_config ? JSON.parse(row.response_config) : undefined,
+      rules: row.response_rules ? JSON.parse(row.response_rules) : undefined,
+      chaos: row.chaos_config ? JSON.parse(row.chaos_config) : undefined,
+      verification: row.verification_config ? JSON.parse(row.verification_config) : undefined,
+      forwarding: row.forwarding_config ? JSON.parse(row.forwarding_config) : undefined,
+      retention: row.retention_config ? JSON.parse(row.retention_config) : undefined,
     };
   }
 
@@ -550,7 +903,8 @@ export class D1StorageProvider implements StorageProvider {
         performance: {
           totalOperations: 0, // D1 doesn't track this yet
           uptime: 0 // D1 doesn't track this yet
-        }
+        },
+        capacity: buildCapacityStats(this.config, await this.getEvictedCount())
       };
     } catch (error) {
       throw new StorageError(`Failed to get D1 storage stats: ${error}`, 'd1');
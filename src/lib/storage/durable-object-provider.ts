@@ -0,0 +1,322 @@
+// Durable Object storage provider implementation for CF-Webhook
+// Routes each webhook to its own Durable Object, giving strongly consistent, arrival-ordered reads
+
+import type { StorageProvider, DurableObjectStorageConfig, CleanupRun, RequestChanges, ProviderInfo, StorageStats } from '@/types/storage';
+import { StorageError } from '@/types/storage';
+import type { WebhookRequest, WebhookConfig, RequestFilter, RequestSearchResult } from '@/types/webhook';
+import type { RequestCursor } from '@/lib/request-cursor';
+import { DEFAULT_SEARCH_RESULTS, SEARCH_SCAN_LIMIT, getSearchPrefilter, rankSearchMatches } from '@/lib/request-search';
+import { generateProviderInstanceId } from './env-helper';
+import { buildStorageStats, type RequestSummary } from './stats-builder';
+import { WEBHOOK_STORE_DIRECTORY, type WebhookStoreOperation } from './webhook-store-object';
+import { getCapacityPolicy, buildCapacityStats } from './capacity';
+
+export class DurableObjectStorageProvider implements StorageProvider {
+  private namespace: DurableObjectNamespace;
+  private config: DurableObjectStorageConfig;
+  private instanceId: string;
+  private createdAt: number;
+
+  constructor(namespace: DurableObjectNamespace, config: DurableObjectStorageConfig, env?: CloudflareEnv) {
+    this.namespace = namespace;
+    this.config = config;
+    this.instanceId = generateProviderInstanceId('do', env);
+    this.createdAt = Date.now();
+  }
+
+  // Provider identification for debugging
+  getProviderInfo(): ProviderInfo {
+    return {
+      type: 'do',
+      name: 'Cloudflare Durable Objects',
+      instance: this.instanceId,
+      details: {
+        namespaceBinding: this.config.namespaceBinding,
+        retentionHours: this.config.retentionHours,
+        maxRequestsPerWebhook: this.config.maxRequestsPerWebhook,
+        capacityPolicy: getCapacityPolicy(this.config)
+      }
+    };
+  }
+
+  // Send an operation to the object with the given name and return its result
+  private async call<T>(name: string, operation: WebhookStoreOperation): Promise<T> {
+    const stub = this.namespace.get(this.namespace.idFromName(name));
+    const response = await stub.fetch('https://webhook-store/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(operation),
+    });
+
+    const payload = await response.json() as { result?: T; error?: string };
+    if (!response.ok) {
+      throw new Error(payload.error || `Durable Object responded with ${response.status}`);
+    }
+    return payload.result as T;
+  }
+
+  private parseRequest(request: WebhookRequest): WebhookRequest {
+    return {
+      ...request,
+      timestamp: new Date(request.timestamp),
+      updatedAt: request.updatedAt ? new Date(request.updatedAt) : undefined,
+    };
+  }
+
+  private parseConfig(config: WebhookConfig): WebhookConfig {
+    return {
+      ...config,
+      createdAt: new Date(config.createdAt),
+      lastRequestAt: config.lastRequestAt ? new Date(config.lastRequestAt) : undefined,
+    };
+  }
+
+  // Directory bookkeeping so webhooks can be listed
+  private async register(webhookId: string): Promise<void> {
+    await this.call(WEBHOOK_STORE_DIRECTORY, { op: 'register', webhookId });
+  }
+
+  private async unregister(webhookId: string): Promise<void> {
+    await this.call(WEBHOOK_STORE_DIRECTORY, { op: 'unregister', webhookId });
+  }
+
+  private async listWebhookIds(): Promise<string[]> {
+    return this.call<string[]>(WEBHOOK_STORE_DIRECTORY, { op: 'listWebhooks' });
+  }
+
+  // Request operations
+  async saveRequest(webhookId: string, request: WebhookRequest): Promise<string[]> {
+    try {
+      const { wasEmpty, rejected, maxRequestsPerWebhook, evictedIds } = await this.call<{
+        wasEmpty?: boolean;
+        rejected: boolean;
+        maxRequestsPerWebhook?: number; // Limit in effect for the webhook, reported when rejected
+        evictedIds?: string[];
+      }>(webhookId, {
+        op: 'saveRequest',
+        request,
+        retentionHours: this.config.retentionHours,
+        capacity: {
+          maxRequestsPerWebhook: this.config.maxRequestsPerWebhook,
+          capacityPolicy: getCapacityPolicy(this.config),
+        },
+      });
+      if (rejected) {
+        throw StorageError.capacityExceeded('do', webhookId, maxRequestsPerWebhook ?? this.config.maxRequestsPerWebhook);
+      }
+      if (wasEmpty) {
+        await this.register(webhookId);
+      }
+      return evictedIds ?? [];
+    } catch (error) {
+      if (error instanceof StorageError && error.isCapacityError()) {
+        throw error;
+      }
+      throw new StorageError(`Failed to save request: ${error}`, 'do');
+    }
+  }
+
+  async canAcceptRequest(webhookId: string): Promise<boolean> {
+    // The limit may be overridden per webhook, so only the policy can settle it here
+    if (getCapacityPolicy(this.config) !== 'reject') {
+      return true;
+    }
+
+    try {
+      return await this.call<boolean>(webhookId, {
+        op: 'canAcceptRequest',
+        capacity: {
+          maxRequestsPerWebhook: this.config.maxRequestsPerWebhook,
+          capacityPolicy: getCapacityPolicy(this.config),
+        },
+      });
+    } catch (error) {
+      throw new StorageError(`Failed to check capacity: ${error}`, 'do');
+    }
+  }
+
+  async getRequests(webhookId: string, limit = 100, cursor?: RequestCursor, filter?: RequestFilter): Promise<WebhookRequest[]> {
+    try {
+      const requests = await this.call<WebhookRequest[]>(webhookId, { op: 'getRequests', limit, cursor, filter });
+      return requests.map(request => this.parseRequest(request));
+    } catch (error) {
+      throw new StorageError(`Failed to get requests: ${error}`, 'do');
+    }
+  }
+
+  // The object filters by the longest term; ranking and snippets happen here
+  async searchRequests(webhookId: string, query: string, limit = DEFAULT_SEARCH_RESULTS): Promise<RequestSearchResult[]> {
+    const candidates = await this.getRequests(webhookId, SEARCH_SCAN_LIMIT, undefined, getSearchPrefilter(query));
+    return rankSearchMatches(candidates, query, limit);
+  }
+
+  async getRequestChanges(webhookId: string, since: Date): Promise<RequestChanges> {
+    try {
+      const changes = await this.call<RequestChanges>(webhookId, { op: 'getRequestChanges', since: since.getTime() });
+      return { ...changes, requests: changes.requests.map(request => this.parseRequest(request)) };
+    } catch (error) {
+      throw new StorageError(`Failed to get request changes: ${error}`, 'do');
+    }
+  }
+
+  async getRequest(webhookId: string, requestId: string): Promise<WebhookRequest | null> {
+    try {
+      const request = await this.call<WebhookRequest | null>(webhookId, { op: 'getRequest', requestId });
+      return request ? this.parseRequest(request) : null;
+    } catch (error) {
+      throw new StorageError(`Failed to get request: ${error}`, 'do');
+    }
+  }
+
+  async updateRequest(webhookId: string, request: WebhookRequest): Promise<boolean> {
+    try {
+      return await this.call<boolean>(webhookId, { op: 'updateRequest', request });
+    } catch (error) {
+      throw new StorageError(`Failed to update request: ${error}`, 'do');
+    }
+  }
+
+  async deleteRequest(webhookId: string, requestId: string): Promise<boolean> {
+    try {
+      return await this.call<boolean>(webhookId, { op: 'deleteRequest', requestId });
+    } catch (error) {
+      console.error(`Failed to delete request: ${error}`);
+      return false;
+    }
+  }
+
+  async clearRequests(webhookId: string): Promise<void> {
+    try {
+      const { isEmpty } = await this.call<{ isEmpty: boolean }>(webhookId, { op: 'clearRequests' });
+      if (isEmpty) {
+        await this.unregister(webhookId);
+      }
+    } catch (error) {
+      throw new StorageError(`Failed to clear requests: ${error}`, 'do');
+    }
+  }
+
+  // Webhook configuration operations
+  async saveWebhookConfig(config: WebhookConfig): Promise<void> {
+    try {
+      const { wasEmpty } = await this.call<{ wasEmpty: boolean }>(config.id, { op: 'saveConfig', config });
+      if (wasEmpty) {
+        await this.register(config.id);
+      }
+    } catch (error) {
+      throw new StorageError(`Failed to save webhook config: ${error}`, 'do');
+    }
+  }
+
+  async getWebhookConfig(webhookId: string): Promise<WebhookConfig | null> {
+    try {
+      const config = await this.call<WebhookConfig | null>(webhookId, { op: 'getConfig' });
+      return config ? this.parseConfig(config) : null;
+    } catch (error) {
+      throw new StorageError(`Failed to get webhook config: ${error}`, 'do');
+    }
+  }
+
+  async getAllWebhookConfigs(): Promise<WebhookConfig[]> {
+    try {
+      const webhookIds = await this.listWebhookIds();
+      const configs = await Promise.all(
+        webhookIds.map(webhookId => this.call<WebhookConfig | null>(webhookId, { op: 'getConfig' }))
+      );
+
+      return configs
+        .filter((config): config is WebhookConfig => config !== null)
+        .map(config => this.parseConfig(config))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      throw new StorageError(`Failed to get all webhook configs: ${error}`, 'do');
+    }
+  }
+
+  async deleteWebhookConfig(webhookId: string): Promise<boolean> {
+    try {
+      const { deleted, isEmpty } = await this.call<{ deleted: boolean; isEmpty: boolean }>(webhookId, { op: 'deleteConfig' });
+      if (isEmpty) {
+        await this.unregister(webhookId);
+      }
+      return deleted;
+    } catch (error) {
+      console.error(`Failed to delete webhook config: ${error}`);
+      return false;
+    }
+  }
+
+  // Cleanup operations
+  // Each object also runs its own retention alarm; this sweeps every webhook on demand
+  async cleanupExpiredRequests(retentionHours: number): Promise<number> {
+    try {
+      const webhookIds = await this.listWebhookIds();
+      const results = await Promise.allSettled(
+        webhookIds.map(webhookId => this.call<number>(webhookId, { op: 'cleanupExpiredRequests', retentionHours }))
+      );
+
+      return results.reduce((sum, result) => sum + (result.status === 'fulfilled' ? result.value : 0), 0);
+    } catch (error) {
+      console.error(`Failed to cleanup expired requests: ${error}`);
+      return 0;
+    }
+  }
+
+  // Cleanup runs are recorded on the directory object, which every webhook already shares
+  async saveCleanupRun(run: CleanupRun): Promise<void> {
+    try {
+      await this.call(WEBHOOK_STORE_DIRECTORY, { op: 'saveCleanupRun', run });
+    } catch (error) {
+      throw new StorageError(`Failed to save cleanup run: ${error}`, 'do');
+    }
+  }
+
+  async getLastCleanupRun(): Promise<CleanupRun | null> {
+    try {
+      const run = await this.call<CleanupRun | null>(WEBHOOK_STORE_DIRECTORY, { op: 'getLastCleanupRun' });
+      return run ? { ...run, startedAt: new Date(run.startedAt) } : null;
+    } catch (error) {
+      console.error(`Failed to get last cleanup run: ${error}`);
+      return null;
+    }
+  }
+
+  // Health check
+  async isHealthy(): Promise<boolean> {
+    try {
+      // Reaching the directory object proves the namespace is usable
+      await this.listWebhookIds();
+      return true;
+    } catch (error) {
+      console.error('Durable Object health check failed:', error);
+      return false;
+    }
+  }
+
+  // Get storage statistics for distribution analysis
+  async getStats(): Promise<StorageStats> {
+    try {
+      const webhookIds = await this.listWebhookIds();
+      const [configs, summaries, evictedCounts] = await Promise.all([
+        this.getAllWebhookConfigs(),
+        Promise.all(webhookIds.map(webhookId => this.call<RequestSummary[]>(webhookId, { op: 'getRequestSummaries' }))),
+        Promise.all(webhookIds.map(webhookId => this.call<number>(webhookId, { op: 'getEvictedCount' }))),
+      ]);
+
+      const byWebhook = new Map<string, RequestSummary[]>();
+      webhookIds.forEach((webhookId, index) => {
+        if (summaries[index].length > 0) {
+          byWebhook.set(webhookId, summaries[index]);
+        }
+      });
+
+      const evictedRequests = evictedCounts.reduce((sum, count) => sum + count, 0);
+      return buildStorageStats(configs, byWebhook, {
+        totalOperations: 0, // Durable Objects don't track this yet
+        uptime: Date.now() - this.createdAt
+      }, buildCapacityStats(this.config, evictedRequests));
+    } catch (error) {
+      throw new StorageError(`Failed to get Durable Object storage stats: ${error}`, 'do');
+    }
+  }
+}
@@ -9,6 +9,10 @@ import { StorageError } from '@/types/storage';
 //    Set STORAGE_PROVIDER environment variable to explicitly specify the provider:
 //    - STORAGE_PROVIDER=d1 (requires WEBHOOK_DB binding in wrangler.toml)
 //    - STORAGE_PROVIDER=r2 (requires WEBHOOK_STORAGE binding in wrangler.toml)
+//    - STORAGE_PROVIDER=kv (requires WEBHOOK_CACHE binding in wrangler.toml; never auto-detected)
+//    - STORAGE_PROVIDER=do (requires WEBHOOK_STORE Durable Object binding in wrangler.toml; never auto-detected)
+//    - STORAGE_PROVIDER=hybrid (requires both WEBHOOK_DB and WEBHOOK_STORAGE; metadata in D1, large
+//      bodies in R2 above STORAGE_BODY_THRESHOLD_BYTES; never auto-detected)
 //
 // 2. Development Setup:
 //    - STORAGE_PROVIDER=memory (for local development, data won't persist)
@@ -29,12 +33,15 @@ interface CloudflareEnv {
   WEBHOOK_DB?: D1Database;
   WEBHOOK_STORAGE?: R2Bucket;
   WEBHOOK_CACHE?: KVNamespace;
+  WEBHOOK_STORE?: DurableObjectNamespace;
   
   // Environment variables
   STORAGE_PROVIDER?: string;
   STORAGE_TABLE_PREFIX?: string;
   REQUEST_RETENTION_HOURS?: string;
   MAX_REQUESTS_PER_WEBHOOK?: string;
+  REQUEST_CAPACITY_POLICY?: string; // "evict" (default) drops the oldest requests, "reject" answers 429
+  STORAGE_BODY_THRESHOLD_BYTES?: string;
   
   [key: string]: any;
 }
@@ -69,10 +76,13 @@ export function getEnvironment(request?: any): CloudflareEnv {
     return {
       WEBHOOK_DB: (globalThis as any).WEBHOOK_DB,
       WEBHOOK_STORAGE: (globalThis as any).WEBHOOK_STORAGE,
+      WEBHOOK_CACHE: (globalThis as any).WEBHOOK_CACHE,
+      WEBHOOK_STORE: (globalThis as any).WEBHOOK_STORE,
       STORAGE_PROVIDER: (globalThis as any).STORAGE_PROVIDER,
       STORAGE_TABLE_PREFIX: (globalThis as any).STORAGE_TABLE_PREFIX,
       REQUEST_RETENTION_HOURS: (globalThis as any).REQUEST_RETENTION_HOURS,
       MAX_REQUESTS_PER_WEBHOOK: (globalThis as any).MAX_REQUESTS_PER_WEBHOOK,
+      REQUEST_CAPACITY_POLICY: (globalThis as any).REQUEST_CAPACITY_POLICY,
     };
   }
   
@@ -112,8 +122,20 @@ export function isR2Available(env?: CloudflareEnv): boolean {
   return !!(environment.WEBHOOK_STORAGE);
 }
 
+// Check if KV namespace binding is available
+export function isKVAvailable(env?: CloudflareEnv): boolean {
+  const environment = env || getEnvironment();
+  return !!(environment.WEBHOOK_CACHE);
+}
+
+// Check if the Durable Object namespace binding is available
+export function isDurableObjectAvailable(env?: CloudflareEnv): boolean {
+  const environment = env || getEnvironment();
+  return !!(environment.WEBHOOK_STORE);
+}
+
 // Get the required storage provider - no fallback to ensure consistency
-export function getPreferredStorageProvider(env?: CloudflareEnv): 'r2' | 'd1' | 'memory' {
+export function getPreferredStorageProvider(env?: CloudflareEnv): 'r2' | 'kv' | 'd1' | 'do' | 'hybrid' | 'memory' {
   const environment = env || getEnvironment();
   
   // If explicitly set, respect the choice (must be available)
@@ -138,6 +160,42 @@ export function getPreferredStorageProvider(env?: CloudflareEnv): 'r2' | 'd1' |
     return 'r2';
   }
   
+  // If explicitly set to KV, it must be available
+  if (explicitProvider === 'kv') {
+    if (!isKVAvailable(environment)) {
+      throw new Error(
+        'STORAGE_PROVIDER is set to "kv" but WEBHOOK_CACHE binding is not available. ' +
+        'Please check your wrangler.toml configuration or remove STORAGE_PROVIDER to auto-detect.'
+      );
+    }
+    return 'kv';
+  }
+  
+  // If explicitly set to Durable Objects, it must be available
+  if (explicitProvider === 'do') {
+    if (!isDurableObjectAvailable(environment)) {
+      throw new Error(
+        'STORAGE_PROVIDER is set to "do" but WEBHOOK_STORE binding is not available. ' +
+        'Please check your wrangler.toml configuration or remove STORAGE_PROVIDER to auto-detect.'
+      );
+    }
+    return 'do';
+  }
+  
+  // If explicitly set to hybrid, both D1 and R2 must be available
+  if (explicitProvider === 'hybrid') {
+    if (!isD1Available(environment)) {
+      throw StorageError.d1BindingNotFound('WEBHOOK_DB');
+    }
+    if (!isR2Available(environment)) {
+      throw new Error(
+        'STORAGE_PROVIDER is set to "hybrid" but WEBHOOK_STORAGE binding is not available. ' +
+        'Please check your wrangler.toml configuration or remove STORAGE_PROVIDER to auto-detect.'
+      );
+    }
+    return 'hybrid';
+  }
+  
   // If explicitly set to memory (for development)
   if (explicitProvider === 'memory') {
     return 'memory';
@@ -169,7 +227,7 @@ export function getPreferredStorageProvider(env?: CloudflareEnv): 'r2' | 'd1' |
   
   // If explicitly set to an unknown provider
   throw new Error(
-    `Unknown STORAGE_PROVIDER "${explicitProvider}". Supported values are: "d1", "r2", "memory"`
+    `Unknown STORAGE_PROVIDER "${explicitProvider}". Supported values are: "d1", "r2", "kv", "do", "hybrid", "memory"`
   );
 }
 
@@ -181,19 +239,22 @@ export function debugEnvironment(env?: CloudflareEnv): void {
   console.log('Workers Environment:', isWorkersEnvironment());
   console.log('D1 Available:', isD1Available(environment));
   console.log('R2 Available:', isR2Available(environment));
+  console.log('KV Available:', isKVAvailable(environment));
+  console.log('Durable Objects Available:', isDurableObjectAvailable(environment));
   console.log('Preferred Provider:', getPreferredStorageProvider(environment));
   console.log('Storage Provider Setting:', environment.STORAGE_PROVIDER);
   console.log('Available Bindings:', {
     WEBHOOK_DB: !!environment.WEBHOOK_DB,
     WEBHOOK_STORAGE: !!environment.WEBHOOK_STORAGE,
     WEBHOOK_CACHE: !!environment.WEBHOOK_CACHE,
+    WEBHOOK_STORE: !!environment.WEBHOOK_STORE,
   });
   console.log('==============================');
 }
 
 // Generate provider instance ID in format {env}-{database-id}
 export function generateProviderInstanceId(
-  providerType: 'r2' | 'd1' | 'memory',
+  providerType: 'r2' | 'kv' | 'd1' | 'do' | 'hybrid' | 'memory',
   env?: CloudflareEnv
 ): string {
   const environment = env || getEnvironment();
@@ -215,6 +276,23 @@ export function generateProviderInstanceId(
       return bucketInfo ? `${envName}-${bucketInfo}` : `${envName}-r2-${Date.now().toString(36)}`;
     }
     
+    case 'kv': {
+      // For KV, use the namespace identifier when configured
+      const namespaceInfo = getNamespaceInfoFromEnvironment(environment);
+      return namespaceInfo ? `${envName}-${namespaceInfo}` : `${envName}-kv-${Date.now().toString(36)}`;
+    }
+    
+    case 'do': {
+      // Durable Object namespaces expose no identifier, so use env + timestamp
+      return `${envName}-do-${Date.now().toString(36)}`;
+    }
+    
+    case 'hybrid': {
+      // For hybrid, the D1 database identifies the instance
+      const databaseId = getDatabaseIdFromEnvironment(environment);
+      return databaseId ? `${envName}-hybrid-${databaseId}` : `${envName}-hybrid-${Date.now().toString(36)}`;
+    }
+    
     case 'memory': {
       // For memory, just use env + timestamp since there's no persistent storage
       return `${envName}-memory-${Date.now().toString(36)}`;
@@ -271,5 +349,26 @@ function getBucketInfoFromEnvironment(env: CloudflareEnv): string | null {
     return 'dev-bucket';
   }
   
+  return null;
+} 
+
+// Helper to extract namespace info from KV configuration
+function getNamespaceInfoFromEnvironment(env: CloudflareEnv): string | null {
+  if (env.WEBHOOK_CACHE_ID) {
+    return env.WEBHOOK_CACHE_ID.toString().slice(-8);
+  }
+  
+  // For development/staging, use a recognizable pattern based on environment
+  const nodeEnv = env.NODE_ENV || process.env.NODE_ENV;
+  if (nodeEnv === 'preview') {
+    return 'test-kv';
+  } else if (nodeEnv === 'staging') {
+    return 'staging-kv';
+  } else if (nodeEnv === 'production') {
+    return 'prod-kv';
+  } else if (nodeEnv === 'development' || nodeEnv === 'dev') {
+    return 'dev-kv';
+  }
+  
   return null;
 } 
\ No newline at end of file
@@ -0,0 +1,357 @@
+// Hybrid D1 + R2 storage provider implementation for CF-Webhook
+// Keeps queryable request metadata in D1 and moves large headers/body content to R2 objects
+
+import type { StorageProvider, HybridStorageConfig, CleanupRun, RequestChanges, ProviderInfo, StorageStats } from '@/types/storage';
+import { StorageError } from '@/types/storage';
+import type { WebhookRequest, WebhookConfig, RequestFilter, RequestSearchResult } from '@/types/webhook';
+import { findMatchingRequests } from '@/lib/request-filter';
+import type { RequestCursor } from '@/lib/request-cursor';
+import { DEFAULT_SEARCH_RESULTS, SEARCH_SCAN_LIMIT, getSearchPrefilter, rankSearchMatches } from '@/lib/request-search';
+import { D1StorageProvider } from './d1-provider';
+import { generateProviderInstanceId } from './env-helper';
+import { getCapacityPolicy, rejectsNewRequest, buildCapacityStats, type WebhookLimits } from './capacity';
+
+// Request fields moved to R2 when they are too large to keep in the D1 row
+type RequestContent = Pick<WebhookRequest, 'headers' | 'body' | 'rawBody' | 'parts'>;
+
+export class HybridStorageProvider implements StorageProvider {
+  private database: D1Database;
+  private bucket: R2Bucket;
+  private config: HybridStorageConfig;
+  private metadata: D1StorageProvider;
+  private tablePrefix: string;
+  private pathPrefix: string;
+  private instanceId: string;
+
+  constructor(database: D1Database, bucket: R2Bucket, config: HybridStorageConfig, env?: CloudflareEnv) {
+    this.database = database;
+    this.bucket = bucket;
+    this.config = config;
+    this.tablePrefix = config.tablePrefix || 'webhook';
+    this.pathPrefix = config.pathPrefix || 'cf-webhook';
+    // Rows are inserted and evicted by this provider, since evicting a row must also delete its content object
+    this.metadata = new D1StorageProvider(database, { ...config, provider: 'd1' }, env);
+    this.instanceId = generateProviderInstanceId('hybrid', env);
+  }
+
+  // Provider identification for debugging
+  getProviderInfo(): ProviderInfo {
+    return {
+      type: 'hybrid',
+      name: 'Cloudflare D1 + R2 Tiered Storage',
+      instance: this.instanceId,
+      details: {
+        databaseBinding: this.config.databaseBinding,
+        bucketBinding: this.config.bucketBinding,
+        tablePrefix: this.tablePrefix,
+        pathPrefix: this.pathPrefix,
+        bodyThresholdBytes: this.config.bodyThresholdBytes,
+        retentionHours: this.config.retentionHours,
+        maxRequestsPerWebhook: this.config.maxRequestsPerWebhook,
+        capacityPolicy: getCapacityPolicy(this.config)
+      }
+    };
+  }
+
+  // Initialize the D1 tables and load the per-tier body counts
+  async initialize(): Promise<void> {
+    await this.metadata.initialize();
+  }
+
+  // Requests in each tier; counted only for stats, since a provider is created for every request
+  private async countTiers(): Promise<{ inlineBodies: number; offloadedBodies: number }> {
+    const row = await this.database.prepare(`
+      SELECT
+        COUNT(*) as total,
+        COUNT(content_key) as offloaded
+      FROM ${this.tablePrefix}_requests
+    `).first<{ total: number; offloaded: number }>();
+
+    const offloadedBodies = row?.offloaded || 0;
+    return { inlineBodies: (row?.total || 0) - offloadedBodies, offloadedBodies };
+  }
+
+  // Helper methods for object key generation
+  private getContentKey(webhookId: string, requestId?: string): string {
+    const base = `${this.pathPrefix}/request-content/${webhookId}`;
+    return requestId ? `${base}/${requestId}.json` : `${base}/`;
+  }
+
+  private getContent(request: WebhookRequest): RequestContent {
+    return {
+      headers: request.headers,
+      body: request.body,
+      rawBody: request.rawBody,
+      parts: request.parts,
+    };
+  }
+
+  // The D1 row of an offloaded request: metadata only, pointing at its content object
+  private toMetadataRow(request: WebhookRequest, contentKey: string): WebhookRequest {
+    return { ...request, headers: {}, body: '', rawBody: undefined, parts: undefined, contentKey };
+  }
+
+  // Put offloaded content back into a request read from D1
+  private async rehydrate(request: WebhookRequest): Promise<WebhookRequest> {
+    const { contentKey, ...rest } = request;
+    if (!contentKey) {
+      return rest;
+    }
+
+    const object = await this.bucket.get(contentKey);
+    if (!object) {
+      console.warn(`Content object ${contentKey} for request ${request.id} is missing`);
+      return rest;
+    }
+
+    const content = JSON.parse(await object.text()) as RequestContent;
+    return { ...rest, ...content };
+  }
+
+  // Drop the oldest requests beyond the per-webhook limit along with their content objects, returning their IDs
+  private async evictOverflow(webhookId: string, limits: WebhookLimits): Promise<string[]> {
+    const evicted = await this.metadata.trimRequests(webhookId, limits);
+    await this.deleteContentKeys(evicted);
+    return evicted.map(request => request.id);
+  }
+
+  // Delete the content objects of removed D1 rows
+  private async deleteContentKeys(removed: Array<{ contentKey?: string }>): Promise<void> {
+    const contentKeys = removed
+      .map(request => request.contentKey)
+      .filter((key): key is string => Boolean(key));
+
+    // R2 deletes at most 1000 keys per call
+    for (let i = 0; i < contentKeys.length; i += 1000) {
+      await this.bucket.delete(contentKeys.slice(i, i + 1000));
+    }
+  }
+
+  // Request operations
+  async saveRequest(webhookId: string, request: WebhookRequest): Promise<string[]> {
+    try {
+      const limits = await this.metadata.getLimits(webhookId, this.config);
+      const content = JSON.stringify(this.getContent(request));
+
+      // Under the reject policy the insert itself checks the limit, so a refused offloaded request drops its object
+      if (new TextEncoder().encode(content).length <= this.config.bodyThresholdBytes) {
+        if (!(await this.metadata.insertRequest(webhookId, { ...request, contentKey: undefined }, limits))) {
+          throw StorageError.capacityExceeded('hybrid', webhookId, limits.maxRequestsPerWebhook);
+        }
+      } else {
+        // Content is written once at capture; later updates only touch the D1 row
+        const contentKey = this.getContentKey(webhookId, request.id);
+        await this.bucket.put(contentKey, content, {
+          customMetadata: {
+            webhookId,
+            requestId: request.id,
+            timestamp: request.timestamp.toISOString(),
+          },
+          httpMetadata: {
+            contentType: 'application/json',
+          },
+        });
+        if (!(await this.metadata.insertRequest(webhookId, this.toMetadataRow(request, contentKey), limits))) {
+          await this.bucket.delete(contentKey);
+          throw StorageError.capacityExceeded('hybrid', webhookId, limits.maxRequestsPerWebhook);
+        }
+      }
+
+      return await this.evictOverflow(webhookId, limits);
+    } catch (error) {
+      if (error instanceof StorageError && error.isCapacityError()) {
+        throw error;
+      }
+      throw new StorageError(`Failed to save request: ${error}`, 'hybrid');
+    }
+  }
+
+  async canAcceptRequest(webhookId: string): Promise<boolean> {
+    try {
+      const limits = await this.metadata.getLimits(webhookId, this.config);
+      return !rejectsNewRequest(limits, await this.metadata.countRequests(webhookId));
+    } catch (error) {
+      throw new StorageError(`Failed to check capacity: ${error}`, 'hybrid');
+    }
+  }
+
+  async getRequests(webhookId: string, limit = 100, cursor?: RequestCursor, filter?: RequestFilter): Promise<WebhookRequest[]> {
+    try {
+      if (filter?.searchTerm) {
+        // Offloaded headers and bodies are not in D1, so those rows are searched after rehydrating
+        const candidates = await this.metadata.queryRequests(webhookId, -1, cursor, filter, true);
+        return await findMatchingRequests(
+          candidates,
+          batch => Promise.all(batch.map(request => this.rehydrate(request))),
+          filter,
+          limit
+        );
+      }
+
+      const requests = await this.metadata.getRequests(webhookId, limit, cursor, filter);
+      return await Promise.all(requests.map(request => this.rehydrate(request)));
+    } catch (error) {
+      throw new StorageError(`Failed to get requests: ${error}`, 'hybrid');
+    }
+  }
+
+  async searchRequests(webhookId: string, query: string, limit = DEFAULT_SEARCH_RESULTS): Promise<RequestSearchResult[]> {
+    try {
+      // Inline content is ranked by the D1 full-text index
+      const indexed = await this.metadata.searchRequests(webhookId, query, limit);
+      if (indexed.length >= limit) {
+        return indexed;
+      }
+
+      // Offloaded rows are indexed with empty content, so they are matched after rehydrating and listed after the indexed hits
+      const prefilter = getSearchPrefilter(query);
+      const candidates = (await this.metadata.queryRequests(webhookId, -1, undefined, prefilter, true))
+        .filter(request => request.contentKey);
+      const offloaded = await findMatchingRequests(
+        candidates,
+        batch => Promise.all(batch.map(request => this.rehydrate(request))),
+        prefilter,
+        SEARCH_SCAN_LIMIT
+      );
+
+      return [...indexed, ...rankSearchMatches(offloaded, query, limit - indexed.length)];
+    } catch (error) {
+      throw new StorageError(`Failed to search requests: ${error}`, 'hybrid');
+    }
+  }
+
+  async getRequestChanges(webhookId: string, since: Date): Promise<RequestChanges> {
+    try {
+      const changes = await this.metadata.getRequestChanges(webhookId, since);
+      return { ...changes, requests: await Promise.all(changes.requests.map(request => this.rehydrate(request))) };
+    } catch (error) {
+      throw new StorageError(`Failed to get request changes: ${error}`, 'hybrid');
+    }
+  }
+
+  async getRequest(webhookId: string, requestId: string): Promise<WebhookRequest | null> {
+    try {
+      const request = await this.metadata.getRequest(webhookId, requestId);
+      return request ? await this.rehydrate(request) : null;
+    } catch (error) {
+      throw new StorageError(`Failed to get request: ${error}`, 'hybrid');
+    }
+  }
+
+  async updateRequest(webhookId: string, request: WebhookRequest): Promise<boolean> {
+    try {
+      const existing = await this.metadata.getRequest(webhookId, request.id);
+      if (!existing) {
+        return false;
+      }
+
+      // Captured content never changes, so an offloaded request keeps its object as is
+      const row = existing.contentKey
+        ? this.toMetadataRow(request, existing.contentKey)
+        : { ...request, contentKey: undefined };
+      return await this.metadata.updateRequest(webhookId, row);
+    } catch (error) {
+      throw new StorageError(`Failed to update request: ${error}`, 'hybrid');
+    }
+  }
+
+  async deleteRequest(webhookId: string, requestId: string): Promise<boolean> {
+    try {
+      const existing = await this.metadata.getRequest(webhookId, requestId);
+      const deleted = await this.metadata.deleteRequest(webhookId, requestId);
+
+      if (deleted && existing?.contentKey) {
+        await this.bucket.delete(existing.contentKey);
+      }
+      return deleted;
+    } catch (error) {
+      console.error(`Failed to delete request: ${error}`);
+      return false;
+    }
+  }
+
+  async clearRequests(webhookId: string): Promise<void> {
+    try {
+      await this.metadata.clearRequests(webhookId);
+      await this.deleteContentObjects(this.getContentKey(webhookId));
+    } catch (error) {
+      throw new StorageError(`Failed to clear requests: ${error}`, 'hybrid');
+    }
+  }
+
+  // Delete every content object under a prefix
+  private async deleteContentObjects(prefix: string): Promise<void> {
+    let cursor: string | undefined;
+    do {
+      const listed = await this.bucket.list({ prefix, cursor });
+      const keys = listed.objects.map(object => object.key);
+
+      if (keys.length > 0) {
+        await this.bucket.delete(keys);
+      }
+
+      cursor = listed.truncated ? listed.cursor : undefined;
+    } while (cursor);
+  }
+
+  // Webhook configuration operations live in D1 only
+  async saveWebhookConfig(config: WebhookConfig): Promise<void> {
+    await this.metadata.saveWebhookConfig(config);
+  }
+
+  async getWebhookConfig(webhookId: string): Promise<WebhookConfig | null> {
+    return this.metadata.getWebhookConfig(webhookId);
+  }
+
+  async getAllWebhookConfigs(): Promise<WebhookConfig[]> {
+    return this.metadata.getAllWebhookConfigs();
+  }
+
+  async deleteWebhookConfig(webhookId: string): Promise<boolean> {
+    return this.metadata.deleteWebhookConfig(webhookId);
+  }
+
+  // Cleanup operations
+  async cleanupExpiredRequests(retentionHours: number): Promise<number> {
+    try {
+      const expired = await this.metadata.deleteExpiredRequests(retentionHours);
+      await this.deleteContentKeys(expired);
+      return expired.length;
+    } catch (error) {
+      console.error(`Failed to cleanup expired requests: ${error}`);
+      return 0;
+    }
+  }
+
+  async saveCleanupRun(run: CleanupRun): Promise<void> {
+    await this.metadata.saveCleanupRun(run);
+  }
+
+  async getLastCleanupRun(): Promise<CleanupRun | null> {
+    return this.metadata.getLastCleanupRun();
+  }
+
+  // Health check - both tiers must be reachable
+  async isHealthy(): Promise<boolean> {
+    try {
+      const [databaseHealthy] = await Promise.all([
+        this.metadata.isHealthy(),
+        this.bucket.list({ limit: 1 }),
+      ]);
+      return databaseHealthy;
+    } catch (error) {
+      console.error('Hybrid health check failed:', error);
+      return false;
+    }
+  }
+
+  // Statistics only need metadata, which D1 holds for every request
+  async getStats(): Promise<StorageStats> {
+    const stats = await this.metadata.getStats();
+    return {
+      ...stats,
+      capacity: buildCapacityStats(this.config, stats.capacity.evictedRequests),
+      bodyTiers: await this.countTiers(),
+    };
+  }
+}
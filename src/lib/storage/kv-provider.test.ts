@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { KVStorageProvider } from './kv-provider';
+import { MemoryKVNamespace } from './memory-kv';
+import { StorageError, type KVStorageConfig } from '@/types/storage';
+import { compareRequestOrder, encodeRequestCursor, decodeRequestCursor } from '@/lib/request-cursor';
+import type { WebhookRequest } from '@/types/webhook';
+
+const WEBHOOK_ID = 'abc123';
+
+// The stand-in's clock, moved forward by tests to expire keys
+let now: number;
+let namespace: MemoryKVNamespace;
+
+beforeEach(() => {
+  now = Date.now();
+  namespace = new MemoryKVNamespace(() => now);
+});
+
+function createProvider(overrides: Partial<KVStorageConfig> = {}): KVStorageProvider {
+  return new KVStorageProvider(namespace, {
+    provider: 'kv',
+    namespaceBinding: 'WEBHOOK_CACHE',
+    retentionHours: 24,
+    maxRequestsPerWebhook: 100,
+    capacityPolicy: 'evict',
+    ...overrides,
+  });
+}
+
+// A request captured `ageMs` before the test started
+function makeRequest(id: string, ageMs: number): WebhookRequest {
+  return {
+    id,
+    webhookId: WEBHOOK_ID,
+    method: 'POST',
+    path: `/api/webhook/${WEBHOOK_ID}`,
+    headers: { 'content-type': 'application/json' },
+    body: `{"id":"${id}"}`,
+    queryParams: {},
+    timestamp: new Date(now - ageMs),
+    ip: '203.0.113.7',
+    userAgent: 'test',
+    contentType: 'application/json',
+    bodySize: 10,
+  };
+}
+
+describe('KVStorageProvider', () => {
+  it('pages newest first with cursors, breaking timestamp ties by id', async () => {
+    const provider = createProvider();
+    const saved = [
+      makeRequest('req1', 5000),
+      makeRequest('req2', 4000),
+      makeRequest('req3', 3000),
+      makeRequest('req4', 3000),
+      makeRequest('req5', 1000),
+    ];
+    for (const request of saved) {
+      await provider.saveRequest(WEBHOOK_ID, request);
+    }
+
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await provider.getRequests(WEBHOOK_ID, 2, cursor ? decodeRequestCursor(cursor)! : undefined);
+      pages.push(page.map(request => request.id));
+      cursor = page.length === 2 ? encodeRequestCursor(page[page.length - 1]) : undefined;
+    } while (cursor);
+
+    const expected = [...saved].sort(compareRequestOrder).map(request => request.id);
+    expect(expected).toEqual(['req5', 'req4', 'req3', 'req2', 'req1']);
+    expect(pages.flat()).toEqual(expected);
+    expect(pages[0]).toEqual(['req5', 'req4']);
+  });
+
+  it('lets requests expire through the KV TTL once retention has passed', async () => {
+    const provider = createProvider({ retentionHours: 1 });
+    await provider.saveRequest(WEBHOOK_ID, makeRequest('old1', 2 * 60 * 60 * 1000));
+    await provider.saveRequest(WEBHOOK_ID, makeRequest('new1', 0));
+
+    // KV refuses expirations under a minute away, so the expired request lingers that long
+    expect(await provider.getRequest(WEBHOOK_ID, 'old1')).not.toBeNull();
+
+    now += 61 * 1000;
+    expect(await provider.getRequest(WEBHOOK_ID, 'old1')).toBeNull();
+    expect((await provider.getRequests(WEBHOOK_ID)).map(request => request.id)).toEqual(['new1']);
+  });
+
+  it('evicts the oldest requests beyond the limit under the evict policy', async () => {
+    const provider = createProvider({ maxRequestsPerWebhook: 3, capacityPolicy: 'evict' });
+    const evictedIds: string[] = [];
+    for (let i = 1; i <= 5; i++) {
+      evictedIds.push(...await provider.saveRequest(WEBHOOK_ID, makeRequest(`req${i}`, (10 - i) * 1000)));
+    }
+
+    expect((await provider.getRequests(WEBHOOK_ID)).map(request => request.id)).toEqual(['req5', 'req4', 'req3']);
+    expect(evictedIds).toEqual(['req1', 'req2']);
+    expect((await provider.getStats()).capacity?.evictedRequests).toBe(2);
+  });
+
+  it('refuses new requests when full under the reject policy', async () => {
+    const provider = createProvider({ maxRequestsPerWebhook: 2, capacityPolicy: 'reject' });
+    await provider.saveRequest(WEBHOOK_ID, makeRequest('req1', 2000));
+    await provider.saveRequest(WEBHOOK_ID, makeRequest('req2', 1000));
+
+    expect(await provider.canAcceptRequest(WEBHOOK_ID)).toBe(false);
+    const refused = await provider.saveRequest(WEBHOOK_ID, makeRequest('req3', 0)).catch(error => error);
+    expect(refused).toBeInstanceOf(StorageError);
+    expect((refused as StorageError).isCapacityError()).toBe(true);
+    expect((await provider.getRequests(WEBHOOK_ID)).map(request => request.id)).toEqual(['req2', 'req1']);
+  });
+
+  it('reports captured, updated and deleted requests since a point in time', async () => {
+    const provider = createProvider();
+    await provider.saveRequest(WEBHOOK_ID, makeRequest('req1', 3000));
+    await provider.saveRequest(WEBHOOK_ID, makeRequest('req2', 2000));
+    const since = new Date(now - 1000);
+
+    const updated = { ...makeRequest('req1', 3000), updatedAt: new Date(now) };
+    expect(await provider.updateRequest(WEBHOOK_ID, updated)).toBe(true);
+    expect(await provider.deleteRequest(WEBHOOK_ID, 'req2')).toBe(true);
+    await provider.saveRequest(WEBHOOK_ID, makeRequest('req3', 0));
+
+    const changes = await provider.getRequestChanges(WEBHOOK_ID, since);
+    expect(changes.requests.map(request => request.id)).toEqual(['req3', 'req1']);
+    expect(changes.requests[1].updatedAt).toBeInstanceOf(Date);
+    expect(changes.deletedIds).toEqual(['req2']);
+    expect(changes.oldest).toEqual({ timestamp: now - 3000, id: 'req1' });
+    expect(changes.truncated).toBe(false);
+
+    // Nothing changed after the deletion was recorded
+    const later = await provider.getRequestChanges(WEBHOOK_ID, new Date(Date.now() + 1000));
+    expect(later.requests).toEqual([]);
+    expect(later.deletedIds).toEqual([]);
+  });
+
+  it('reports evicted and cleared requests through the oldest stored request', async () => {
+    const provider = createProvider({ maxRequestsPerWebhook: 2, capacityPolicy: 'evict' });
+    await provider.saveRequest(WEBHOOK_ID, makeRequest('req1', 3000));
+    await provider.saveRequest(WEBHOOK_ID, makeRequest('req2', 2000));
+    await provider.saveRequest(WEBHOOK_ID, makeRequest('req3', 1000));
+
+    const changes = await provider.getRequestChanges(WEBHOOK_ID, new Date(now));
+    expect(changes.oldest).toEqual({ timestamp: now - 2000, id: 'req2' });
+
+    await provider.clearRequests(WEBHOOK_ID);
+    expect((await provider.getRequestChanges(WEBHOOK_ID, new Date(now))).oldest).toBeNull();
+  });
+});
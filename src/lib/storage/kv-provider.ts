@@ -0,0 +1,482 @@
+// KV storage provider implementation for CF-Webhook
+// Uses Cloudflare Workers KV; requests expire through KV TTL so retention needs no sweeping
+
+import type { StorageProvider, KVStorageConfig, CleanupRun, RequestChanges, ProviderInfo, StorageStats } from '@/types/storage';
+import { StorageError } from '@/types/storage';
+import type { WebhookRequest, WebhookConfig, RequestFilter, RequestSearchResult } from '@/types/webhook';
+import { hasRequestFilter, matchesRequestSummary, findMatchingRequests } from '@/lib/request-filter';
+import { compareRequestOrder, isAfterCursor, type RequestCursor } from '@/lib/request-cursor';
+import { addTombstone, getDeletedSince, selectChangedRequests, type Tombstone } from '@/lib/request-changes';
+import { DEFAULT_SEARCH_RESULTS, SEARCH_SCAN_LIMIT, getSearchPrefilter, rankSearchMatches } from '@/lib/request-search';
+import { generateProviderInstanceId } from './env-helper';
+import { buildStorageStats, type RequestSummary } from './stats-builder';
+import { getCapacityPolicy, getRequestLimit, getOverflow, rejectsNewRequest, buildCapacityStats, getWebhookLimits, getRetentionOverrides, getRetentionCutoff, type WebhookLimits } from './capacity';
+
+// KV rejects expirations less than 60 seconds away
+const MIN_EXPIRATION_SECONDS = 60;
+
+// Key metadata of a stored request; the update time lets incremental polls skip unchanged requests
+interface RequestKeyMetadata extends RequestSummary {
+  updatedAt?: number;
+}
+
+// The subset of a KV namespace the provider uses, so an in-memory stand-in can replace the binding
+export interface KVStore {
+  get(key: string, type: 'text'): Promise<string | null>;
+  put(key: string, value: string, options?: KVNamespacePutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  list<Metadata = unknown>(options?: KVNamespaceListOptions): Promise<KVNamespaceListResult<Metadata>>;
+}
+
+export class KVStorageProvider implements StorageProvider {
+  private namespace: KVStore;
+  private config: KVStorageConfig;
+  private keyPrefix: string;
+  private instanceId: string;
+  private createdAt: number;
+
+  constructor(namespace: KVStore, config: KVStorageConfig, env?: CloudflareEnv) {
+    this.namespace = namespace;
+    this.config = config;
+    this.keyPrefix = config.keyPrefix || 'cf-webhook';
+    this.instanceId = generateProviderInstanceId('kv', env);
+    this.createdAt = Date.now();
+  }
+
+  // Provider identification for debugging
+  getProviderInfo(): ProviderInfo {
+    return {
+      type: 'kv',
+      name: 'Cloudflare Workers KV',
+      instance: this.instanceId,
+      details: {
+        namespaceBinding: this.config.namespaceBinding,
+        keyPrefix: this.keyPrefix,
+        retentionHours: this.config.retentionHours,
+        maxRequestsPerWebhook: this.config.maxRequestsPerWebhook,
+        capacityPolicy: getCapacityPolicy(this.config)
+      }
+    };
+  }
+
+  // Helper methods for key generation
+  private getRequestKey(webhookId: string, requestId?: string): string {
+    const base = `${this.keyPrefix}:requests:${webhookId}:`;
+    return requestId ? `${base}${requestId}` : base;
+  }
+
+  private getWebhookConfigKey(webhookId?: string): string {
+    return `${this.keyPrefix}:configs:${webhookId || ''}`;
+  }
+
+  private getCleanupRunKey(): string {
+    return `${this.keyPrefix}:maintenance:last-cleanup`;
+  }
+
+  private getEvictionsKey(webhookId?: string): string {
+    return `${this.keyPrefix}:evictions:${webhookId || ''}`;
+  }
+
+  private getTombstonesKey(webhookId: string): string {
+    return `${this.keyPrefix}:deletions:${webhookId}`;
+  }
+
+  // Absolute expiry of a request, counted from capture time so updates do not extend it
+  private getExpiration(request: WebhookRequest, retentionHours: number): number | undefined {
+    if (!(retentionHours > 0)) {
+      return undefined;
+    }
+
+    const expiresAt = Math.floor((request.timestamp.getTime() + retentionHours * 60 * 60 * 1000) / 1000);
+    return Math.max(expiresAt, Math.ceil(Date.now() / 1000) + MIN_EXPIRATION_SECONDS);
+  }
+
+  // List every key under a prefix, following the cursor past KV's 1000-key pages
+  private async listAllKeys<Metadata>(prefix: string): Promise<KVNamespaceListKey<Metadata>[]> {
+    const keys: KVNamespaceListKey<Metadata>[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.namespace.list<Metadata>({ prefix, cursor });
+      keys.push(...page.keys);
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return keys;
+  }
+
+  private parseRequest(data: string): WebhookRequest {
+    const request = JSON.parse(data) as WebhookRequest;
+    request.timestamp = new Date(request.timestamp);
+    if (request.updatedAt) {
+      request.updatedAt = new Date(request.updatedAt);
+    }
+    return request;
+  }
+
+  private parseConfig(data: string): WebhookConfig {
+    const config = JSON.parse(data) as WebhookConfig;
+    config.createdAt = new Date(config.createdAt);
+    if (config.lastRequestAt) {
+      config.lastRequestAt = new Date(config.lastRequestAt);
+    }
+    return config;
+  }
+
+  // Server-wide limits with the webhook's retention overrides applied
+  private async getLimits(webhookId: string): Promise<WebhookLimits> {
+    const config = await this.getWebhookConfig(webhookId);
+    return getWebhookLimits(this.config, config?.retention);
+  }
+
+  private async putRequest(webhookId: string, request: WebhookRequest, limits: WebhookLimits): Promise<void> {
+    // Stored with the key so listing, sorting and stats need no value reads
+    const metadata: RequestKeyMetadata = {
+      timestamp: request.timestamp.getTime(),
+      method: request.method,
+      bodySize: request.bodySize,
+      updatedAt: request.updatedAt?.getTime(),
+    };
+
+    await this.namespace.put(this.getRequestKey(webhookId, request.id), JSON.stringify(request), {
+      expiration: this.getExpiration(request, limits.retentionHours),
+      metadata,
+    });
+  }
+
+  // Delete the oldest requests beyond the per-webhook limit and add them to the webhook's eviction count,
+  // returning their IDs. KV listings are eventually consistent, so a burst can briefly leave a webhook over its limit.
+  private async evictOverflow(webhookId: string, limits: WebhookLimits): Promise<string[]> {
+    if (getRequestLimit(limits) === null || getCapacityPolicy(limits) !== 'evict') {
+      return [];
+    }
+
+    const prefix = this.getRequestKey(webhookId);
+    const keys = await this.listAllKeys<RequestSummary>(prefix);
+    const overflow = getOverflow(limits, keys.length);
+    if (overflow === 0) {
+      return [];
+    }
+
+    const oldest = keys
+      .sort((a, b) => (a.metadata?.timestamp ?? 0) - (b.metadata?.timestamp ?? 0))
+      .slice(0, overflow);
+    await Promise.all(oldest.map(key => this.namespace.delete(key.name)));
+
+    // The count is kept in metadata so stats can sum it from a listing
+    const evictionsKey = this.getEvictionsKey(webhookId);
+    const existing = await this.namespace.get(evictionsKey, 'text');
+    const evictedCount = (existing ? parseInt(existing) : 0) + overflow;
+    await this.namespace.put(evictionsKey, evictedCount.toString(), { metadata: { evictedCount } });
+    return oldest.map(key => key.name.slice(prefix.length));
+  }
+
+  // Total requests evicted across all webhooks
+  private async getEvictedCount(): Promise<number> {
+    const keys = await this.listAllKeys<{ evictedCount: number }>(this.getEvictionsKey());
+    return keys.reduce((sum, key) => sum + (key.metadata?.evictedCount ?? 0), 0);
+  }
+
+  // Request operations
+  async saveRequest(webhookId: string, request: WebhookRequest): Promise<string[]> {
+    try {
+      const limits = await this.getLimits(webhookId);
+      if (!(await this.hasRoomFor(webhookId, limits))) {
+        throw StorageError.capacityExceeded('kv', webhookId, limits.maxRequestsPerWebhook);
+      }
+
+      await this.putRequest(webhookId, request, limits);
+      return await this.evictOverflow(webhookId, limits);
+    } catch (error) {
+      if (error instanceof StorageError && error.isCapacityError()) {
+        throw error;
+      }
+      throw new StorageError(`Failed to save request: ${error}`, 'kv');
+    }
+  }
+
+  async canAcceptRequest(webhookId: string): Promise<boolean> {
+    return this.hasRoomFor(webhookId, await this.getLimits(webhookId));
+  }
+
+  private async hasRoomFor(webhookId: string, limits: WebhookLimits): Promise<boolean> {
+    // Counting means listing every request key, so only do it when a full webhook would refuse
+    if (getRequestLimit(limits) === null || getCapacityPolicy(limits) !== 'reject') {
+      return true;
+    }
+    return !rejectsNewRequest(limits, (await this.listAllKeys(this.getRequestKey(webhookId))).length);
+  }
+
+  // Read the requests behind listed keys, skipping ones that are gone or unreadable
+  private async loadRequests(keys: KVNamespaceListKey<RequestSummary>[]): Promise<WebhookRequest[]> {
+    const values = await Promise.all(keys.map(key => this.namespace.get(key.name, 'text')));
+    const requests: WebhookRequest[] = [];
+
+    values.forEach((data, index) => {
+      // Keys can outlive their value briefly while an expiry propagates
+      if (data === null) return;
+      try {
+        requests.push(this.parseRequest(data));
+      } catch (parseError) {
+        console.warn(`Failed to parse request from ${keys[index].name}:`, parseError);
+      }
+    });
+
+    return requests;
+  }
+
+  async getRequests(webhookId: string, limit = 100, cursor?: RequestCursor, filter?: RequestFilter): Promise<WebhookRequest[]> {
+    try {
+      const prefix = this.getRequestKey(webhookId);
+
+      // KV lists keys alphabetically; order by capture time and ID, then skip to the cursor
+      const keys = (await this.listAllKeys<RequestSummary>(prefix))
+        .map(key => ({ key, position: { timestamp: key.metadata?.timestamp ?? 0, id: key.name.slice(prefix.length) } }))
+        .sort((a, b) => compareRequestOrder(a.position, b.position))
+        .filter(({ position }) => isAfterCursor(position, cursor))
+        .map(({ key }) => key);
+
+      if (hasRequestFilter(filter)) {
+        // Method and capture time are in the key metadata, so only plausible matches are read
+        const candidates = keys.filter(key => !key.metadata || matchesRequestSummary(key.metadata, filter));
+        return await findMatchingRequests(candidates, batch => this.loadRequests(batch), filter, limit);
+      }
+
+      return await this.loadRequests(keys.slice(0, limit));
+    } catch (error) {
+      throw new StorageError(`Failed to get requests: ${error}`, 'kv');
+    }
+  }
+
+  // KV cannot search values, so the latest matching requests are loaded and ranked here
+  async searchRequests(webhookId: string, query: string, limit = DEFAULT_SEARCH_RESULTS): Promise<RequestSearchResult[]> {
+    const candidates = await this.getRequests(webhookId, SEARCH_SCAN_LIMIT, undefined, getSearchPrefilter(query));
+    return rankSearchMatches(candidates, query, limit);
+  }
+
+  async getRequestChanges(webhookId: string, since: Date): Promise<RequestChanges> {
+    try {
+      const prefix = this.getRequestKey(webhookId);
+
+      // Capture and update times are in the key metadata, so only changed requests are read
+      const keys = (await this.listAllKeys<RequestKeyMetadata>(prefix)).map(key => ({
+        key,
+        id: key.name.slice(prefix.length),
+        timestamp: key.metadata?.timestamp ?? 0,
+        updatedAt: key.metadata?.updatedAt,
+      }));
+      const { changed, oldest, truncated } = selectChangedRequests(keys, since);
+      const requests = await this.loadRequests(changed.map(({ key }) => key));
+      const deleted = getDeletedSince(await this.getTombstones(webhookId), since);
+
+      return { requests, deletedIds: deleted.deletedIds, oldest, truncated: truncated || deleted.truncated };
+    } catch (error) {
+      throw new StorageError(`Failed to get request changes: ${error}`, 'kv');
+    }
+  }
+
+  private async getTombstones(webhookId: string): Promise<Tombstone[]> {
+    const data = await this.namespace.get(this.getTombstonesKey(webhookId), 'text');
+    return data ? JSON.parse(data) as Tombstone[] : [];
+  }
+
+  async getRequest(webhookId: string, requestId: string): Promise<WebhookRequest | null> {
+    try {
+      const data = await this.namespace.get(this.getRequestKey(webhookId, requestId), 'text');
+      return data === null ? null : this.parseRequest(data);
+    } catch (error) {
+      throw new StorageError(`Failed to get request: ${error}`, 'kv');
+    }
+  }
+
+  async updateRequest(webhookId: string, request: WebhookRequest): Promise<boolean> {
+    try {
+      const existing = await this.namespace.get(this.getRequestKey(webhookId, request.id), 'text');
+      if (existing === null) {
+        return false;
+      }
+
+      await this.putRequest(webhookId, request, await this.getLimits(webhookId));
+      return true;
+    } catch (error) {
+      throw new StorageError(`Failed to update request: ${error}`, 'kv');
+    }
+  }
+
+  async deleteRequest(webhookId: string, requestId: string): Promise<boolean> {
+    try {
+      await this.namespace.delete(this.getRequestKey(webhookId, requestId));
+
+      // Last writer wins, so deletions racing each other can lose a tombstone; clients still drop the request on reload
+      const tombstones = addTombstone(await this.getTombstones(webhookId), requestId);
+      await this.namespace.put(this.getTombstonesKey(webhookId), JSON.stringify(tombstones));
+      return true;
+    } catch (error) {
+      console.error(`Failed to delete request: ${error}`);
+      return false;
+    }
+  }
+
+  async clearRequests(webhookId: string): Promise<void> {
+    try {
+      const keys = await this.listAllKeys(this.getRequestKey(webhookId));
+
+      // Delete in batches to stay within the subrequest limit per batch
+      const batchSize = 50;
+      for (let i = 0; i < keys.length; i += batchSize) {
+        const batch = keys.slice(i, i + batchSize);
+        await Promise.allSettled(batch.map(key => this.namespace.delete(key.name)));
+      }
+      await this.namespace.delete(this.getTombstonesKey(webhookId));
+    } catch (error) {
+      throw new StorageError(`Failed to clear requests: ${error}`, 'kv');
+    }
+  }
+
+  // Webhook configuration operations
+  async saveWebhookConfig(config: WebhookConfig): Promise<void> {
+    try {
+      await this.namespace.put(this.getWebhookConfigKey(config.id), JSON.stringify(config), {
+        metadata: {
+          name: config.name || 'unnamed',
+          updatedAt: new Date().toISOString(),
+        },
+      });
+    } catch (error) {
+      throw new StorageError(`Failed to save webhook config: ${error}`, 'kv');
+    }
+  }
+
+  async getWebhookConfig(webhookId: string): Promise<WebhookConfig | null> {
+    try {
+      const data = await this.namespace.get(this.getWebhookConfigKey(webhookId), 'text');
+      return data === null ? null : this.parseConfig(data);
+    } catch (error) {
+      throw new StorageError(`Failed to get webhook config: ${error}`, 'kv');
+    }
+  }
+
+  async getAllWebhookConfigs(): Promise<WebhookConfig[]> {
+    try {
+      const keys = await this.listAllKeys(this.getWebhookConfigKey());
+      const values = await Promise.all(keys.map(key => this.namespace.get(key.name, 'text')));
+      const configs: WebhookConfig[] = [];
+
+      values.forEach((data, index) => {
+        if (data === null) return;
+        try {
+          configs.push(this.parseConfig(data));
+        } catch (parseError) {
+          console.warn(`Failed to parse webhook config from ${keys[index].name}:`, parseError);
+        }
+      });
+
+      return configs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      throw new StorageError(`Failed to get all webhook configs: ${error}`, 'kv');
+    }
+  }
+
+  async deleteWebhookConfig(webhookId: string): Promise<boolean> {
+    try {
+      await this.namespace.delete(this.getWebhookConfigKey(webhookId));
+      return true;
+    } catch (error) {
+      console.error(`Failed to delete webhook config: ${error}`);
+      return false;
+    }
+  }
+
+  // Cleanup operations
+  // KV TTL removes requests on its own; this catches ones stored before the retention was shortened
+  async cleanupExpiredRequests(retentionHours: number): Promise<number> {
+    try {
+      const overrides = getRetentionOverrides(await this.getAllWebhookConfigs());
+      const requestsPrefix = `${this.keyPrefix}:requests:`;
+      const keys = await this.listAllKeys<RequestSummary>(requestsPrefix);
+      const expiredKeys = keys.filter(key => {
+        const webhookId = key.name.slice(requestsPrefix.length).split(':')[0];
+        return key.metadata && key.metadata.timestamp < getRetentionCutoff(retentionHours, overrides, webhookId);
+      });
+
+      // Delete in batches
+      const batchSize = 50;
+      let deletedCount = 0;
+
+      for (let i = 0; i < expiredKeys.length; i += batchSize) {
+        const batch = expiredKeys.slice(i, i + batchSize);
+        const results = await Promise.allSettled(batch.map(key => this.namespace.delete(key.name)));
+
+        deletedCount += results.filter(result => result.status === 'fulfilled').length;
+      }
+
+      return deletedCount;
+    } catch (error) {
+      console.error(`Failed to cleanup expired requests: ${error}`);
+      return 0;
+    }
+  }
+
+  async saveCleanupRun(run: CleanupRun): Promise<void> {
+    try {
+      await this.namespace.put(this.getCleanupRunKey(), JSON.stringify(run));
+    } catch (error) {
+      throw new StorageError(`Failed to save cleanup run: ${error}`, 'kv');
+    }
+  }
+
+  async getLastCleanupRun(): Promise<CleanupRun | null> {
+    try {
+      const data = await this.namespace.get(this.getCleanupRunKey(), 'text');
+      if (data === null) {
+        return null;
+      }
+
+      const run = JSON.parse(data) as CleanupRun;
+      run.startedAt = new Date(run.startedAt);
+      return run;
+    } catch (error) {
+      console.error(`Failed to get last cleanup run: ${error}`);
+      return null;
+    }
+  }
+
+  // Health check
+  async isHealthy(): Promise<boolean> {
+    try {
+      // Try to list keys to test connectivity
+      await this.namespace.list({ prefix: this.keyPrefix, limit: 1 });
+      return true;
+    } catch (error) {
+      console.error('KV health check failed:', error);
+      return false;
+    }
+  }
+
+  // Get storage statistics for distribution analysis, built from key metadata alone
+  async getStats(): Promise<StorageStats> {
+    try {
+      const configs = await this.getAllWebhookConfigs();
+      const requestPrefix = `${this.keyPrefix}:requests:`;
+      const keys = await this.listAllKeys<RequestSummary>(requestPrefix);
+
+      // Group request metadata by webhook
+      const byWebhook = new Map<string, RequestSummary[]>();
+      keys.forEach(key => {
+        if (!key.metadata) return;
+        const webhookId = key.name.slice(requestPrefix.length).split(':')[0];
+        if (!byWebhook.has(webhookId)) {
+          byWebhook.set(webhookId, []);
+        }
+        byWebhook.get(webhookId)!.push(key.metadata);
+      });
+
+      return buildStorageStats(configs, byWebhook, {
+        totalOperations: 0, // KV doesn't track this yet
+        uptime: Date.now() - this.createdAt
+      }, buildCapacityStats(this.config, await this.getEvictedCount()));
+    } catch (error) {
+      throw new StorageError(`Failed to get KV storage stats: ${error}`, 'kv');
+    }
+  }
+}
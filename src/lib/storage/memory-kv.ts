@@ -0,0 +1,60 @@
+// In-memory stand-in for a Workers KV namespace
+// Mirrors the KV behaviour the KV provider relies on: expiry, metadata, prefix listing and cursors
+
+import type { KVStore } from './kv-provider';
+
+interface MemoryKVEntry {
+  value: string;
+  expiration?: number; // Seconds since epoch, like KV
+  metadata?: unknown;
+}
+
+export class MemoryKVNamespace implements KVStore {
+  private entries = new Map<string, MemoryKVEntry>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  // Drop the entry when it has expired and return it otherwise
+  private getLive(key: string): MemoryKVEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiration !== undefined && entry.expiration * 1000 <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.getLive(key)?.value ?? null;
+  }
+
+  async put(key: string, value: string, options: KVNamespacePutOptions = {}): Promise<void> {
+    const expiration = options.expiration ??
+      (options.expirationTtl !== undefined ? Math.floor(this.now() / 1000) + options.expirationTtl : undefined);
+    this.entries.set(key, { value, expiration, metadata: options.metadata ?? undefined });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  // Keys come back sorted, paged with a cursor that is the offset into the listing
+  async list<Metadata = unknown>(options: KVNamespaceListOptions = {}): Promise<KVNamespaceListResult<Metadata>> {
+    const prefix = options.prefix || '';
+    const limit = Math.min(options.limit ?? 1000, 1000);
+    const start = options.cursor ? parseInt(options.cursor, 10) : 0;
+
+    const names = Array.from(this.entries.keys())
+      .filter(name => name.startsWith(prefix) && this.getLive(name))
+      .sort();
+    const keys = names.slice(start, start + limit).map(name => {
+      const entry = this.entries.get(name)!;
+      return { name, expiration: entry.expiration, metadata: entry.metadata as Metadata | undefined };
+    });
+
+    if (start + limit < names.length) {
+      return { keys, list_complete: false, cursor: String(start + limit), cacheStatus: null };
+    }
+    return { keys, list_complete: true, cacheStatus: null };
+  }
+}
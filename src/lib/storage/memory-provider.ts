@@ -1,18 +1,26 @@
 // Memory storage provider implementation for CF-Webhook
 // Simple in-memory storage for development and fallback scenarios
 
-import type { StorageProvider, StorageConfig, ProviderInfo, StorageStats, WebhookDistribution, MethodDistribution, SizeDistribution, TimeDistribution } from '@/types/storage';
+import type { StorageProvider, StorageConfig, CleanupRun, RequestChanges, ProviderInfo, StorageStats, WebhookDistribution, MethodDistribution, SizeDistribution, TimeDistribution } from '@/types/storage';
 import { StorageError } from '@/types/storage';
-import type { WebhookRequest, WebhookConfig } from '@/types/webhook';
+import type { WebhookRequest, WebhookConfig, RequestFilter, RequestSearchResult } from '@/types/webhook';
+import { hasRequestFilter, matchesRequestFilter } from '@/lib/request-filter';
+import { compareRequestOrder, isAfterCursor, type RequestCursor } from '@/lib/request-cursor';
+import { addTombstone, getDeletedSince, selectChangedRequests, type Tombstone } from '@/lib/request-changes';
+import { DEFAULT_SEARCH_RESULTS, SEARCH_SCAN_LIMIT, getSearchPrefilter, rankSearchMatches } from '@/lib/request-search';
 import { generateProviderInstanceId } from './env-helper';
+import { getCapacityPolicy, getOverflow, rejectsNewRequest, buildCapacityStats, getWebhookLimits, getRetentionOverrides, getRetentionCutoff } from './capacity';
 
 export class MemoryStorageProvider implements StorageProvider {
   private requests = new Map<string, WebhookRequest[]>();
   private configs = new Map<string, WebhookConfig>();
+  private tombstones = new Map<string, Tombstone[]>();
   private config: StorageConfig;
   private instanceId: string;
   private createdAt: number;
   private totalOperations: number = 0;
+  private evictedRequests: number = 0;
+  private lastCleanupRun: CleanupRun | null = null;
 
   constructor(config: StorageConfig, env?: any) {
     this.config = config;
@@ -31,6 +39,7 @@ export class MemoryStorageProvider implements StorageProvider {
       details: {
         retentionHours: this.config.retentionHours,
         maxRequestsPerWebhook: this.config.maxRequestsPerWebhook,
+        capacityPolicy: getCapacityPolicy(this.config),
         currentWebhooks: this.configs.size,
         totalRequests,
         totalOperations: this.totalOperations,
@@ -54,7 +63,7 @@ export class MemoryStorageProvider implements StorageProvider {
   }
 
   // Request operations
-  async saveRequest(webhookId: string, request: WebhookRequest): Promise<void> {
+  async saveRequest(webhookId: string, request: WebhookRequest): Promise<string[]> {
     this.totalOperations++;
     
     if (!this.requests.has(webhookId)) {
@@ -62,23 +71,74 @@ export class MemoryStorageProvider implements StorageProvider {
     }
     
     const requests = this.requests.get(webhookId)!;
+    const limits = getWebhookLimits(this.config, this.configs.get(webhookId)?.retention);
+    if (rejectsNewRequest(limits, requests.length)) {
+      throw StorageError.capacityExceeded('memory', webhookId, limits.maxRequestsPerWebhook);
+    }
+    
     requests.unshift(request); // Add to beginning
     
-    // Limit the number of requests per webhook
-    if (requests.length > this.config.maxRequestsPerWebhook) {
-      const removed = requests.splice(this.config.maxRequestsPerWebhook);
+    // Limit the number of requests per webhook, dropping the oldest
+    const overflow = getOverflow(limits, requests.length);
+    if (overflow === 0) {
+      return [];
     }
+    this.evictedRequests += overflow;
+    return requests.splice(requests.length - overflow).map(evicted => evicted.id);
+  }
+
+  async canAcceptRequest(webhookId: string): Promise<boolean> {
+    const limits = getWebhookLimits(this.config, this.configs.get(webhookId)?.retention);
+    return !rejectsNewRequest(limits, this.requests.get(webhookId)?.length || 0);
   }
 
-  async getRequests(webhookId: string, limit = 100, offset = 0): Promise<WebhookRequest[]> {
+  async getRequests(webhookId: string, limit = 100, cursor?: RequestCursor, filter?: RequestFilter): Promise<WebhookRequest[]> {
     this.totalOperations++;
     
-    const requests = this.requests.get(webhookId) || [];
-    const result = requests.slice(offset, offset + limit);
+    // Stored in arrival order; sorting puts requests captured in the same millisecond in cursor order
+    const stored = [...(this.requests.get(webhookId) || [])].sort(compareRequestOrder);
+    const result = stored
+      .filter(request => isAfterCursor(request, cursor))
+      .filter(request => !hasRequestFilter(filter) || matchesRequestFilter(request, filter))
+      .slice(0, limit);
     
     return result;
   }
 
+  // Substring matches ranked in memory; there is no index to consult
+  async searchRequests(webhookId: string, query: string, limit = DEFAULT_SEARCH_RESULTS): Promise<RequestSearchResult[]> {
+    const candidates = await this.getRequests(webhookId, SEARCH_SCAN_LIMIT, undefined, getSearchPrefilter(query));
+    return rankSearchMatches(candidates, query, limit);
+  }
+
+  async getRequestChanges(webhookId: string, since: Date): Promise<RequestChanges> {
+    this.totalOperations++;
+    
+    const { changed, oldest, truncated } = selectChangedRequests(this.requests.get(webhookId) || [], since);
+    const deleted = getDeletedSince(this.tombstones.get(webhookId) || [], since);
+    return { requests: changed, deletedIds: deleted.deletedIds, oldest, truncated: truncated || deleted.truncated };
+  }
+
+  async getRequest(webhookId: string, requestId: string): Promise<WebhookRequest | null> {
+    this.totalOperations++;
+    
+    const requests = this.requests.get(webhookId) || [];
+    return requests.find(r => r.id === requestId) || null;
+  }
+
+  async updateRequest(webhookId: string, request: WebhookRequest): Promise<boolean> {
+    this.totalOperations++;
+    
+    const requests = this.requests.get(webhookId);
+    const index = requests ? requests.findIndex(r => r.id === request.id) : -1;
+    if (!requests || index === -1) {
+      return false;
+    }
+    
+    requests[index] = request;
+    return true;
+  }
+
   async deleteRequest(webhookId: string, requestId: string): Promise<boolean> {
     this.totalOperations++;
     
@@ -92,6 +152,7 @@ export class MemoryStorageProvider implements StorageProvider {
     
     if (filteredRequests.length !== initialLength) {
       this.requests.set(webhookId, filteredRequests);
+      this.tombstones.set(webhookId, addTombstone(this.tombstones.get(webhookId) || [], requestId));
       return true;
     }
     
@@ -104,6 +165,7 @@ export class MemoryStorageProvider implements StorageProvider {
     const requests = this.requests.get(webhookId);
     const count = requests ? requests.length : 0;
     this.requests.delete(webhookId);
+    this.tombstones.delete(webhookId);
   }
 
   // Webhook configuration operations
@@ -149,13 +211,14 @@ export class MemoryStorageProvider implements StorageProvider {
   async cleanupExpiredRequests(retentionHours: number): Promise<number> {
     this.totalOperations++;
     
-    const cutoffTime = new Date(Date.now() - retentionHours * 60 * 60 * 1000);
+    const overrides = getRetentionOverrides(Array.from(this.configs.values()));
     let totalDeleted = 0;
     let webhooksAffected = 0;
     
     for (const [webhookId, requests] of this.requests.entries()) {
+      const cutoffTime = getRetentionCutoff(retentionHours, overrides, webhookId);
       const initialCount = requests.length;
-      const filteredRequests = requests.filter(r => r.timestamp > cutoffTime);
+      const filteredRequests = requests.filter(r => r.timestamp.getTime() > cutoffTime);
       const deletedFromWebhook = initialCount - filteredRequests.length;
       
       if (deletedFromWebhook > 0) {
@@ -168,6 +231,14 @@ export class MemoryStorageProvider implements StorageProvider {
     return totalDeleted;
   }
 
+  async saveCleanupRun(run: CleanupRun): Promise<void> {
+    this.lastCleanupRun = { ...run };
+  }
+
+  async getLastCleanupRun(): Promise<CleanupRun | null> {
+    return this.lastCleanupRun;
+  }
+
   // Health check
   async isHealthy(): Promise<boolean> {
     this.totalOperations++;
@@ -313,7 +384,8 @@ export class MemoryStorageProvider implements StorageProvider {
       performance: {
         totalOperations: this.totalOperations,
         uptime: Date.now() - this.createdAt
-      }
+      },
+      capacity: buildCapacityStats(this.config, this.evictedRequests)
     };
   }
 
@@ -325,5 +397,6 @@ export class MemoryStorageProvider implements StorageProvider {
     this.configs.clear();
     this.requests.clear();
     this.totalOperations = 0;
+    this.evictedRequests = 0;
   }
 } 
\ No newline at end of file
@@ -1,10 +1,26 @@
 // R2 storage provider implementation for CF-Webhook
 // Uses Cloudflare R2 for persistent storage across CDN nodes
 
-import type { StorageProvider, R2StorageConfig, ProviderInfo, StorageStats, WebhookDistribution, MethodDistribution, SizeDistribution, TimeDistribution } from '@/types/storage';
+import type { StorageProvider, R2StorageConfig, CleanupRun, RequestChanges, ProviderInfo, StorageStats, WebhookDistribution, MethodDistribution, SizeDistribution, TimeDistribution } from '@/types/storage';
 import { StorageError } from '@/types/storage';
-import type { WebhookRequest, WebhookConfig } from '@/types/webhook';
+import type { WebhookRequest, WebhookConfig, RequestFilter, RequestSearchResult } from '@/types/webhook';
+import { hasRequestFilter, matchesRequestSummary, findMatchingRequests } from '@/lib/request-filter';
+import { compareRequestOrder, isAfterCursor, type RequestCursor } from '@/lib/request-cursor';
+import { addTombstone, getDeletedSince, selectChangedRequests, type Tombstone } from '@/lib/request-changes';
+import { DEFAULT_SEARCH_RESULTS, SEARCH_SCAN_LIMIT, getSearchPrefilter, rankSearchMatches } from '@/lib/request-search';
 import { generateProviderInstanceId } from './env-helper';
+import { getCapacityPolicy, getRequestLimit, getOverflow, rejectsNewRequest, buildCapacityStats, getWebhookLimits, getRetentionOverrides, getRetentionCutoff, type WebhookLimits } from './capacity';
+
+// Capture time of a stored request, which updates do not change
+function getCapturedAt(obj: R2Object): number {
+  return new Date(obj.customMetadata?.timestamp || obj.uploaded).getTime();
+}
+
+// Position of a request object in the request history
+function getObjectPosition(obj: R2Object): RequestCursor {
+  const id = obj.customMetadata?.requestId || obj.key.slice(obj.key.lastIndexOf('/') + 1).replace(/\.json$/, '');
+  return { timestamp: getCapturedAt(obj), id };
+}
 
 export class R2StorageProvider implements StorageProvider {
   private bucket: R2Bucket;
@@ -29,7 +45,8 @@ export class R2StorageProvider implements StorageProvider {
         bucketBinding: this.config.bucketBinding,
         pathPrefix: this.pathPrefix,
         retentionHours: this.config.retentionHours,
-        maxRequestsPerWebhook: this.config.maxRequestsPerWebhook
+        maxRequestsPerWebhook: this.config.maxRequestsPerWebhook,
+        capacityPolicy: getCapacityPolicy(this.config)
       }
     };
   }
@@ -44,76 +61,258 @@ export class R2StorageProvider implements StorageProvider {
     return `${this.pathPrefix}/configs/${webhookId}.json`;
   }
 
-  // Request operations
-  async saveRequest(webhookId: string, request: WebhookRequest): Promise<void> {
-    try {
-      const path = this.getRequestPath(webhookId, request.id);
-      const data = JSON.stringify(request);
+  private getCleanupRunPath(): string {
+    return `${this.pathPrefix}/maintenance/last-cleanup.json`;
+  }
 
-      await this.bucket.put(path, data, {
-        customMetadata: {
-          webhookId,
-          requestId: request.id,
-          timestamp: request.timestamp.toISOString(),
-        },
-        httpMetadata: {
-          contentType: 'application/json',
-        },
+  private getEvictionsPath(webhookId?: string): string {
+    const base = `${this.pathPrefix}/evictions/`;
+    return webhookId ? `${base}${webhookId}.json` : base;
+  }
+
+  private getTombstonesPath(webhookId: string): string {
+    return `${this.pathPrefix}/deletions/${webhookId}.json`;
+  }
+
+  // Every request object of a webhook, following the list cursor
+  private async listRequestObjects(webhookId: string): Promise<R2Object[]> {
+    const objects: R2Object[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const listed = await this.bucket.list({
+        prefix: `${this.getRequestPath(webhookId)}/`,
+        cursor,
+        include: ['customMetadata'],
       });
+      objects.push(...listed.objects.filter(obj => obj.key.endsWith('.json')));
+      cursor = listed.truncated ? listed.cursor : undefined;
+    } while (cursor);
 
-    } catch (error) {
-      throw new StorageError(`Failed to save request: ${error}`, 'r2');
+    return objects;
+  }
+
+  // Server-wide limits with the webhook's retention overrides applied
+  private async getLimits(webhookId: string): Promise<WebhookLimits> {
+    const config = await this.getWebhookConfig(webhookId);
+    return getWebhookLimits(this.config, config?.retention);
+  }
+
+  private async putRequest(webhookId: string, request: WebhookRequest): Promise<void> {
+    const path = this.getRequestPath(webhookId, request.id);
+    const data = JSON.stringify(request);
+
+    await this.bucket.put(path, data, {
+      customMetadata: {
+        webhookId,
+        requestId: request.id,
+        timestamp: request.timestamp.toISOString(),
+        ...(request.updatedAt && { updatedAt: request.updatedAt.toISOString() }),
+      },
+      httpMetadata: {
+        contentType: 'application/json',
+      },
+    });
+  }
+
+  // Delete the oldest requests beyond the per-webhook limit and add them to the webhook's eviction count,
+  // returning their IDs
+  private async evictOverflow(webhookId: string, limits: WebhookLimits): Promise<string[]> {
+    if (getRequestLimit(limits) === null || getCapacityPolicy(limits) !== 'evict') {
+      return [];
     }
+
+    const objects = await this.listRequestObjects(webhookId);
+    const overflow = getOverflow(limits, objects.length);
+    if (overflow === 0) {
+      return [];
+    }
+
+    const oldest = objects
+      .sort((a, b) => getCapturedAt(a) - getCapturedAt(b))
+      .slice(0, overflow);
+    const keys = oldest.map(obj => obj.key);
+
+    // R2 deletes at most 1000 keys per call
+    for (let i = 0; i < keys.length; i += 1000) {
+      await this.bucket.delete(keys.slice(i, i + 1000));
+    }
+
+    // The count lives in custom metadata so stats can sum it from a listing
+    const path = this.getEvictionsPath(webhookId);
+    const existing = await this.bucket.head(path);
+    const evictedCount = parseInt(existing?.customMetadata?.evictedCount || '0') + overflow;
+    await this.bucket.put(path, JSON.stringify({ webhookId, evictedCount, lastEvictedAt: new Date().toISOString() }), {
+      customMetadata: {
+        evictedCount: evictedCount.toString(),
+      },
+      httpMetadata: {
+        contentType: 'application/json',
+      },
+    });
+    return oldest.map(obj => obj.customMetadata?.requestId || obj.key.slice(obj.key.lastIndexOf('/') + 1, -'.json'.length));
+  }
+
+  // Total requests evicted across all webhooks
+  private async getEvictedCount(): Promise<number> {
+    let total = 0;
+    let cursor: string | undefined;
+
+    do {
+      const listed = await this.bucket.list({ prefix: this.getEvictionsPath(), cursor, include: ['customMetadata'] });
+      total += listed.objects.reduce((sum, obj) => sum + parseInt(obj.customMetadata?.evictedCount || '0'), 0);
+      cursor = listed.truncated ? listed.cursor : undefined;
+    } while (cursor);
+
+    return total;
   }
 
-  async getRequests(webhookId: string, limit = 100, offset = 0): Promise<WebhookRequest[]> {
+  // Request operations
+  async saveRequest(webhookId: string, request: WebhookRequest): Promise<string[]> {
     try {
-      const basePath = this.getRequestPath(webhookId);
-      
-      // List objects with prefix
-      const objects = await this.bucket.list({
-        prefix: basePath,
-        limit: limit + offset,
-      });
+      const limits = await this.getLimits(webhookId);
+      if (!(await this.hasRoomFor(webhookId, limits))) {
+        throw StorageError.capacityExceeded('r2', webhookId, limits.maxRequestsPerWebhook);
+      }
 
-      if (!objects.objects || objects.objects.length === 0) {
-        return [];
+      await this.putRequest(webhookId, request);
+      return await this.evictOverflow(webhookId, limits);
+    } catch (error) {
+      if (error instanceof StorageError && error.isCapacityError()) {
+        throw error;
       }
+      throw new StorageError(`Failed to save request: ${error}`, 'r2');
+    }
+  }
+
+  async canAcceptRequest(webhookId: string): Promise<boolean> {
+    return this.hasRoomFor(webhookId, await this.getLimits(webhookId));
+  }
 
-      // Sort by timestamp (newest first) and apply pagination
-      const sortedObjects = objects.objects
-        .filter(obj => obj.key.endsWith('.json'))
-        .sort((a, b) => new Date(b.uploaded).getTime() - new Date(a.uploaded).getTime())
-        .slice(offset, offset + limit);
+  private async hasRoomFor(webhookId: string, limits: WebhookLimits): Promise<boolean> {
+    // Counting means listing every request, so only do it when a full webhook would refuse
+    if (getRequestLimit(limits) === null || getCapacityPolicy(limits) !== 'reject') {
+      return true;
+    }
+    return !rejectsNewRequest(limits, (await this.listRequestObjects(webhookId)).length);
+  }
 
-      // Fetch and parse requests
-      const requests: WebhookRequest[] = [];
-      
-      for (const obj of sortedObjects) {
-        try {
-          const object = await this.bucket.get(obj.key);
-          if (!object) continue;
+  // Read and parse request objects, skipping ones that are gone or unreadable
+  private async loadRequests(objects: R2Object[]): Promise<WebhookRequest[]> {
+    const requests: WebhookRequest[] = [];
 
-          const data = await object.text();
-          const request = JSON.parse(data) as WebhookRequest;
-          request.timestamp = new Date(request.timestamp);
-          requests.push(request);
-        } catch (parseError) {
-          console.warn(`Failed to parse request from ${obj.key}:`, parseError);
-          continue;
+    for (const obj of objects) {
+      try {
+        const object = await this.bucket.get(obj.key);
+        if (!object) continue;
+
+        const request = JSON.parse(await object.text()) as WebhookRequest;
+        request.timestamp = new Date(request.timestamp);
+        if (request.updatedAt) {
+          request.updatedAt = new Date(request.updatedAt);
         }
+        requests.push(request);
+      } catch (parseError) {
+        console.warn(`Failed to parse request from ${obj.key}:`, parseError);
       }
+    }
+
+    return requests;
+  }
 
-      return requests;
+  async getRequests(webhookId: string, limit = 100, cursor?: RequestCursor, filter?: RequestFilter): Promise<WebhookRequest[]> {
+    try {
+      // R2 lists keys alphabetically; order by capture time and ID, then skip to the cursor.
+      // Updated requests keep their position because the capture time is in the custom metadata.
+      const objects = (await this.listRequestObjects(webhookId))
+        .sort((a, b) => compareRequestOrder(getObjectPosition(a), getObjectPosition(b)))
+        .filter(obj => isAfterCursor(getObjectPosition(obj), cursor));
+
+      if (hasRequestFilter(filter)) {
+        // Objects outside the date range are never read
+        const candidates = objects.filter(obj => matchesRequestSummary({ timestamp: getCapturedAt(obj) }, filter));
+        return await findMatchingRequests(candidates, batch => this.loadRequests(batch), filter, limit);
+      }
+
+      return await this.loadRequests(objects.slice(0, limit));
     } catch (error) {
       throw new StorageError(`Failed to get requests: ${error}`, 'r2');
     }
   }
 
+  // Objects are loaded and ranked in the worker, R2 has no way to search their content
+  async searchRequests(webhookId: string, query: string, limit = DEFAULT_SEARCH_RESULTS): Promise<RequestSearchResult[]> {
+    const candidates = await this.getRequests(webhookId, SEARCH_SCAN_LIMIT, undefined, getSearchPrefilter(query));
+    return rankSearchMatches(candidates, query, limit);
+  }
+
+  async getRequestChanges(webhookId: string, since: Date): Promise<RequestChanges> {
+    try {
+      // The update time travels in the custom metadata, so unchanged objects are never read
+      const objects = (await this.listRequestObjects(webhookId)).map(obj => ({
+        obj,
+        ...getObjectPosition(obj),
+        updatedAt: obj.customMetadata?.updatedAt,
+      }));
+      const { changed, oldest, truncated } = selectChangedRequests(objects, since);
+      const requests = await this.loadRequests(changed.map(({ obj }) => obj));
+      const deleted = getDeletedSince(await this.getTombstones(webhookId), since);
+
+      return { requests, deletedIds: deleted.deletedIds, oldest, truncated: truncated || deleted.truncated };
+    } catch (error) {
+      throw new StorageError(`Failed to get request changes: ${error}`, 'r2');
+    }
+  }
+
+  private async getTombstones(webhookId: string): Promise<Tombstone[]> {
+    const object = await this.bucket.get(this.getTombstonesPath(webhookId));
+    return object ? JSON.parse(await object.text()) as Tombstone[] : [];
+  }
+
+  async getRequest(webhookId: string, requestId: string): Promise<WebhookRequest | null> {
+    try {
+      const object = await this.bucket.get(this.getRequestPath(webhookId, requestId));
+      if (!object) {
+        return null;
+      }
+
+      const request = JSON.parse(await object.text()) as WebhookRequest;
+      request.timestamp = new Date(request.timestamp);
+      if (request.updatedAt) {
+        request.updatedAt = new Date(request.updatedAt);
+      }
+      return request;
+    } catch (error) {
+      throw new StorageError(`Failed to get request: ${error}`, 'r2');
+    }
+  }
+
+  async updateRequest(webhookId: string, request: WebhookRequest): Promise<boolean> {
+    try {
+      const exists = await this.bucket.head(this.getRequestPath(webhookId, request.id));
+      if (!exists) {
+        return false;
+      }
+
+      await this.putRequest(webhookId, request);
+      return true;
+    } catch (error) {
+      throw new StorageError(`Failed to update request: ${error}`, 'r2');
+    }
+  }
+
   async deleteRequest(webhookId: string, requestId: string): Promise<boolean> {
     try {
       const path = this.getRequestPath(webhookId, requestId);
       await this.bucket.delete(path);
+
+      // Read-modify-write, so concurrent deletions can drop a tombstone; those requests reappear until the next reload
+      const tombstones = addTombstone(await this.getTombstones(webhookId), requestId);
+      await this.bucket.put(this.getTombstonesPath(webhookId), JSON.stringify(tombstones), {
+        httpMetadata: {
+          contentType: 'application/json',
+        },
+      });
       return true;
     } catch (error) {
       console.error(`Failed to delete request: ${error}`);
@@ -124,6 +323,7 @@ export class R2StorageProvider implements StorageProvider {
   async clearRequests(webhookId: string): Promise<void> {
     try {
       const basePath = this.getRequestPath(webhookId);
+      await this.bucket.delete(this.getTombstonesPath(webhookId));
       
       // List all objects for this webhook
       const objects = await this.bucket.list({
@@ -189,8 +389,7 @@ export class R2StorageProvider implements StorageProvider {
 
       return config;
     } catch (error) {
-      console.error(`Failed to get webhook config: ${error}`);
-      return null;
+      throw new StorageError(`Failed to get webhook config: ${error}`, 'r2');
     }
   }
 
@@ -249,18 +448,20 @@ export class R2StorageProvider implements StorageProvider {
   // Cleanup operations
   async cleanupExpiredRequests(retentionHours: number): Promise<number> {
     try {
-      const cutoffTime = new Date(Date.now() - retentionHours * 60 * 60 * 1000);
-      const objects = await this.bucket.list({
-        prefix: `${this.pathPrefix}/requests/`,
-      });
-
-      if (!objects.objects || objects.objects.length === 0) {
-        return 0;
-      }
-
-      const expiredObjects = objects.objects.filter(obj => 
-        obj.uploaded < cutoffTime
-      );
+      const overrides = getRetentionOverrides(await this.getAllWebhookConfigs());
+      const requestsPrefix = `${this.pathPrefix}/requests/`;
+      const expiredObjects: R2Object[] = [];
+      let cursor: string | undefined;
+
+      // Updates rewrite request objects, so retention counts from the capture time rather than the upload time
+      do {
+        const listed = await this.bucket.list({ prefix: requestsPrefix, cursor, include: ['customMetadata'] });
+        expiredObjects.push(...listed.objects.filter(obj => {
+          const webhookId = obj.key.slice(requestsPrefix.length).split('/')[0];
+          return obj.key.endsWith('.json') && getCapturedAt(obj) < getRetentionCutoff(retentionHours, overrides, webhookId);
+        }));
+        cursor = listed.truncated ? listed.cursor : undefined;
+      } while (cursor);
 
       if (expiredObjects.length === 0) {
         return 0;
@@ -285,6 +486,34 @@ export class R2StorageProvider implements StorageProvider {
     }
   }
 
+  async saveCleanupRun(run: CleanupRun): Promise<void> {
+    try {
+      await this.bucket.put(this.getCleanupRunPath(), JSON.stringify(run), {
+        httpMetadata: {
+          contentType: 'application/json',
+        },
+      });
+    } catch (error) {
+      throw new StorageError(`Failed to save cleanup run: ${error}`, 'r2');
+    }
+  }
+
+  async getLastCleanupRun(): Promise<CleanupRun | null> {
+    try {
+      const object = await this.bucket.get(this.getCleanupRunPath());
+      if (!object) {
+        return null;
+      }
+
+      const run = JSON.parse(await object.text()) as CleanupRun;
+      run.startedAt = new Date(run.startedAt);
+      return run;
+    } catch (error) {
+      console.error(`Failed to get last cleanup run: ${error}`);
+      return null;
+    }
+  }
+
   // Health check
   async isHealthy(): Promise<boolean> {
     try {
@@ -422,7 +651,8 @@ export class R2StorageProvider implements StorageProvider {
         performance: {
           totalOperations: 0, // R2 doesn't track this yet
           uptime: 0 // R2 doesn't track this yet
-        }
+        },
+        capacity: buildCapacityStats(this.config, await this.getEvictedCount())
       };
     } catch (error) {
       throw new StorageError(`Failed to get R2 storage stats: ${error}`, 'r2');
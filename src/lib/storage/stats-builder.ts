@@ -0,0 +1,130 @@
+// Storage statistics built from per-request summaries
+// Used by providers that can read request metadata without loading whole requests
+
+import type { StorageStats, WebhookDistribution, MethodDistribution, SizeDistribution, TimeDistribution } from '@/types/storage';
+import type { WebhookConfig } from '@/types/webhook';
+
+// What the statistics need to know about a stored request
+export interface RequestSummary {
+  timestamp: number; // Capture time in ms since epoch
+  method: string;
+  bodySize: number;
+}
+
+/**
+ * Build storage statistics from the webhook configs and the request summaries of each webhook.
+ * Webhooks with a config but no requests are listed with a zero count.
+ */
+export function buildStorageStats(
+  configs: WebhookConfig[],
+  requestsByWebhook: Map<string, RequestSummary[]>,
+  performance: StorageStats['performance'],
+  capacity: StorageStats['capacity']
+): StorageStats {
+  const byWebhook = new Map<string, RequestSummary[]>();
+  configs.forEach(config => byWebhook.set(config.id, []));
+  requestsByWebhook.forEach((requests, webhookId) => byWebhook.set(webhookId, requests));
+
+  const allRequests = Array.from(byWebhook.values()).flat();
+  const totalRequests = allRequests.length;
+  const configsById = new Map(configs.map(config => [config.id, config]));
+
+  const webhookDistribution: WebhookDistribution[] = Array.from(byWebhook.entries()).map(([webhookId, requests]) => {
+    const config = configsById.get(webhookId);
+    const totalSize = requests.reduce((sum, req) => sum + req.bodySize, 0);
+
+    return {
+      webhookId,
+      webhookName: config?.name,
+      requestCount: requests.length,
+      totalSize,
+      averageSize: requests.length > 0 ? totalSize / requests.length : 0,
+      lastRequestAt: requests.length > 0 ? new Date(requests.reduce((max, r) => Math.max(max, r.timestamp), 0)) : undefined,
+      isActive: config?.isActive ?? false,
+      percentage: totalRequests > 0 ? (requests.length / totalRequests) * 100 : 0
+    };
+  });
+
+  // Build method distribution
+  const methodCounts: Record<string, { count: number; totalSize: number }> = {};
+  allRequests.forEach(req => {
+    if (!methodCounts[req.method]) {
+      methodCounts[req.method] = { count: 0, totalSize: 0 };
+    }
+    methodCounts[req.method].count++;
+    methodCounts[req.method].totalSize += req.bodySize;
+  });
+
+  const requestMethodDistribution: MethodDistribution[] = Object.entries(methodCounts)
+    .map(([method, data]) => ({
+      method,
+      count: data.count,
+      percentage: totalRequests > 0 ? (data.count / totalRequests) * 100 : 0,
+      totalSize: data.totalSize
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  // Build size distribution
+  const sizeRanges = [
+    { range: '0-1KB', min: 0, max: 1024 },
+    { range: '1KB-10KB', min: 1024, max: 10240 },
+    { range: '10KB-100KB', min: 10240, max: 102400 },
+    { range: '100KB-1MB', min: 102400, max: 1048576 },
+    { range: '1MB+', min: 1048576, max: Infinity }
+  ];
+
+  const requestSizeDistribution: SizeDistribution[] = sizeRanges.map(range => {
+    const count = allRequests.filter(req => req.bodySize >= range.min && req.bodySize < range.max).length;
+    return {
+      sizeRange: range.range,
+      count,
+      percentage: totalRequests > 0 ? (count / totalRequests) * 100 : 0,
+      minSize: range.min,
+      maxSize: range.max === Infinity ? -1 : range.max
+    };
+  });
+
+  // Build time distribution
+  const now = Date.now();
+  const hour = 60 * 60 * 1000;
+  const timeRanges = [
+    { period: 'Last Hour', from: now - hour, to: now },
+    { period: 'Last 6 Hours', from: now - 6 * hour, to: now - hour },
+    { period: 'Last 24 Hours', from: now - 24 * hour, to: now - 6 * hour },
+    { period: 'Older', from: 0, to: now - 24 * hour }
+  ];
+
+  const timeDistribution: TimeDistribution[] = timeRanges.map(range => {
+    const count = allRequests.filter(req =>
+      req.timestamp >= range.from && (range.to === now ? req.timestamp <= now : req.timestamp < range.to)
+    ).length;
+
+    return {
+      period: range.period,
+      count,
+      percentage: totalRequests > 0 ? (count / totalRequests) * 100 : 0,
+      timeRange: range.from === 0 ? `Before ${new Date(range.to).toLocaleString()}` :
+        `${new Date(range.from).toLocaleString()} - ${new Date(range.to).toLocaleString()}`
+    };
+  });
+
+  // Calculate storage usage
+  const totalSizeBytes = allRequests.reduce((sum, req) => sum + req.bodySize, 0);
+
+  return {
+    totalWebhooks: configs.length,
+    totalRequests,
+    webhooksWithRequests: webhookDistribution.filter(w => w.requestCount > 0).length,
+    webhookDistribution: webhookDistribution.sort((a, b) => b.requestCount - a.requestCount),
+    requestMethodDistribution,
+    requestSizeDistribution,
+    timeDistribution,
+    storageUsage: {
+      totalSizeBytes,
+      averageRequestSize: totalRequests > 0 ? totalSizeBytes / totalRequests : 0,
+      largestRequestSize: allRequests.reduce((max, req) => Math.max(max, req.bodySize), 0)
+    },
+    performance,
+    capacity
+  };
+}
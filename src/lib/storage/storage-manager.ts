@@ -1,23 +1,33 @@
 // Storage manager for CF-Webhook
 // Manages different storage providers and provides a unified interface
 
-import type { StorageProvider, StorageConfig, R2StorageConfig, D1StorageConfig } from '@/types/storage';
+import type { StorageProvider, StorageConfig, CleanupRun, RequestChanges, R2StorageConfig, KVStorageConfig, D1StorageConfig, DurableObjectStorageConfig, HybridStorageConfig } from '@/types/storage';
 import { StorageError } from '@/types/storage';
 import { R2StorageProvider } from './r2-provider';
+import { KVStorageProvider } from './kv-provider';
 import { D1StorageProvider } from './d1-provider';
+import { DurableObjectStorageProvider } from './durable-object-provider';
+import { HybridStorageProvider } from './hybrid-provider';
 import { MemoryStorageProvider } from './memory-provider';
 import { getEnvironment, getPreferredStorageProvider, debugEnvironment } from './env-helper';
-import type { WebhookRequest, WebhookConfig } from '@/types/webhook';
+import { getRetentionOverrides, getRetentionCutoff } from './capacity';
+import type { WebhookRequest, WebhookConfig, RequestFilter, RequestSearchResult } from '@/types/webhook';
+import type { RequestCursor } from '@/lib/request-cursor';
+import { notifyWebhookChanged } from '@/lib/realtime';
 
 export class StorageManager {
   private provider: StorageProvider;
   private config: StorageConfig;
   private startTime: number;
+  private rawBodyBucket?: R2Bucket; // Holds request bodies too large to store inline
+  private rawBodyPrefix: string;
 
-  private constructor(provider: StorageProvider, config: StorageConfig) {
+  private constructor(provider: StorageProvider, config: StorageConfig, rawBodyBucket?: R2Bucket, rawBodyPrefix = 'cf-webhook') {
     this.provider = provider;
     this.config = config;
     this.startTime = Date.now();
+    this.rawBodyBucket = rawBodyBucket;
+    this.rawBodyPrefix = rawBodyPrefix;
   }
 
   static async create(config: StorageConfig, env?: any): Promise<StorageManager> {
@@ -25,7 +35,12 @@ export class StorageManager {
     
     try {
       const provider = await StorageManager.createProvider(config, env);
-      const manager = new StorageManager(provider, config);
+      const manager = new StorageManager(
+        provider,
+        config,
+        env?.WEBHOOK_STORAGE,
+        env?.STORAGE_PATH_PREFIX || 'cf-webhook'
+      );
       const providerInfo = provider.getProviderInfo();
       
       const createDuration = performance.now() - createStartTime;
@@ -51,7 +66,13 @@ export class StorageManager {
         return new R2StorageProvider(env.WEBHOOK_STORAGE, config as R2StorageConfig, env);
       
       case 'kv':
-        throw new StorageError('KV provider not implemented yet', 'kv');
+        if (!env?.WEBHOOK_CACHE) {
+          throw new StorageError(
+            'KV namespace binding not found. Please configure WEBHOOK_CACHE in wrangler.toml',
+            'kv'
+          );
+        }
+        return new KVStorageProvider(env.WEBHOOK_CACHE, config as KVStorageConfig, env);
       
       case 'd1':
         if (!env?.WEBHOOK_DB) {
@@ -66,6 +87,33 @@ export class StorageManager {
         }
         return d1Provider;
       
+      case 'do':
+        if (!env?.WEBHOOK_STORE) {
+          throw new StorageError(
+            'Durable Object namespace binding not found. Please configure WEBHOOK_STORE in wrangler.toml',
+            'do'
+          );
+        }
+        return new DurableObjectStorageProvider(env.WEBHOOK_STORE, config as DurableObjectStorageConfig, env);
+      
+      case 'hybrid':
+        if (!env?.WEBHOOK_DB) {
+          throw StorageError.d1BindingNotFound('WEBHOOK_DB');
+        }
+        if (!env?.WEBHOOK_STORAGE) {
+          throw new StorageError(
+            'R2 bucket binding not found. The hybrid provider needs WEBHOOK_STORAGE in wrangler.toml',
+            'hybrid'
+          );
+        }
+        const hybridProvider = new HybridStorageProvider(env.WEBHOOK_DB, env.WEBHOOK_STORAGE, config as HybridStorageConfig, env);
+        try {
+          await hybridProvider.initialize();
+        } catch (error) {
+          throw StorageError.d1InitializationFailed(error);
+        }
+        return hybridProvider;
+      
       case 'memory':
         console.warn('[StorageManager] Using memory storage - data will not persist between restarts!');
         return new MemoryStorageProvider(config, env);
@@ -78,17 +126,37 @@ export class StorageManager {
   // Request operations with timing and error handling
   async saveRequest(webhookId: string, request: WebhookRequest): Promise<void> {
     try {
-      await this.provider.saveRequest(webhookId, request);
+      // The receiver may take a while between capture and save, e.g. waiting on an upstream, so incremental polls
+      // select requests by when they were stored rather than by their capture time
+      const evictedIds = await this.provider.saveRequest(webhookId, { ...request, updatedAt: new Date() });
+      await this.deleteEvictedRawBodies(webhookId, evictedIds);
+      notifyWebhookChanged(webhookId);
     } catch (error) {
+      // A refused request keeps nothing, including a raw body saved ahead of it
+      if (error instanceof StorageError && error.isCapacityError()) {
+        await this.deleteRawBody(webhookId, request.id);
+        throw error;
+      }
       const providerInfo = this.provider.getProviderInfo();
       console.error(`[${providerInfo.type}:${providerInfo.instance.slice(-8)}] Failed to save request:`, error);
       throw error;
     }
   }
 
-  async getRequests(webhookId: string, limit: number = 100, offset: number = 0): Promise<WebhookRequest[]> {
+  // Whether a new request for the webhook would be stored; saveRequest enforces the same limit
+  async canAcceptRequest(webhookId: string): Promise<boolean> {
     try {
-      const requests = await this.provider.getRequests(webhookId, limit, offset);
+      return await this.provider.canAcceptRequest(webhookId);
+    } catch (error) {
+      const providerInfo = this.provider.getProviderInfo();
+      console.error(`[${providerInfo.type}:${providerInfo.instance.slice(-8)}] Failed to check capacity:`, error);
+      throw error;
+    }
+  }
+
+  async getRequests(webhookId: string, limit: number = 100, cursor?: RequestCursor, filter?: RequestFilter): Promise<WebhookRequest[]> {
+    try {
+      const requests = await this.provider.getRequests(webhookId, limit, cursor, filter);
       return requests;
     } catch (error) {
       const providerInfo = this.provider.getProviderInfo();
@@ -97,9 +165,58 @@ export class StorageManager {
     }
   }
 
+  async searchRequests(webhookId: string, query: string, limit?: number): Promise<RequestSearchResult[]> {
+    try {
+      return await this.provider.searchRequests(webhookId, query, limit);
+    } catch (error) {
+      const providerInfo = this.provider.getProviderInfo();
+      console.error(`[${providerInfo.type}:${providerInfo.instance.slice(-8)}] Failed to search requests:`, error);
+      throw error;
+    }
+  }
+
+  async getRequestChanges(webhookId: string, since: Date): Promise<RequestChanges> {
+    try {
+      return await this.provider.getRequestChanges(webhookId, since);
+    } catch (error) {
+      const providerInfo = this.provider.getProviderInfo();
+      console.error(`[${providerInfo.type}:${providerInfo.instance.slice(-8)}] Failed to get request changes:`, error);
+      throw error;
+    }
+  }
+
+  async getRequest(webhookId: string, requestId: string): Promise<WebhookRequest | null> {
+    try {
+      return await this.provider.getRequest(webhookId, requestId);
+    } catch (error) {
+      const providerInfo = this.provider.getProviderInfo();
+      console.error(`[${providerInfo.type}:${providerInfo.instance.slice(-8)}] Failed to get request:`, error);
+      throw error;
+    }
+  }
+
+  async updateRequest(webhookId: string, request: WebhookRequest): Promise<boolean> {
+    try {
+      // Stamped here so every provider can tell incremental polls what changed
+      const updated = await this.provider.updateRequest(webhookId, { ...request, updatedAt: new Date() });
+      if (updated) {
+        notifyWebhookChanged(webhookId);
+      }
+      return updated;
+    } catch (error) {
+      const providerInfo = this.provider.getProviderInfo();
+      console.error(`[${providerInfo.type}:${providerInfo.instance.slice(-8)}] Failed to update request:`, error);
+      throw error;
+    }
+  }
+
   async deleteRequest(webhookId: string, requestId: string): Promise<boolean> {
     try {
       const result = await this.provider.deleteRequest(webhookId, requestId);
+      await this.deleteRawBody(webhookId, requestId);
+      if (result) {
+        notifyWebhookChanged(webhookId);
+      }
       return result;
     } catch (error) {
       const providerInfo = this.provider.getProviderInfo();
@@ -111,6 +228,8 @@ export class StorageManager {
   async clearRequests(webhookId: string): Promise<void> {
     try {
       await this.provider.clearRequests(webhookId);
+      await this.deleteRawBodies(`${this.getRawBodyKey(webhookId)}/`);
+      notifyWebhookChanged(webhookId);
     } catch (error) {
       const providerInfo = this.provider.getProviderInfo();
       console.error(`[${providerInfo.type}:${providerInfo.instance.slice(-8)}] Failed to clear requests:`, error);
@@ -118,6 +237,91 @@ export class StorageManager {
     }
   }
 
+  // Raw body operations - exact bytes of bodies too large to store inline
+  private getRawBodyKey(webhookId: string, requestId?: string): string {
+    const base = `${this.rawBodyPrefix}/raw-bodies/${webhookId}`;
+    return requestId ? `${base}/${requestId}` : base;
+  }
+
+  // Store raw body bytes as an object; returns null when no object storage is available
+  async saveRawBody(webhookId: string, requestId: string, bytes: Uint8Array, contentType?: string): Promise<string | null> {
+    if (!this.rawBodyBucket) return null;
+
+    const key = this.getRawBodyKey(webhookId, requestId);
+    try {
+      await this.rawBodyBucket.put(key, bytes, {
+        httpMetadata: contentType ? { contentType } : undefined,
+        customMetadata: { webhookId, requestId },
+      });
+      return key;
+    } catch (error) {
+      console.error(`[StorageManager] Failed to save raw body for request ${requestId}:`, error);
+      return null;
+    }
+  }
+
+  async getRawBody(
+    webhookId: string,
+    requestId: string,
+    range?: { offset: number; length: number }
+  ): Promise<R2ObjectBody | null> {
+    if (!this.rawBodyBucket) return null;
+
+    try {
+      return await this.rawBodyBucket.get(this.getRawBodyKey(webhookId, requestId), range ? { range } : undefined);
+    } catch (error) {
+      console.error(`[StorageManager] Failed to get raw body for request ${requestId}:`, error);
+      throw error;
+    }
+  }
+
+  private async deleteRawBody(webhookId: string, requestId: string): Promise<void> {
+    if (!this.rawBodyBucket) return;
+
+    try {
+      await this.rawBodyBucket.delete(this.getRawBodyKey(webhookId, requestId));
+    } catch (error) {
+      console.error(`[StorageManager] Failed to delete raw body for request ${requestId}:`, error);
+    }
+  }
+
+  // Delete the raw bodies of requests a save evicted to make room
+  private async deleteEvictedRawBodies(webhookId: string, requestIds: string[]): Promise<void> {
+    if (!this.rawBodyBucket || requestIds.length === 0) return;
+
+    try {
+      // R2 deletes at most 1000 keys per call
+      for (let i = 0; i < requestIds.length; i += 1000) {
+        await this.rawBodyBucket.delete(requestIds.slice(i, i + 1000).map(requestId => this.getRawBodyKey(webhookId, requestId)));
+      }
+    } catch (error) {
+      console.error(`[StorageManager] Failed to delete raw bodies of ${requestIds.length} evicted requests:`, error);
+    }
+  }
+
+  // Delete raw body objects under a prefix, optionally only those the filter selects
+  private async deleteRawBodies(prefix: string, shouldDelete?: (object: R2Object) => boolean): Promise<void> {
+    if (!this.rawBodyBucket) return;
+
+    try {
+      let cursor: string | undefined;
+      do {
+        const listed = await this.rawBodyBucket.list({ prefix, cursor });
+        const keys = listed.objects
+          .filter(object => !shouldDelete || shouldDelete(object))
+          .map(object => object.key);
+
+        if (keys.length > 0) {
+          await this.rawBodyBucket.delete(keys);
+        }
+
+        cursor = listed.truncated ? listed.cursor : undefined;
+      } while (cursor);
+    } catch (error) {
+      console.error(`[StorageManager] Failed to delete raw bodies under ${prefix}:`, error);
+    }
+  }
+
   // Webhook configuration operations
   async saveWebhookConfig(config: WebhookConfig): Promise<void> {
     try {
@@ -166,6 +370,15 @@ export class StorageManager {
   async cleanupExpiredRequests(): Promise<number> {
     try {
       const deletedCount = await this.provider.cleanupExpiredRequests(this.config.retentionHours);
+      if (this.rawBodyBucket) {
+        // Raw bodies follow the retention of the webhook they belong to
+        const overrides = getRetentionOverrides(await this.provider.getAllWebhookConfigs());
+        const prefix = `${this.rawBodyPrefix}/raw-bodies/`;
+        await this.deleteRawBodies(prefix, object => {
+          const webhookId = object.key.slice(prefix.length).split('/')[0];
+          return object.uploaded.getTime() < getRetentionCutoff(this.config.retentionHours, overrides, webhookId);
+        });
+      }
       return deletedCount;
     } catch (error) {
       const providerInfo = this.provider.getProviderInfo();
@@ -174,6 +387,43 @@ export class StorageManager {
     }
   }
 
+  // Run retention cleanup and record its outcome, which the server stats report
+  async runRetentionCleanup(cron?: string): Promise<CleanupRun> {
+    const startedAt = new Date();
+    const run: CleanupRun = {
+      startedAt,
+      durationMs: 0,
+      deletedCount: 0,
+      retentionHours: this.config.retentionHours,
+      cron,
+    };
+
+    try {
+      run.deletedCount = await this.cleanupExpiredRequests();
+    } catch (error) {
+      run.error = error instanceof Error ? error.message : String(error);
+    }
+    run.durationMs = Date.now() - startedAt.getTime();
+
+    try {
+      await this.provider.saveCleanupRun(run);
+    } catch (error) {
+      const providerInfo = this.provider.getProviderInfo();
+      console.error(`[${providerInfo.type}:${providerInfo.instance.slice(-8)}] Failed to record cleanup run:`, error);
+    }
+    return run;
+  }
+
+  async getLastCleanupRun(): Promise<CleanupRun | null> {
+    try {
+      return await this.provider.getLastCleanupRun();
+    } catch (error) {
+      const providerInfo = this.provider.getProviderInfo();
+      console.error(`[${providerInfo.type}:${providerInfo.instance.slice(-8)}] Failed to get last cleanup run:`, error);
+      return null;
+    }
+  }
+
   async isHealthy(): Promise<boolean> {
     try {
       const healthy = await this.provider.isHealthy();
@@ -212,11 +462,12 @@ export class StorageManager {
 }
 
 // Build default configuration from environment
-function buildDefaultConfig(provider: 'r2' | 'd1' | 'memory', env: any): StorageConfig {
+function buildDefaultConfig(provider: 'r2' | 'kv' | 'd1' | 'do' | 'hybrid' | 'memory', env: any): StorageConfig {
   const baseConfig = {
     retentionHours: parseInt(env?.REQUEST_RETENTION_HOURS || '24'),
     maxRequestsPerWebhook: parseInt(env?.MAX_REQUESTS_PER_WEBHOOK || '100'),
-  };
+    capacityPolicy: env?.REQUEST_CAPACITY_POLICY === 'reject' ? 'reject' : 'evict',
+  } as const;
 
   switch (provider) {
     case 'd1':
@@ -235,6 +486,32 @@ function buildDefaultConfig(provider: 'r2' | 'd1' | 'memory', env: any): Storage
         pathPrefix: env?.STORAGE_PATH_PREFIX || 'cf-webhook',
       } as R2StorageConfig;
       
+    case 'kv':
+      return {
+        ...baseConfig,
+        provider: 'kv',
+        namespaceBinding: 'WEBHOOK_CACHE',
+        keyPrefix: env?.STORAGE_PATH_PREFIX || 'cf-webhook',
+      } as KVStorageConfig;
+      
+    case 'do':
+      return {
+        ...baseConfig,
+        provider: 'do',
+        namespaceBinding: 'WEBHOOK_STORE',
+      } as DurableObjectStorageConfig;
+      
+    case 'hybrid':
+      return {
+        ...baseConfig,
+        provider: 'hybrid',
+        databaseBinding: 'WEBHOOK_DB',
+        bucketBinding: 'WEBHOOK_STORAGE',
+        tablePrefix: env?.STORAGE_TABLE_PREFIX || 'webhook',
+        pathPrefix: env?.STORAGE_PATH_PREFIX || 'cf-webhook',
+        bodyThresholdBytes: parseInt(env?.STORAGE_BODY_THRESHOLD_BYTES || '16384'),
+      } as HybridStorageConfig;
+      
     case 'memory':
     default:
       return {
@@ -0,0 +1,328 @@
+// Durable Object behind the Durable Object storage provider
+// Each webhook ID maps to one object holding its config and requests in transactional storage.
+// Requests are keyed by an arrival sequence number, so every read sees them in the order they were stored.
+// One extra instance, the directory, records which webhooks exist since objects cannot be enumerated.
+
+import type { WebhookRequest, WebhookConfig, RequestFilter } from '@/types/webhook';
+import { hasRequestFilter, matchesRequestFilter } from '@/lib/request-filter';
+import { isAfterCursor, type RequestCursor } from '@/lib/request-cursor';
+import { addTombstone, getDeletedSince, selectChangedRequests, type Tombstone } from '@/lib/request-changes';
+import type { CleanupRun, RequestChanges } from '@/types/storage';
+import type { RequestSummary } from './stats-builder';
+import { getOverflow, rejectsNewRequest, getWebhookLimits, type CapacitySettings, type WebhookLimits } from './capacity';
+
+// Name of the instance that tracks webhook IDs; webhook IDs are alphanumeric so it cannot collide
+export const WEBHOOK_STORE_DIRECTORY = '__directory__';
+
+// Operations understood by the object, sent as the JSON body of a POST
+export type WebhookStoreOperation =
+  | { op: 'saveRequest'; request: WebhookRequest; retentionHours: number; capacity: CapacitySettings }
+  | { op: 'getRequests'; limit: number; cursor?: RequestCursor; filter?: RequestFilter }
+  | { op: 'getRequestChanges'; since: number }
+  | { op: 'getRequest'; requestId: string }
+  | { op: 'updateRequest'; request: WebhookRequest }
+  | { op: 'deleteRequest'; requestId: string }
+  | { op: 'clearRequests' }
+  | { op: 'cleanupExpiredRequests'; retentionHours: number }
+  | { op: 'getRequestSummaries' }
+  | { op: 'canAcceptRequest'; capacity: CapacitySettings }
+  | { op: 'getEvictedCount' }
+  | { op: 'saveConfig'; config: WebhookConfig }
+  | { op: 'getConfig' }
+  | { op: 'deleteConfig' }
+  // Directory operations
+  | { op: 'register'; webhookId: string }
+  | { op: 'unregister'; webhookId: string }
+  | { op: 'listWebhooks' }
+  | { op: 'saveCleanupRun'; run: CleanupRun }
+  | { op: 'getLastCleanupRun' };
+
+const REQUEST_PREFIX = 'request:';
+const REQUEST_ID_PREFIX = 'request-id:';
+const WEBHOOK_PREFIX = 'webhook:';
+const SEQUENCE_KEY = 'sequence';
+const CONFIG_KEY = 'config';
+const RETENTION_KEY = 'retention-hours';
+const EVICTED_KEY = 'evicted-count';
+const CLEANUP_RUN_KEY = 'last-cleanup';
+const TOMBSTONES_KEY = 'deletions';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Zero-padded so storage lists sequence keys in arrival order
+function getSequenceKey(sequence: number): string {
+  return `${REQUEST_PREFIX}${sequence.toString().padStart(16, '0')}`;
+}
+
+// Requests arrive as JSON, so their timestamp is an ISO string here
+function getCapturedAt(request: WebhookRequest): number {
+  return new Date(request.timestamp).getTime();
+}
+
+export class WebhookStoreObject implements DurableObject {
+  private state: DurableObjectState;
+  private sequence = 0;
+  private requestCount = 0; // Kept in memory and counted once per activation, for capacity checks
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+    this.state.blockConcurrencyWhile(async () => {
+      this.sequence = (await this.state.storage.get<number>(SEQUENCE_KEY)) ?? 0;
+      this.requestCount = (await this.state.storage.list({ prefix: REQUEST_PREFIX })).size;
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    try {
+      const operation = await request.json() as WebhookStoreOperation;
+      return Response.json({ result: await this.handle(operation) });
+    } catch (error) {
+      return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+  }
+
+  // Retention alarm: drop expired requests, then wake up again when the oldest remaining one expires
+  async alarm(): Promise<void> {
+    const retentionHours = await this.getRetentionHours();
+    if (!retentionHours) return;
+
+    await this.cleanupExpiredRequests(retentionHours);
+    await this.scheduleRetention(retentionHours);
+  }
+
+  private async handle(operation: WebhookStoreOperation): Promise<unknown> {
+    const storage = this.state.storage;
+
+    switch (operation.op) {
+      case 'saveRequest': {
+        // Requests are handled one at a time, so the count is exact and the check cannot race
+        const limits = await this.getLimits(operation.retentionHours, operation.capacity);
+        if (rejectsNewRequest(limits, this.requestCount)) {
+          return { rejected: true, maxRequestsPerWebhook: limits.maxRequestsPerWebhook };
+        }
+
+        const wasEmpty = await this.isEmpty();
+        const key = getSequenceKey(++this.sequence);
+        await storage.put<unknown>({
+          [key]: operation.request,
+          [`${REQUEST_ID_PREFIX}${operation.request.id}`]: key,
+          [SEQUENCE_KEY]: this.sequence,
+          [RETENTION_KEY]: operation.retentionHours,
+        });
+        this.requestCount++;
+        const evictedIds = await this.evictOverflow(limits);
+        await this.scheduleRetention(limits.retentionHours);
+        return { sequence: this.sequence, wasEmpty, rejected: false, evictedIds };
+      }
+
+      case 'getRequests': {
+        const { cursor, filter, limit } = operation;
+
+        // A page continues right before the cursor's request; if that request is gone, from its capture time
+        const end = cursor ? await storage.get<string>(`${REQUEST_ID_PREFIX}${cursor.id}`) : undefined;
+        const scanAll = hasRequestFilter(filter) || (cursor && !end);
+
+        // Filtering needs every request; the object holds at most one webhook's worth
+        const listed = await storage.list<WebhookRequest>({
+          prefix: REQUEST_PREFIX,
+          reverse: true,
+          ...(end ? { end } : {}),
+          ...(scanAll ? {} : { limit }),
+        });
+
+        return Array.from(listed.values())
+          .filter(request => end || isAfterCursor(request, cursor))
+          .filter(request => !hasRequestFilter(filter) || matchesRequestFilter(request, filter))
+          .slice(0, limit);
+      }
+
+      case 'getRequestChanges': {
+        const since = new Date(operation.since);
+        const requests = await storage.list<WebhookRequest>({ prefix: REQUEST_PREFIX });
+        const { changed, oldest, truncated } = selectChangedRequests(Array.from(requests.values()), since);
+        const deleted = getDeletedSince((await storage.get<Tombstone[]>(TOMBSTONES_KEY)) ?? [], since);
+        const changes: RequestChanges = {
+          requests: changed,
+          deletedIds: deleted.deletedIds,
+          oldest,
+          truncated: truncated || deleted.truncated,
+        };
+        return changes;
+      }
+
+      case 'getRequest': {
+        const key = await storage.get<string>(`${REQUEST_ID_PREFIX}${operation.requestId}`);
+        return key ? (await storage.get<WebhookRequest>(key)) ?? null : null;
+      }
+
+      case 'updateRequest': {
+        // The request keeps its sequence number, so updates never reorder the list
+        const key = await storage.get<string>(`${REQUEST_ID_PREFIX}${operation.request.id}`);
+        if (!key) return false;
+        await storage.put(key, operation.request);
+        return true;
+      }
+
+      case 'deleteRequest': {
+        const idKey = `${REQUEST_ID_PREFIX}${operation.requestId}`;
+        const key = await storage.get<string>(idKey);
+        if (!key) return false;
+        const tombstones = addTombstone((await storage.get<Tombstone[]>(TOMBSTONES_KEY)) ?? [], operation.requestId);
+        await storage.delete([key, idKey]);
+        await storage.put(TOMBSTONES_KEY, tombstones);
+        this.requestCount--;
+        return true;
+      }
+
+      case 'clearRequests': {
+        await this.deleteByPrefix(REQUEST_PREFIX);
+        await this.deleteByPrefix(REQUEST_ID_PREFIX);
+        await storage.delete(TOMBSTONES_KEY);
+        this.requestCount = 0;
+        await storage.deleteAlarm();
+        return { isEmpty: await this.isEmpty() };
+      }
+
+      case 'cleanupExpiredRequests':
+        return this.cleanupExpiredRequests((await this.getRetentionHours(operation.retentionHours)) ?? operation.retentionHours);
+
+      case 'getRequestSummaries': {
+        const requests = await storage.list<WebhookRequest>({ prefix: REQUEST_PREFIX });
+        return Array.from(requests.values()).map((request): RequestSummary => ({
+          timestamp: getCapturedAt(request),
+          method: request.method,
+          bodySize: request.bodySize,
+        }));
+      }
+
+      case 'canAcceptRequest': {
+        const limits = await this.getLimits(0, operation.capacity); // Retention plays no part in the check
+        return !rejectsNewRequest(limits, this.requestCount);
+      }
+
+      case 'getEvictedCount':
+        return (await storage.get<number>(EVICTED_KEY)) ?? 0;
+
+      case 'saveConfig': {
+        const wasEmpty = await this.isEmpty();
+        await storage.put(CONFIG_KEY, operation.config);
+        // A changed retention moves the pending alarm
+        await storage.deleteAlarm();
+        await this.scheduleRetention((await this.getRetentionHours()) ?? 0);
+        return { wasEmpty };
+      }
+
+      case 'getConfig':
+        return (await storage.get<WebhookConfig>(CONFIG_KEY)) ?? null;
+
+      case 'deleteConfig': {
+        const deleted = await storage.delete(CONFIG_KEY);
+        return { deleted, isEmpty: await this.isEmpty() };
+      }
+
+      case 'register':
+        await storage.put(`${WEBHOOK_PREFIX}${operation.webhookId}`, Date.now());
+        return true;
+
+      case 'unregister':
+        return storage.delete(`${WEBHOOK_PREFIX}${operation.webhookId}`);
+
+      case 'listWebhooks': {
+        const webhooks = await storage.list({ prefix: WEBHOOK_PREFIX });
+        return Array.from(webhooks.keys()).map(key => key.slice(WEBHOOK_PREFIX.length));
+      }
+
+      case 'saveCleanupRun':
+        await storage.put(CLEANUP_RUN_KEY, operation.run);
+        return true;
+
+      case 'getLastCleanupRun':
+        return (await storage.get<CleanupRun>(CLEANUP_RUN_KEY)) ?? null;
+
+      default:
+        throw new Error(`Unknown operation: ${(operation as { op: string }).op}`);
+    }
+  }
+
+  // Server-wide limits sent by the provider, with this webhook's retention overrides applied
+  private async getLimits(retentionHours: number, capacity: CapacitySettings): Promise<WebhookLimits> {
+    const config = await this.state.storage.get<WebhookConfig>(CONFIG_KEY);
+    return getWebhookLimits({ retentionHours, ...capacity }, config?.retention);
+  }
+
+  // Retention in effect for this webhook: its override, else the given server-wide value,
+  // else the one recorded by the last save
+  private async getRetentionHours(serverRetentionHours?: number): Promise<number | undefined> {
+    const config = await this.state.storage.get<WebhookConfig>(CONFIG_KEY);
+    return config?.retention?.retentionHours ?? serverRetentionHours ?? (await this.state.storage.get<number>(RETENTION_KEY));
+  }
+
+  // Whether the object holds neither a config nor any request
+  private async isEmpty(): Promise<boolean> {
+    if (await this.state.storage.get(CONFIG_KEY)) return false;
+    const requests = await this.state.storage.list({ prefix: REQUEST_PREFIX, limit: 1 });
+    return requests.size === 0;
+  }
+
+  private async deleteByPrefix(prefix: string): Promise<void> {
+    const keys = Array.from((await this.state.storage.list({ prefix })).keys());
+
+    // Storage deletes at most 128 keys per call
+    for (let i = 0; i < keys.length; i += 128) {
+      await this.state.storage.delete(keys.slice(i, i + 128));
+    }
+  }
+
+  private async cleanupExpiredRequests(retentionHours: number): Promise<number> {
+    const cutoffTime = Date.now() - retentionHours * HOUR_MS;
+    const requests = await this.state.storage.list<WebhookRequest>({ prefix: REQUEST_PREFIX });
+    const expiredKeys: string[] = [];
+
+    requests.forEach((request, key) => {
+      if (getCapturedAt(request) < cutoffTime) {
+        expiredKeys.push(key, `${REQUEST_ID_PREFIX}${request.id}`);
+      }
+    });
+
+    for (let i = 0; i < expiredKeys.length; i += 128) {
+      await this.state.storage.delete(expiredKeys.slice(i, i + 128));
+    }
+
+    this.requestCount -= expiredKeys.length / 2;
+    return expiredKeys.length / 2;
+  }
+
+  // Drop the oldest requests beyond the per-webhook limit and add them to the eviction count, returning their IDs
+  private async evictOverflow(capacity: CapacitySettings): Promise<string[]> {
+    const overflow = getOverflow(capacity, this.requestCount);
+    if (overflow === 0) return [];
+
+    const oldest = await this.state.storage.list<WebhookRequest>({ prefix: REQUEST_PREFIX, limit: overflow });
+    const keys: string[] = [];
+    const ids: string[] = [];
+    oldest.forEach((request, key) => {
+      keys.push(key, `${REQUEST_ID_PREFIX}${request.id}`);
+      ids.push(request.id);
+    });
+
+    for (let i = 0; i < keys.length; i += 128) {
+      await this.state.storage.delete(keys.slice(i, i + 128));
+    }
+
+    this.requestCount -= oldest.size;
+    const evicted = (await this.state.storage.get<number>(EVICTED_KEY)) ?? 0;
+    await this.state.storage.put(EVICTED_KEY, evicted + oldest.size);
+    return ids;
+  }
+
+  // Set the alarm for when the oldest stored request expires, unless one is already set
+  private async scheduleRetention(retentionHours: number): Promise<void> {
+    if (!(retentionHours > 0) || (await this.state.storage.getAlarm()) !== null) return;
+
+    const oldest = await this.state.storage.list<WebhookRequest>({ prefix: REQUEST_PREFIX, limit: 1 });
+    const [request] = Array.from(oldest.values());
+    if (request) {
+      await this.state.storage.setAlarm(getCapturedAt(request) + retentionHours * HOUR_MS);
+    }
+  }
+}
@@ -330,6 +330,15 @@ export function extractWebhookId(url: string): string | null {
   }
 }
 
+/**
+ * Get the part of a request path after the webhook URL, e.g. "/events/v2/order" ("/" for the root)
+ */
+export function getWebhookSubPath(path: string, webhookId: string): string {
+  const prefix = `/api/webhook/${webhookId}`;
+  if (!path.startsWith(prefix)) return path || '/';
+  return path.slice(prefix.length) || '/';
+}
+
 /**
  * Check if mobile device
  */
@@ -440,7 +449,7 @@ export function exportToCsv(data: Record<string, unknown>[], filename: string, h
 /**
  * Download blob as file
  */
-function downloadBlob(blob: Blob, filename: string): void {
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
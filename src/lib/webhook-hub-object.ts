@@ -0,0 +1,99 @@
+// Durable Object that relays live updates to a webhook's WebSocket clients
+// Sockets are accepted with the hibernation API, so an idle hub leaves memory while its clients stay connected.
+// Heartbeats are answered by an auto-response and never wake it; only published events do.
+
+import type { RealtimeEvent, WebhookRequest } from '@/types/webhook';
+import { parseRequestFilter, hasRequestFilter, matchesRequestFilter } from '@/lib/request-filter';
+import { HUB_PING, HUB_PONG } from './webhook-hub';
+
+// Kept with each socket across hibernation
+interface SocketAttachment {
+  filterQuery: string; // Query string of the filters the socket was opened with
+}
+
+// Whether a socket asked to hear about this event
+function wantsEvent(socket: WebSocket, event: RealtimeEvent): boolean {
+  if (event.type !== 'new_request' && event.type !== 'request_updated') {
+    return true;
+  }
+
+  const attachment = socket.deserializeAttachment() as SocketAttachment | null;
+  const filter = parseRequestFilter(new URLSearchParams(attachment?.filterQuery ?? '')).value;
+  return !hasRequestFilter(filter) || matchesRequestFilter(event.data as WebhookRequest, filter);
+}
+
+export class WebhookHubObject implements DurableObject {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+    this.state.setWebSocketAutoResponse(new WebSocketRequestResponsePair(HUB_PING, HUB_PONG));
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.headers.get('upgrade')?.toLowerCase() === 'websocket') {
+      return this.accept(request);
+    }
+
+    try {
+      const event = await request.json() as RealtimeEvent;
+      return Response.json({ result: { delivered: this.broadcast(event) } });
+    } catch (error) {
+      return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+  }
+
+  // Clients only send heartbeats, which the auto-response has already answered
+  async webSocketMessage(): Promise<void> {}
+
+  async webSocketClose(socket: WebSocket, code: number, reason: string): Promise<void> {
+    // 1005 and 1006 report a close without a status and cannot be sent back
+    try {
+      socket.close(code === 1005 || code === 1006 ? 1000 : code, reason);
+    } catch {
+      // Already closed
+    }
+  }
+
+  async webSocketError(socket: WebSocket, error: unknown): Promise<void> {
+    console.error('WebSocket hub connection failed:', error);
+  }
+
+  private accept(request: Request): Response {
+    const filterQuery = new URL(request.url).search;
+    const filterValidation = parseRequestFilter(new URLSearchParams(filterQuery));
+    if (!filterValidation.isValid) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Invalid request filter',
+          errors: filterValidation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { 0: client, 1: server } = new WebSocketPair();
+    this.state.acceptWebSocket(server);
+    server.serializeAttachment({ filterQuery } satisfies SocketAttachment);
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  // Returns how many sockets the event was sent to
+  private broadcast(event: RealtimeEvent): number {
+    const message = JSON.stringify(event);
+    let delivered = 0;
+
+    for (const socket of this.state.getWebSockets()) {
+      if (!wantsEvent(socket, event)) continue;
+      try {
+        socket.send(message);
+        delivered++;
+      } catch {
+        // Closing; the runtime reports it through webSocketClose
+      }
+    }
+    return delivered;
+  }
+}
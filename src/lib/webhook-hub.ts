@@ -0,0 +1,89 @@
+// WebSocket live updates through a Durable Object hub, one per webhook
+// Browsers connect to `/api/ws/<id>`; the worker hands the upgrade straight to the webhook's hub object, which holds
+// the sockets. The receiver publishes every captured request to the hub, which sends it to each connected socket.
+
+import type { RealtimeEvent } from '@/types/webhook';
+import { isValidWebhookId } from '@/lib/utils';
+
+// Path of the WebSocket endpoint; handled by worker.ts since route handlers cannot return a socket
+export const WEBHOOK_HUB_PATH = /^\/api\/ws\/([^/]+)\/?$/;
+
+// Heartbeat messages; the hub answers a ping without waking from hibernation
+export const HUB_PING = 'ping';
+export const HUB_PONG = 'pong';
+
+// Bindings and variables the hub needs
+interface HubEnv {
+  WEBHOOK_HUB?: DurableObjectNamespace;
+  ENABLE_WEBSOCKET?: string;
+}
+
+/**
+ * Whether ENABLE_WEBSOCKET is on and the WEBHOOK_HUB binding exists
+ */
+export function isWebSocketEnabled(env: unknown): boolean {
+  const hubEnv = env as HubEnv | undefined;
+  return hubEnv?.ENABLE_WEBSOCKET?.toLowerCase() === 'true' && !!hubEnv.WEBHOOK_HUB;
+}
+
+function getHub(env: unknown, webhookId: string): DurableObjectStub {
+  const namespace = (env as HubEnv).WEBHOOK_HUB!;
+  return namespace.get(namespace.idFromName(webhookId));
+}
+
+function buildHubError(error: string, status: number): Response {
+  return Response.json(
+    { success: false, error },
+    {
+      status,
+      headers: { 'Access-Control-Allow-Origin': '*' },
+    }
+  );
+}
+
+/**
+ * Hand a WebSocket request to its webhook's hub. Returns null for any path other than the WebSocket endpoint,
+ * so the caller can pass the request on.
+ */
+export function connectToWebhookHub(request: Request, env: unknown): Promise<Response> | Response | null {
+  const match = new URL(request.url).pathname.match(WEBHOOK_HUB_PATH);
+  if (!match) {
+    return null;
+  }
+
+  const webhookId = match[1];
+  if (!isWebSocketEnabled(env)) {
+    return buildHubError('WebSocket updates are disabled', 404);
+  }
+  if (!isValidWebhookId(webhookId)) {
+    return buildHubError('Invalid webhook ID format', 400);
+  }
+  if (request.headers.get('upgrade')?.toLowerCase() !== 'websocket') {
+    return buildHubError('Expected a WebSocket upgrade', 426);
+  }
+
+  return getHub(env, webhookId).fetch(request);
+}
+
+/**
+ * Send an event to every socket connected to a webhook. Does nothing when WebSocket updates are disabled,
+ * and only logs failures: a missed push is picked up by the client's next poll.
+ */
+export async function publishToWebhookHub(env: unknown, webhookId: string, event: RealtimeEvent): Promise<void> {
+  if (!isWebSocketEnabled(env)) {
+    return;
+  }
+
+  try {
+    const response = await getHub(env, webhookId).fetch('https://webhook-hub/publish', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(event),
+    });
+    if (!response.ok) {
+      throw new Error(`Hub responded with ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Webhook ${webhookId}: failed to publish ${event.type} to WebSocket clients:`, error);
+  }
+}
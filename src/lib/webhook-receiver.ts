@@ -0,0 +1,446 @@
+// Webhook receiver - shared request handling for the webhook API routes
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateId } from '@/lib/utils';
+import { getStorageManager } from '@/lib/storage/storage-manager';
+import { StorageError } from '@/types/storage';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { buildMockResponse } from '@/lib/mock-response';
+import { findMatchingRule } from '@/lib/response-rules';
+import {
+  CHAOS_ATTEMPT_LOOKBACK,
+  getAttemptKey,
+  countPreviousAttempts,
+  resolveChaosOutcome,
+  applyChaosDelay,
+  buildChaosResponse,
+  isChaosFailure,
+} from '@/lib/chaos';
+import { INLINE_RAW_BODY_LIMIT, buildBodyView, buildRawBody } from '@/lib/raw-body';
+import { parseMultipartBody, buildMultipartView } from '@/lib/multipart';
+import { verifySignature } from '@/lib/signature-verification';
+import { buildUpstreamResponse, type ForwardOutcome } from '@/lib/forwarding';
+import {
+  createPendingDeliveries,
+  deliverToTargets,
+  getEnabledTargets,
+  runBackgroundDeliveries,
+  runBackgroundRetries,
+  runInBackground,
+} from '@/lib/deliveries';
+import { publishToWebhookHub } from '@/lib/webhook-hub';
+import { checkRateLimit, getRateLimitHeaders, type RateLimitResult } from '@/lib/rate-limit';
+import type { WebhookRequest, WebhookConfig, ResponseRule, ChaosOutcome, ForwardTarget } from '@/types/webhook';
+
+// Helper function to extract client IP
+function getClientIP(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  const realIP = request.headers.get('x-real-ip');
+  const cfConnectingIP = request.headers.get('cf-connecting-ip');
+  
+  if (cfConnectingIP) return cfConnectingIP;
+  if (realIP) return realIP;
+  if (forwarded) return forwarded.split(',')[0].trim();
+  
+  return 'unknown';
+}
+
+// Helper function to read the exact body bytes safely
+async function readRequestBytes(request: NextRequest): Promise<Uint8Array> {
+  try {
+    return new Uint8Array(await request.arrayBuffer());
+  } catch (error) {
+    console.error('Error reading request body:', error);
+    return new Uint8Array();
+  }
+}
+
+// Helper function to convert headers to plain object
+function headersToObject(headers: Headers): Record<string, string> {
+  const headerObj: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    headerObj[key] = value;
+  });
+  return headerObj;
+}
+
+// Helper function to parse query parameters
+function parseQueryParams(url: URL): Record<string, string> {
+  const params: Record<string, string> = {};
+  url.searchParams.forEach((value, key) => {
+    params[key] = value;
+  });
+  return params;
+}
+
+// Response for a webhook that is full under the 'reject' capacity policy
+function buildCapacityResponse(webhookId: string, method: string, maxRequestsPerWebhook: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Webhook request limit reached',
+      webhookId,
+      method,
+      timestamp: new Date().toISOString(),
+      message: `This webhook already holds ${maxRequestsPerWebhook} requests. Delete some to receive more.`,
+      maxRequestsPerWebhook
+    },
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      }
+    }
+  );
+}
+
+// Response for a sender that ran out of tokens in the webhook's or its own IP's bucket
+function buildRateLimitResponse(webhookId: string, method: string, rateLimit: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Rate limit exceeded',
+      webhookId,
+      method,
+      timestamp: new Date().toISOString(),
+      message: rateLimit.scope === 'ip'
+        ? `Too many requests from this address. Retry in ${rateLimit.retryAfter}s.`
+        : `This webhook is receiving too many requests. Retry in ${rateLimit.retryAfter}s.`,
+      retryAfter: rateLimit.retryAfter
+    },
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        ...getRateLimitHeaders(rateLimit),
+      }
+    }
+  );
+}
+
+/**
+ * Capture an incoming webhook request and build the response for the sender.
+ * Used by both `/api/webhook/[id]` and the `/api/webhook/[id]/[...path]` catch-all.
+ */
+export async function handleRequest(request: NextRequest, webhookId: string) {
+  const method = request.method;
+  const url = new URL(request.url);
+  
+  // Validate webhook ID format
+  if (!/^[a-zA-Z0-9]{6,12}$/.test(webhookId)) {
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Invalid webhook ID format',
+        webhookId,
+        timestamp: new Date().toISOString()
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Refuse floods before reading the body; senders without a known address share the webhook's bucket only.
+    // Like checkRateLimit itself, a limiter that cannot be reached lets the request through.
+    const ip = getClientIP(request);
+    let rateLimit: RateLimitResult | null = null;
+    try {
+      rateLimit = await checkRateLimit(getCloudflareContext().env, [
+        { scope: 'webhook', key: webhookId },
+        ...(ip !== 'unknown' ? [{ scope: 'ip' as const, key: ip }] : []),
+      ]);
+    } catch (rateLimitError) {
+      console.warn(`Webhook ${webhookId}: rate limiter unavailable, allowing request:`, rateLimitError);
+    }
+    if (rateLimit && !rateLimit.allowed) {
+      return buildRateLimitResponse(webhookId, method, rateLimit);
+    }
+
+    // Parse request data
+    const headers = headersToObject(request.headers);
+    const queryParams = parseQueryParams(url);
+    const rawBytes = await readRequestBytes(request);
+    const userAgent = headers['user-agent'] || 'unknown';
+    const contentType = headers['content-type'] || 'unknown';
+    
+    // Readable view of the body; the exact bytes are kept in rawBody
+    const parts = parseMultipartBody(rawBytes, contentType);
+    const body = parts ? buildMultipartView(parts) : buildBodyView(rawBytes, contentType);
+    const bodySize = rawBytes.length;
+    
+    // Create webhook request object
+    const webhookRequest: WebhookRequest = {
+      id: generateId(),
+      webhookId,
+      method,
+      path: url.pathname,
+      headers,
+      body,
+      queryParams,
+      timestamp: new Date(),
+      ip,
+      userAgent,
+      contentType,
+      bodySize,
+      parts: parts || undefined,
+    };
+
+    // Store request using storage manager only
+    let webhookConfig: WebhookConfig | null = null;
+    let matchedRule: ResponseRule | null = null;
+    let chaosOutcome: ChaosOutcome | null = null;
+    let forwarded: ForwardOutcome | null = null;
+    try {
+      const cloudflareContext = getCloudflareContext();
+      
+      const storageManager = await getStorageManager(cloudflareContext);
+      
+      // Refuse before storing a raw body or forwarding anything when the webhook is full
+      if (!(await storageManager.canAcceptRequest(webhookId))) {
+        return buildCapacityResponse(webhookId, method, storageManager.getConfig().maxRequestsPerWebhook);
+      }
+      
+      // Keep the exact bytes, as a separate object when too large to store inline
+      if (rawBytes.length > 0) {
+        const objectKey = rawBytes.length > INLINE_RAW_BODY_LIMIT
+          ? await storageManager.saveRawBody(webhookId, webhookRequest.id, rawBytes, headers['content-type'])
+          : null;
+        webhookRequest.rawBody = await buildRawBody(rawBytes, body, objectKey);
+      }
+      
+      // Load server-side settings such as the configured mock response and rules; the request is still
+      // captured with the default response when they cannot be read
+      try {
+        webhookConfig = await storageManager.getWebhookConfig(webhookId);
+      } catch (configError) {
+        console.warn(`Webhook ${webhookId}: failed to load config, answering with defaults:`, configError);
+      }
+      
+      // Check the provider signature against the exact bytes received
+      if (webhookConfig?.verification?.enabled) {
+        webhookRequest.verification = await verifySignature(webhookConfig.verification, {
+          rawBytes,
+          headers,
+          url: url.href,
+          receivedAt: webhookRequest.timestamp,
+        });
+      }
+      
+      // Decide which chaos behaviour to inject, counting earlier attempts when needed
+      const chaosConfig = webhookConfig?.chaos;
+      if (chaosConfig?.enabled) {
+        let previousAttempts = 0;
+        if (chaosConfig.failFirstN > 0) {
+          const recentRequests = await storageManager.getRequests(webhookId, CHAOS_ATTEMPT_LOOKBACK);
+          previousAttempts = countPreviousAttempts(chaosConfig, getAttemptKey(chaosConfig, webhookRequest), recentRequests);
+        }
+        chaosOutcome = resolveChaosOutcome(chaosConfig, webhookRequest, previousAttempts);
+        if (chaosOutcome) {
+          webhookRequest.chaos = chaosOutcome;
+        }
+      }
+      
+      // Record which rule will answer this request before it is stored
+      if (!chaosOutcome || chaosOutcome.action === 'none') {
+        matchedRule = findMatchingRule(webhookConfig?.rules, webhookRequest);
+      }
+      if (matchedRule) {
+        webhookRequest.matchedRule = {
+          id: matchedRule.id,
+          name: matchedRule.name,
+          statusCode: matchedRule.response.statusCode,
+        };
+      }
+      
+      // Relay to the targets unless an injected failure means the request was never accepted. Only the target whose
+      // answer is passed back is awaited; the others are stored as pending and sent after the sender has its response.
+      const forwarding = webhookConfig?.forwarding;
+      const forwardable = { webhookId, requestId: webhookRequest.id, method, url: url.href, headers, rawBytes, ip };
+      let backgroundTargets: ForwardTarget[] = [];
+      if (forwarding?.enabled && !isChaosFailure(chaosOutcome ?? undefined)) {
+        const targets = getEnabledTargets(forwarding);
+        const awaitedTargets = forwarding.returnResponse ? targets.slice(0, 1) : [];
+        backgroundTargets = targets.slice(awaitedTargets.length);
+
+        const delivered = await deliverToTargets(awaitedTargets, forwardable);
+        webhookRequest.deliveries = [...delivered.deliveries, ...createPendingDeliveries(backgroundTargets)];
+        forwarded = delivered.primary;
+      }
+      
+      await storageManager.saveRequest(webhookId, webhookRequest);
+      
+      // Push the request to dashboards connected over WebSocket
+      cloudflareContext.ctx?.waitUntil(publishToWebhookHub(cloudflareContext.env, webhookId, {
+        type: 'new_request',
+        data: webhookRequest,
+        timestamp: new Date(),
+      }));
+      
+      // Pending deliveries and failed ones are sent after the sender has its response
+      if (forwarding && backgroundTargets.length > 0) {
+        runInBackground(
+          cloudflareContext,
+          runBackgroundDeliveries(storageManager, forwardable, forwarding, backgroundTargets)
+        );
+      } else if (forwarding && webhookRequest.deliveries?.some(delivery => delivery.status === 'retrying')) {
+        runInBackground(
+          cloudflareContext,
+          runBackgroundRetries(storageManager, webhookId, webhookRequest.id, forwarding, rawBytes)
+        );
+      }
+      
+    } catch (storageError) {
+      // Filled up between the capacity check and the save
+      if (storageError instanceof StorageError && storageError.isCapacityError()) {
+        return buildCapacityResponse(webhookId, method, storageError.details?.maxRequestsPerWebhook);
+      }
+      
+      console.error(`Webhook ${webhookId}: Failed to save to storage:`, storageError);
+      
+      // Check if this is a D1-specific error and provide detailed information
+      if (storageError instanceof Error && 'provider' in storageError && (storageError as any).provider === 'd1') {
+        const d1Error = storageError as any; // StorageError with D1 details
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'D1 Database Configuration Error',
+            webhookId,
+            method,
+            timestamp: new Date().toISOString(),
+            message: d1Error.message,
+            storageError: {
+              provider: 'd1',
+              type: d1Error.details?.isBindingError ? 'binding_error' : 'initialization_error',
+              details: d1Error.details?.configurationHelp || null
+            }
+          },
+          { 
+            status: 503, // Service Unavailable due to configuration issue
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*',
+            }
+          }
+        );
+      }
+      
+      // Return generic error for other storage failures
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to save webhook request',
+          webhookId,
+          method,
+          timestamp: new Date().toISOString(),
+          message: 'Storage system unavailable'
+        },
+        { 
+          status: 500,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      );
+    }
+
+    console.log(`Webhook ${webhookId} received ${method} request from ${ip}`);
+
+    // Apply injected latency and failures
+    if (chaosOutcome) {
+      await applyChaosDelay(chaosOutcome);
+      
+      const chaosResponse = buildChaosResponse(chaosOutcome, webhookRequest);
+      if (chaosResponse) {
+        return chaosResponse;
+      }
+    }
+
+    // Return the first matching rule's response, then the configured mock response
+    if (matchedRule) {
+      return buildMockResponse(matchedRule.response, webhookRequest);
+    }
+
+    // Proxy mode: answer with whatever the upstream returned
+    if (forwarded && webhookConfig?.forwarding?.returnResponse) {
+      return buildUpstreamResponse(forwarded);
+    }
+
+    if (webhookConfig?.response?.enabled) {
+      return buildMockResponse(webhookConfig.response, webhookRequest);
+    }
+
+    // Return success response with request details
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Webhook request received successfully',
+        webhook: {
+          id: webhookId,
+          method,
+          timestamp: webhookRequest.timestamp,
+          requestId: webhookRequest.id,
+        },
+        request: {
+          method,
+          path: url.pathname,
+          contentType,
+          bodySize,
+          timestamp: webhookRequest.timestamp,
+        },
+        debug: {
+          headers: Object.keys(headers).length,
+          queryParams: Object.keys(queryParams).length,
+          userAgent: userAgent.slice(0, 100), // Truncate for response
+        }
+      },
+      { 
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, PATCH, HEAD, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error('Error processing webhook request:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error while processing webhook',
+        webhookId,
+        method,
+        timestamp: new Date().toISOString(),
+        message: 'Your request was received but could not be processed completely'
+      },
+      { 
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    );
+  }
+}
+
+/**
+ * Handle CORS preflight requests for the receiver
+ */
+export function handlePreflight() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, PATCH, HEAD, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
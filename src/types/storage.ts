@@ -1,7 +1,8 @@
 // Storage provider abstraction for CF-Webhook
 // Supports different storage backends like R2, KV, D1, etc.
 
-import type { WebhookRequest, WebhookConfig } from './webhook';
+import type { WebhookRequest, WebhookConfig, RequestFilter, RequestSearchResult } from './webhook';
+import type { RequestCursor } from '@/lib/request-cursor';
 
 // Base storage provider interface
 export interface StorageProvider {
@@ -9,10 +10,15 @@ export interface StorageProvider {
   getProviderInfo(): ProviderInfo;
   
   // Request operations
-  saveRequest(webhookId: string, request: WebhookRequest): Promise<void>;
-  getRequests(webhookId: string, limit?: number, offset?: number): Promise<WebhookRequest[]>;
+  saveRequest(webhookId: string, request: WebhookRequest): Promise<string[]>; // IDs of the requests evicted to make room
+  getRequests(webhookId: string, limit?: number, cursor?: RequestCursor, filter?: RequestFilter): Promise<WebhookRequest[]>; // Newest first by compareRequestOrder, starting after `cursor`; `limit` counts matching requests
+  searchRequests(webhookId: string, query: string, limit?: number): Promise<RequestSearchResult[]>; // Best matches first
+  getRequestChanges(webhookId: string, since: Date): Promise<RequestChanges>; // What incremental polls need to catch up from `since`
+  getRequest(webhookId: string, requestId: string): Promise<WebhookRequest | null>;
+  updateRequest(webhookId: string, request: WebhookRequest): Promise<boolean>; // Replaces a stored request, false when it no longer exists
   deleteRequest(webhookId: string, requestId: string): Promise<boolean>;
   clearRequests(webhookId: string): Promise<void>;
+  canAcceptRequest(webhookId: string): Promise<boolean>; // False when the webhook is full and its capacity policy rejects new requests
   
   // Webhook configuration operations
   saveWebhookConfig(config: WebhookConfig): Promise<void>;
@@ -22,6 +28,8 @@ export interface StorageProvider {
   
   // Cleanup operations
   cleanupExpiredRequests(retentionHours: number): Promise<number>;
+  saveCleanupRun(run: CleanupRun): Promise<void>;
+  getLastCleanupRun(): Promise<CleanupRun | null>;
   
   // Health check
   isHealthy(): Promise<boolean>;
@@ -32,7 +40,7 @@ export interface StorageProvider {
 
 // Provider identification information for debugging
 export interface ProviderInfo {
-  type: 'r2' | 'kv' | 'd1' | 'memory';
+  type: 'r2' | 'kv' | 'd1' | 'do' | 'hybrid' | 'memory';
   name: string;
   instance: string; // unique instance identifier
   details?: ProviderDetails; // provider-specific details
@@ -43,6 +51,7 @@ export interface ProviderDetails {
   // Common fields
   retentionHours?: number;
   maxRequestsPerWebhook?: number;
+  capacityPolicy?: CapacityPolicy;
   
   // Performance metrics
   totalOperations?: number;
@@ -60,6 +69,13 @@ export interface ProviderDetails {
   bucketBinding?: string;
   pathPrefix?: string;
   
+  // KV / Durable Object specific
+  namespaceBinding?: string;
+  keyPrefix?: string;
+  
+  // Hybrid specific
+  bodyThresholdBytes?: number;
+  
   // Memory specific
   currentWebhooks?: number;
   totalRequests?: number;
@@ -70,11 +86,16 @@ export interface ProviderDetails {
   };
 }
 
+// What happens to a new request when its webhook already holds maxRequestsPerWebhook requests:
+// 'evict' drops the oldest stored requests, 'reject' refuses the new one
+export type CapacityPolicy = 'evict' | 'reject';
+
 // Storage configuration
 export interface StorageConfig {
-  provider: 'r2' | 'kv' | 'd1' | 'memory';
+  provider: 'r2' | 'kv' | 'd1' | 'do' | 'hybrid' | 'memory';
   retentionHours: number;
-  maxRequestsPerWebhook: number;
+  maxRequestsPerWebhook: number; // 0 or less stores requests without a cap
+  capacityPolicy?: CapacityPolicy; // Defaults to 'evict'
 }
 
 // R2 specific configuration
@@ -88,6 +109,13 @@ export interface R2StorageConfig extends StorageConfig {
 export interface KVStorageConfig extends StorageConfig {
   provider: 'kv';
   namespaceBinding: string;
+  keyPrefix?: string;
+}
+
+// Durable Object specific configuration
+export interface DurableObjectStorageConfig extends StorageConfig {
+  provider: 'do';
+  namespaceBinding: string;
 }
 
 // D1 specific configuration
@@ -97,6 +125,34 @@ export interface D1StorageConfig extends StorageConfig {
   tablePrefix?: string;
 }
 
+// Hybrid D1 + R2 configuration: metadata in D1, content above the threshold in R2
+export interface HybridStorageConfig extends StorageConfig {
+  provider: 'hybrid';
+  databaseBinding: string;
+  bucketBinding: string;
+  tablePrefix?: string;
+  pathPrefix?: string;
+  bodyThresholdBytes: number;
+}
+
+// Changes to a webhook's requests after a point in time, for incremental polling
+export interface RequestChanges {
+  requests: WebhookRequest[]; // Captured or updated after `since`, newest first, at most MAX_CHANGED_REQUESTS
+  deletedIds: string[]; // Requests deleted individually after `since`
+  oldest: RequestCursor | null; // Oldest stored request: anything older was evicted, expired or cleared; null when none are left
+  truncated: boolean; // Too much changed to describe, the client should reload instead
+}
+
+// Outcome of a retention cleanup pass, kept so server stats can show when it last ran
+export interface CleanupRun {
+  startedAt: Date;
+  durationMs: number;
+  deletedCount: number;
+  retentionHours: number;
+  cron?: string; // Cron expression of the scheduled trigger that started the run
+  error?: string;
+}
+
 // Storage operation metrics
 export interface StorageMetrics {
   operationType: 'save' | 'get' | 'delete' | 'clear' | 'health';
@@ -124,6 +180,15 @@ export interface StorageStats {
     totalOperations: number;
     uptime: number;
   };
+  capacity: {
+    maxRequestsPerWebhook: number;
+    policy: CapacityPolicy;
+    evictedRequests: number; // Requests dropped to make room, over the lifetime of the storage
+  };
+  bodyTiers?: { // Hybrid only
+    inlineBodies: number; // Requests whose headers and body are kept in D1
+    offloadedBodies: number; // Requests whose headers and body were moved to R2
+  };
 }
 
 // Webhook distribution stats
@@ -214,6 +279,25 @@ export class StorageError extends Error {
     );
   }
 
+  // Check if a request was refused because its webhook is full
+  isCapacityError(): boolean {
+    return this.details?.isCapacityError === true;
+  }
+
+  // Static factory method for requests refused under the 'reject' capacity policy
+  static capacityExceeded(provider: string, webhookId: string, maxRequestsPerWebhook: number): StorageError {
+    return new StorageError(
+      `Webhook ${webhookId} already holds ${maxRequestsPerWebhook} requests, the per-webhook limit`,
+      provider,
+      'capacity_check',
+      {
+        isCapacityError: true,
+        webhookId,
+        maxRequestsPerWebhook
+      }
+    );
+  }
+
   // Static factory method for D1 binding errors
   static d1BindingNotFound(databaseBinding: string = 'WEBHOOK_DB'): StorageError {
     return new StorageError(
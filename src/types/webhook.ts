@@ -1,5 +1,7 @@
 // Core webhook type definitions
 
+import type { RequestCursor } from '@/lib/request-cursor';
+
 export interface WebhookConfig {
   id: string;
   name?: string;
@@ -8,6 +10,82 @@ export interface WebhookConfig {
   lastRequestAt?: Date;
   requestCount: number;
   isActive: boolean;
+  response?: MockResponseConfig; // Custom response returned by the receiver
+  rules?: ResponseRule[]; // Ordered conditional responses, evaluated before `response`
+  chaos?: ChaosConfig; // Simulated latency and failures
+  verification?: SignatureVerificationConfig; // Signature check applied to incoming requests
+  forwarding?: ForwardingConfig; // Upstreams the captured request is delivered to
+  retention?: RetentionConfig; // Overrides of the server-wide retention and capacity limits
+}
+
+// Per-webhook storage limits, unset values fall back to the server-wide settings
+export interface RetentionConfig {
+  retentionHours?: number; // Overrides REQUEST_RETENTION_HOURS
+  maxRequests?: number; // Overrides MAX_REQUESTS_PER_WEBHOOK
+}
+
+// Mock response returned by the receiver instead of the debug envelope
+export interface MockResponseConfig {
+  enabled: boolean;
+  statusCode: number;
+  contentType: string;
+  headers: Record<string, string>;
+  body: string; // Body template, supports {{placeholders}}
+}
+
+// Conditional response rule types
+export type RuleConditionField = 'method' | 'path' | 'header' | 'query' | 'body' | 'jsonPath';
+
+export type RuleConditionOperator = 'equals' | 'notEquals' | 'contains' | 'startsWith' | 'regex' | 'exists';
+
+export interface RuleCondition {
+  field: RuleConditionField;
+  key?: string; // Header name, query parameter or JSON path (e.g. $.type)
+  operator: RuleConditionOperator;
+  value?: string;
+}
+
+export interface ResponseRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleCondition[]; // All conditions must match
+  response: MockResponseConfig;
+}
+
+// Rule that produced the response for a captured request
+export interface MatchedRule {
+  id: string;
+  name: string;
+  statusCode: number;
+}
+
+// Chaos testing types
+export type ChaosDelayMode = 'none' | 'fixed' | 'random';
+
+export interface ChaosConfig {
+  enabled: boolean;
+  delayMode: ChaosDelayMode;
+  delayMs: number; // Fixed delay
+  delayMinMs: number; // Random delay lower bound
+  delayMaxMs: number; // Random delay upper bound
+  errorRate: number; // Percentage (0-100) of requests answered with a 5xx
+  errorStatusCode: number;
+  dropRate: number; // Percentage (0-100) of connections dropped without a response
+  failFirstN: number; // Fail the first N attempts, then succeed
+  attemptKeyHeader?: string; // Header identifying retries of one delivery (e.g. x-github-delivery)
+  updatedAt?: number; // Attempt counting restarts when settings are saved
+}
+
+export type ChaosAction = 'none' | 'error' | 'drop' | 'failFirst';
+
+// Chaos behaviour applied to a captured request
+export interface ChaosOutcome {
+  action: ChaosAction;
+  delayMs: number;
+  statusCode?: number; // Status code of an injected failure
+  attempt?: number; // Attempt number when failFirstN is in effect
+  attemptKey?: string;
 }
 
 export interface WebhookRequest {
@@ -23,6 +101,150 @@ export interface WebhookRequest {
   userAgent?: string;
   contentType?: string;
   bodySize: number;
+  matchedRule?: MatchedRule;
+  chaos?: ChaosOutcome; // Behaviour deliberately injected into the response
+  rawBody?: RawBody; // Exact bytes received, `body` holds the readable view
+  parts?: MultipartPart[]; // Parsed multipart/form-data parts
+  verification?: VerificationResult; // Outcome of the configured signature check
+  deliveries?: Delivery[]; // One entry per forwarding target
+  replays?: ReplayResult[]; // Manual re-sends, oldest first
+  contentKey?: string; // Storage object holding headers and body when the hybrid provider offloaded them
+  updatedAt?: Date; // When the request was stored, then last changed by delivery or replay updates
+}
+
+// Signature verification types
+export type SignatureScheme = 'github' | 'stripe' | 'slack' | 'shopify' | 'twilio' | 'hmac' | 'jwt';
+
+export type HmacAlgorithm = 'sha1' | 'sha256' | 'sha512';
+export type HmacEncoding = 'hex' | 'base64';
+export type HmacPayload = 'body' | 'timestamp-body' | 'url-body';
+
+// Custom HMAC scheme for services without a preset
+export interface HmacVerifierConfig {
+  header: string; // Header carrying the signature
+  algorithm: HmacAlgorithm;
+  encoding: HmacEncoding;
+  payload: HmacPayload; // What gets signed
+  prefix: string; // Stripped from the header value before comparing, e.g. "sha256="
+  separator: string; // Placed between the timestamp or URL and the body
+  timestampHeader: string; // Header carrying the signed timestamp (timestamp-body only)
+}
+
+// JWT bearer tokens verified against a locally pasted key
+export interface JwtVerifierConfig {
+  header: string; // Header carrying the token, "Bearer " is stripped
+  issuer: string; // Expected iss claim, empty to skip the check
+  audience: string; // Expected aud claim, empty to skip the check
+}
+
+export interface SignatureVerificationConfig {
+  enabled: boolean;
+  scheme: SignatureScheme;
+  secret: string; // Signing secret (Twilio: auth token, JWT: PEM public key, JWK, JWKS or HS* secret)
+  toleranceSeconds: number; // Maximum age of signed timestamps (Stripe, Slack, custom HMAC), clock skew for JWT exp/nbf
+  hmac?: HmacVerifierConfig;
+  jwt?: JwtVerifierConfig;
+}
+
+export type VerificationStatus = 'valid' | 'invalid' | 'missing' | 'expired' | 'error';
+
+export interface VerificationResult {
+  scheme: SignatureScheme;
+  status: VerificationStatus;
+  header?: string; // Header the signature was read from
+  received?: string; // Signature sent by the provider
+  computed?: string; // Signature computed from the raw body
+  signedAt?: number; // Signed timestamp in Unix seconds (Stripe, Slack, custom HMAC, JWT iat)
+  algorithm?: string; // Algorithm used (custom HMAC, JWT alg)
+  keyId?: string; // JWT kid of the key that matched
+  claims?: Record<string, unknown>; // Decoded JWT payload
+  message?: string;
+}
+
+// Request forwarding types
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first one
+  initialDelayMs: number; // Wait before the first retry
+  backoffMultiplier: number; // Each further retry waits this many times longer
+  maxDelayMs: number; // Upper bound for a single wait
+}
+
+export interface ForwardTarget {
+  id: string;
+  name: string;
+  enabled: boolean;
+  url: string; // Upstream base URL, the captured sub-path and query string are appended
+  timeoutMs: number;
+  retry: RetryPolicy;
+}
+
+export interface ForwardingConfig {
+  enabled: boolean;
+  targets: ForwardTarget[];
+  returnResponse: boolean; // Answer the sender with the first target's response instead of the debug envelope
+}
+
+export type DeliveryTrigger = 'initial' | 'retry' | 'manual';
+
+// Upstream answer to a forwarded or replayed request
+export interface UpstreamResult {
+  url: string; // Final upstream URL
+  method: string;
+  startedAt: string; // ISO timestamp
+  latencyMs: number;
+  status?: number; // Missing when the upstream could not be reached
+  statusText?: string;
+  headers?: Record<string, string>;
+  body?: string; // Upstream body, truncated to the inline limit
+  bodyEncoding?: 'utf8' | 'base64';
+  bodySize?: number; // Full upstream body size in bytes
+  bodyTruncated?: boolean;
+  error?: string; // Network error, timeout or skipped forward
+}
+
+export interface ForwardResult extends UpstreamResult {
+  attempt: number; // 1-based attempt number
+  trigger: DeliveryTrigger;
+}
+
+export type DeliveryStatus = 'retrying' | 'succeeded' | 'failed';
+
+// Delivery of a captured request to one forwarding target
+export interface Delivery {
+  targetId: string;
+  targetName: string;
+  status: DeliveryStatus;
+  attempts: ForwardResult[]; // Oldest first
+  nextAttemptAt?: string; // ISO timestamp of the next scheduled retry
+}
+
+// Replay of a captured request, possibly edited, to any URL
+export interface ReplayResult extends UpstreamResult {
+  id: string;
+  requestHeaders: Record<string, string>; // Headers as sent
+  requestBodySize: number;
+  edited: boolean; // Method, headers or body differ from the captured request
+  batchId?: string; // Shared by replays sent together from the request list
+}
+
+// A single part of a multipart/form-data body
+export interface MultipartPart {
+  index: number;
+  name: string; // Form field name
+  filename?: string; // Present for file uploads
+  contentType?: string;
+  size: number;
+  headers: Record<string, string>;
+  value?: string; // Text value of non-file fields
+  offset: number; // Byte offset of the part content within the raw body
+}
+
+// Exact request body bytes as received on the wire
+export interface RawBody {
+  encoding: 'utf8' | 'base64'; // utf8 when the bytes are valid UTF-8 text
+  data?: string; // Inline bytes; omitted when identical to `body` or stored as an object
+  objectKey?: string; // Storage object holding a body too large to inline
+  sha256: string; // Hex digest of the exact bytes
 }
 
 export interface WebhookStats {
@@ -54,14 +276,20 @@ export interface AppSettings {
 
 // Real-time communication types
 export interface RealtimeEvent {
-  type: 'new_request' | 'webhook_created' | 'webhook_deleted';
-  data: WebhookRequest | WebhookConfig;
+  type: 'new_request' | 'request_updated' | 'requests_removed' | 'webhook_created' | 'webhook_deleted';
+  data: WebhookRequest | WebhookConfig | RequestRemoval;
   timestamp: Date;
 }
 
+// Requests that left storage: deleted one by one, or older than `oldest` because they were evicted, expired or cleared
+export interface RequestRemoval {
+  deletedIds: string[];
+  oldest: RequestCursor | null; // Null when the webhook has no requests left
+}
+
 export interface ConnectionStatus {
   isConnected: boolean;
-  connectionType: 'websocket' | 'polling' | 'disconnected';
+  connectionType: 'websocket' | 'sse' | 'polling' | 'disconnected';
   lastPing?: Date;
   reconnectAttempts: number;
 }
@@ -78,12 +306,26 @@ export interface ApiResponse<T = unknown> {
 export interface RequestFilter {
   method?: HttpMethod[];
   dateRange?: {
-    start: Date;
-    end: Date;
+    start?: Date; // Inclusive, open-ended when missing
+    end?: Date; // Inclusive, open-ended when missing
   };
-  searchTerm?: string;
-  userAgent?: string;
-  contentType?: string;
+  searchTerm?: string; // Case-insensitive substring of the headers or body
+  userAgent?: string; // Case-insensitive substring
+  contentType?: string; // Case-insensitive substring, e.g. "json"
+  ip?: string; // Exact client IP
+  pathPrefix?: string; // Start of the sub-path after the webhook URL, e.g. "/events"
+}
+
+// Piece of a search snippet; `match` marks text that matched the query
+export interface SearchSnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface RequestSearchResult {
+  request: WebhookRequest;
+  score: number; // Higher is more relevant
+  snippet: SearchSnippetPart[]; // Excerpt of the body, or of the headers when only they matched
 }
 
 export interface SortConfig {
@@ -133,6 +375,62 @@ export const DEFAULT_SETTINGS: AppSettings = {
   retentionHours: 24,
 } as const;
 
+export const DEFAULT_MOCK_RESPONSE: MockResponseConfig = {
+  enabled: false,
+  statusCode: 200,
+  contentType: 'application/json',
+  headers: {},
+  body: '{\n  "received": true,\n  "id": "{{request.id}}"\n}',
+};
+
+export const DEFAULT_VERIFICATION_CONFIG: SignatureVerificationConfig = {
+  enabled: false,
+  scheme: 'github',
+  secret: '',
+  toleranceSeconds: 300,
+};
+
+export const DEFAULT_HMAC_VERIFIER_CONFIG: HmacVerifierConfig = {
+  header: 'x-signature',
+  algorithm: 'sha256',
+  encoding: 'hex',
+  payload: 'body',
+  prefix: '',
+  separator: '.',
+  timestampHeader: 'x-timestamp',
+};
+
+export const DEFAULT_JWT_VERIFIER_CONFIG: JwtVerifierConfig = {
+  header: 'authorization',
+  issuer: '',
+  audience: '',
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 2000,
+  backoffMultiplier: 2,
+  maxDelayMs: 60000,
+};
+
+export const DEFAULT_FORWARDING_CONFIG: ForwardingConfig = {
+  enabled: false,
+  targets: [],
+  returnResponse: false,
+};
+
+export const DEFAULT_CHAOS_CONFIG: ChaosConfig = {
+  enabled: false,
+  delayMode: 'none',
+  delayMs: 1000,
+  delayMinMs: 500,
+  delayMaxMs: 3000,
+  errorRate: 0,
+  errorStatusCode: 503,
+  dropRate: 0,
+  failFirstN: 0,
+};
+
 export const HTTP_METHODS: readonly HttpMethod[] = [
   'GET', 
   'POST', 
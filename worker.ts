@@ -0,0 +1,27 @@
+// Worker entry for CF-Webhook
+// Wraps the OpenNext worker so the Durable Object classes and the cron handler live in the same script
+
+// @ts-ignore `.open-next/worker.js` is generated at build time
+import { default as handler } from './.open-next/worker.js';
+import { DELIVERY_SWEEP_CRON, runScheduledCleanup, runScheduledDeliveries } from './src/lib/scheduled-cleanup';
+import { connectToWebhookHub } from './src/lib/webhook-hub';
+
+export default {
+  // WebSocket connections go straight to the webhook's hub object; everything else is the Next.js app
+  fetch(request, env, ctx) {
+    return connectToWebhookHub(request, env) ?? handler.fetch(request, env, ctx);
+  },
+
+  // Cron triggers in wrangler.toml send due delivery retries every minute and run retention cleanup hourly
+  scheduled(controller, env, ctx) {
+    if (controller.cron === DELIVERY_SWEEP_CRON) {
+      ctx.waitUntil(runScheduledDeliveries(env));
+    } else {
+      ctx.waitUntil(runScheduledCleanup(env, controller.cron));
+    }
+  },
+} satisfies ExportedHandler<CloudflareEnv>;
+
+export { WebhookStoreObject } from './src/lib/storage/webhook-store-object';
+export { WebhookHubObject } from './src/lib/webhook-hub-object';
+export { RateLimiterObject } from './src/lib/rate-limiter-object';